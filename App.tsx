@@ -1,122 +1,695 @@
-import React, { useState, useEffect } from 'react';
-import { GameState, GameAction, GameActionType, HistoryItem, Difficulty } from './types';
-import { fetchTrendingNews, generateRiddleFromTopic, generateRiddleImage } from './services/geminiService';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
+import { GameActionType, GameMode, GenerationErrorKind, HistoryItem, Difficulty, DifficultySetting, DailyPuzzle, DailyStreak, RiddleData, RiddlePack, PackProgress, RiddleProvider, QuestRun, RunConfig, RunRecord, PartyMatch, Player, TurnStyle, RiddleFormat, NewsSource, NewsCategory, TrendingTopic, FeedItem, NewsFeed, Language, SafetySettings, ImageStyle } from './types';
+import { getRiddleProvider } from './services/riddleProvider';
+import { gameReducer, createInitialGameState, shownImageStyle } from './services/gameReducer';
+import { calculateScore, isDifficulty } from './services/scoring';
+import { getRemainingMs, TIME_LIMIT_MS, HINT_TIME_COST_MS } from './services/roundTimer';
+import { getFormat, isAnswerCorrect, RIDDLE_FORMATS } from './services/riddleFormats';
+import { skillService, pickAdaptiveTarget, roundPerformance, TIER_RATING } from './services/skillRating';
 import { audioService } from './services/audioService';
 import { storageService } from './services/storageService';
+import { downloadArchive, parseArchive, previewImport, applyImport, ImportPreview } from './services/archiveService';
+import { prefetchQueue } from './services/prefetchQueue';
+import { topicIndexService, fetchFreshTopic } from './services/topicIndex';
+import { categoryService, categoryLabel } from './services/categoryService';
+import { feedItemToTopic } from './services/feedService';
+import { GenerationError, toGenerationError } from './services/errors';
+import { moderationService } from './services/moderation';
+import { imageStyleService, withImageStyle, IMAGE_STYLES } from './services/imageStyles';
+import { i18n, t, tn, formatNumber, LANGUAGES, isLanguage } from './services/i18n';
+import { MessageKey } from './locales/en';
+import { packService, historyItemToRiddle, toPackEntry } from './services/packService';
+import { dailyService, getDateKey, getDayNumber, getDailySeed, DAILY_LANGUAGE, DAILY_CATEGORY } from './services/dailyService';
+import { runService, createRun, recordRunRound, isRunOver, toRunRecord } from './services/runService';
+import { partyService, createMatch, currentPlayer, recordTurn, advanceTurn, isLastTurnOfRound } from './services/partyService';
 import LoadingView from './components/LoadingView';
 import GameScreen from './components/GameScreen';
 import HistoryScreen from './components/HistoryScreen';
-import { Search, Sparkles, AlertCircle, Volume2, VolumeX, Trophy, Globe, Cpu, Trophy as TrophyIcon, Film, Flame, Zap, Brain, Hexagon } from 'lucide-react';
+import StatsScreen from './components/StatsScreen';
+import ImportPreviewDialog from './components/ImportPreviewDialog';
+import PacksScreen from './components/PacksScreen';
+import SaveToPackDialog from './components/SaveToPackDialog';
+import RunSetupPanel from './components/RunSetupPanel';
+import SkillRatingCard from './components/SkillRatingCard';
+import RunSummaryScreen from './components/RunSummaryScreen';
+import PartySetupScreen from './components/PartySetupScreen';
+import PartyScoreboardScreen from './components/PartyScoreboardScreen';
+import CategoryIcon from './components/CategoryIcon';
+import CategoryManagerDialog from './components/CategoryManagerDialog';
+import FeedPanel from './components/FeedPanel';
+import SafetySettingsDialog from './components/SafetySettingsDialog';
+import { Search, Sparkles, AlertCircle, Volume2, VolumeX, Trophy, Trophy as TrophyIcon, Flame, Zap, Brain, Hexagon, Star, CalendarDays, CheckCircle2, XCircle, BarChart3, Package, WifiOff, Clock, ShieldAlert, Hourglass, RotateCcw, Timer, Users, Gauge, ListChecks, ToggleLeft, Shapes, Keyboard, Shuffle, SlidersHorizontal, Languages, ShieldCheck, Droplets, Grid3x3, Camera, PenLine } from 'lucide-react';
+
+const ERROR_VIEWS: Record<GenerationErrorKind, { title: MessageKey; icon: React.ElementType }> = {
+  quota: { title: 'error.quota', icon: Hourglass },
+  safety: { title: 'error.safety', icon: ShieldAlert },
+  network: { title: 'error.network', icon: WifiOff },
+  malformed: { title: 'error.malformed', icon: AlertCircle },
+  timeout: { title: 'error.timeout', icon: Clock },
+  aborted: { title: 'error.aborted', icon: AlertCircle },
+  unknown: { title: 'error.unknown', icon: AlertCircle },
+};
+
+const FORMAT_ICONS: Record<RiddleFormat, React.ElementType> = {
+  multiple_choice: ListChecks,
+  true_false: ToggleLeft,
+  odd_one_out: Shapes,
+  free_text: Keyboard,
+  anagram: Shuffle,
+};
+
+const STYLE_ICONS: Record<ImageStyle, React.ElementType> = {
+  auto: Sparkles,
+  watercolor: Droplets,
+  pixel_art: Grid3x3,
+  photoreal: Camera,
+  line_art: PenLine,
+};
 
 const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>({
-    status: 'idle',
-    riddle: null,
-    imageUrl: null,
-    selectedAnswer: null,
-    hintsRevealed: 0,
-    score: 0
-  });
+  const [gameState, dispatch] = useReducer(gameReducer, undefined, () => createInitialGameState(storageService.getScoreTotals().session));
 
   const [customTopic, setCustomTopic] = useState('');
-  const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+  const [difficulty, setDifficulty] = useState<DifficultySetting>('medium');
+  const [skill, setSkill] = useState(() => skillService.getRating());
+  const [isTimed, setIsTimed] = useState(false);
+  const [format, setFormat] = useState<RiddleFormat>('multiple_choice');
+  const [language, setLanguage] = useState<Language>(() => i18n.getLanguage());
+  const [imageStyle, setImageStyle] = useState<ImageStyle>(() => imageStyleService.getStyle());
+  const [categories, setCategories] = useState<NewsCategory[]>(() => categoryService.getCategories());
+  const [isManagingCategories, setIsManagingCategories] = useState(false);
+  const [safetySettings, setSafetySettings] = useState<SafetySettings>(() => moderationService.getSettings());
+  const [reports, setReports] = useState(() => moderationService.getReports());
+  const [isEditingSafety, setIsEditingSafety] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [streak, setStreak] = useState(0);
+  const [allTimeScore, setAllTimeScore] = useState(() => storageService.getScoreTotals().allTime);
+  const roundStartRef = useRef<number | null>(null);
+  // Category of the current trending round, so "Next Riddle" can continue it
+  const trendingCategoryRef = useRef<{ category?: NewsCategory } | null>(null);
+  // Cancels the in-flight generation when the player leaves or starts another round
+  const roundControllerRef = useRef<AbortController | null>(null);
+  // Re-runs the last round request from the error view
+  const retryRoundRef = useRef<(() => void) | null>(null);
+  // Rating the current adaptive riddle was aimed at, so the update measures against it
+  const adaptiveRef = useRef<{ riddle: RiddleData; riddleRating: number } | null>(null);
+  const [dailyPuzzle, setDailyPuzzle] = useState<DailyPuzzle | null>(() => dailyService.getPuzzle(getDateKey()));
+  const [dailyStreak, setDailyStreak] = useState<DailyStreak>(() => dailyService.getStreak());
+
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [packs, setPacks] = useState<RiddlePack[]>([]);
+  const [packProgress, setPackProgress] = useState<Record<string, PackProgress>>(() => packService.getAllProgress());
+  const [activePack, setActivePack] = useState<{ pack: RiddlePack; index: number } | null>(null);
+  const [packDraft, setPackDraft] = useState<{ riddle: RiddleData; imageUrl: string }[] | null>(null);
+  const [isSavingPack, setIsSavingPack] = useState(false);
+  const [historyLimit, setHistoryLimit] = useState<number | null>(() => storageService.getHistoryLimit());
+  const [seenWindowDays, setSeenWindowDays] = useState(() => topicIndexService.getWindowDays());
+  const [activeRun, setActiveRun] = useState<QuestRun | null>(null);
+  const [runLeaderboard, setRunLeaderboard] = useState<RunRecord[]>(() => runService.getLeaderboard());
+  const [roster, setRoster] = useState<Player[]>(() => partyService.getRoster());
+  const [partyMatch, setPartyMatch] = useState<PartyMatch | null>(null);
+  // Whose collection the history screen shows; null is the solo player
+  const [historyOwner, setHistoryOwner] = useState<string | null>(null);
+  const [playerHistory, setPlayerHistory] = useState<HistoryItem[]>([]);
+
+  // Initialize history and streak
+  useEffect(() => {
+    storageService.getHistory().then(setHistory);
+    packService.listPacks().then(setPacks);
+
+    setStreak(storageService.getWinStreak());
+  }, []);
 
-  // Initialize history, streak, and mute state
   useEffect(() => {
     audioService.setMuted(isMuted);
-    setHistory(storageService.getHistory());
-    
-    const savedStreak = localStorage.getItem('newsquest_streak');
-    if (savedStreak) setStreak(parseInt(savedStreak, 10));
   }, [isMuted]);
 
+  // Timed rounds start their countdown as soon as the riddle is on screen
+  useEffect(() => {
+    if (isTimed && gameState.status === 'playing' && gameState.riddle && !gameState.timer) {
+      dispatch({ type: GameActionType.TIMER_STARTED, payload: { difficulty: roundDifficulty(gameState.riddle), now: Date.now() } });
+    }
+  }, [gameState.status, gameState.riddle]);
+
+  // Start the answer clock once the riddle is on screen
+  useEffect(() => {
+    if (gameState.status === 'playing' && roundStartRef.current === null) {
+      roundStartRef.current = Date.now();
+    } else if (gameState.status === 'idle') {
+      roundStartRef.current = null;
+    }
+  }, [gameState.status]);
+
   const toggleMute = () => {
     setIsMuted(!isMuted);
   };
 
+  const resolveDifficulty = (setting: DifficultySetting): Difficulty =>
+    setting === 'adaptive' ? pickAdaptiveTarget(skill.rating).difficulty : setting;
+
+  const roundDifficulty = (riddle: RiddleData | null): Difficulty =>
+    isDifficulty(riddle?.difficulty) ? riddle.difficulty : resolveDifficulty(difficulty);
+
   const updateStreak = (increment: boolean) => {
     const newStreak = increment ? streak + 1 : 0;
     setStreak(newStreak);
-    localStorage.setItem('newsquest_streak', newStreak.toString());
-  };
-
-  const dispatch = (action: GameAction) => {
-    switch (action.type) {
-      case GameActionType.START_SEARCH:
-        setGameState(prev => ({ ...prev, status: 'searching', error: undefined }));
-        break;
-      case GameActionType.START_GEN_RIDDLE:
-        setGameState(prev => ({ ...prev, status: 'generating_riddle', error: undefined }));
-        break;
-      case GameActionType.RIDDLE_READY:
-        setGameState(prev => ({ ...prev, status: 'generating_image', riddle: action.payload }));
-        break;
-      case GameActionType.IMAGE_READY:
-        setGameState(prev => ({ ...prev, status: 'playing', imageUrl: action.payload }));
-        break;
-      case GameActionType.RESET:
-        setGameState(prev => ({ 
-            ...prev, 
-            status: 'idle', 
-            riddle: null, 
-            imageUrl: null, 
-            selectedAnswer: null, 
-            hintsRevealed: 0,
-            error: undefined
-        }));
-        setCustomTopic('');
-        break;
-      case GameActionType.ERROR:
-        setGameState(prev => ({ ...prev, status: 'error', error: action.payload }));
-        break;
-      case GameActionType.OPEN_HISTORY:
-        setGameState(prev => ({ ...prev, status: 'history' }));
-        break;
-      case GameActionType.CLOSE_HISTORY:
-        setGameState(prev => ({ ...prev, status: 'idle' }));
-        break;
+    storageService.setWinStreak(newStreak);
+  };
+
+  const beginRound = (): AbortSignal => {
+    roundControllerRef.current?.abort();
+    const controller = new AbortController();
+    roundControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleRoundError = (error: unknown) => {
+    const genError = toGenerationError(error);
+    // A cancelled round was superseded on purpose; there is nothing to report
+    if (genError.kind === 'aborted') return;
+    console.error("Round generation failed", genError);
+    dispatch({ type: GameActionType.ERROR, payload: { message: genError.message, kind: genError.kind } });
+  };
+
+  const handleReset = () => {
+    roundControllerRef.current?.abort();
+    roundControllerRef.current = null;
+    dispatch({ type: GameActionType.RESET });
+    setCustomTopic('');
+    setActivePack(null);
+    setActiveRun(null);
+    setPartyMatch(null);
+    prefetchQueue.cancel();
+    trendingCategoryRef.current = null;
+  };
+
+  // Fills in the image once it is generated; a failure leaves the round playable as text only
+  const loadRoundImage = async (provider: RiddleProvider, riddle: RiddleData, signal: AbortSignal): Promise<string | null> => {
+    try {
+      const imageUrl = await provider.generateRiddleImage(riddle.image_prompt, { signal, style: riddle.image_style });
+      dispatch({ type: GameActionType.IMAGE_READY, payload: { riddle, imageUrl, style: riddle.image_style } });
+      return imageUrl;
+    } catch (error) {
+      if (signal.aborted) return null;
+      console.warn("Image generation failed, continuing with a text-only round", error);
+      dispatch({ type: GameActionType.IMAGE_FAILED, payload: { riddle } });
+      return null;
+    }
+  };
+
+  const showStoredImage = (riddle: RiddleData, imageUrl: string) => {
+    if (imageUrl) {
+      dispatch({ type: GameActionType.IMAGE_READY, payload: { riddle, imageUrl, style: riddle.image_style } });
+    } else {
+      dispatch({ type: GameActionType.IMAGE_FAILED, payload: { riddle } });
     }
   };
 
-  const handleStartGame = async (useTrending: boolean, category?: string) => {
+  // A seed topic (e.g. a feed story) takes the place of the typed custom topic
+  const handleStartGame = async (useTrending: boolean, category?: NewsCategory, mode: GameMode = 'classic', setting: DifficultySetting = difficulty, seed?: TrendingTopic) => {
+    retryRoundRef.current = () => handleStartGame(useTrending, category, mode, setting, seed);
+    const signal = beginRound();
+    // Adaptive riddles are aimed at the current rating, so they bypass the tier-keyed prefetch queue
+    const target = setting === 'adaptive' ? pickAdaptiveTarget(skill.rating) : null;
+    const riddleDifficulty = setting === 'adaptive' ? target.difficulty : setting;
+    const usePrefetch = useTrending && !target;
     try {
       audioService.startBGM();
-      let topic = customTopic;
+      const provider = getRiddleProvider();
+      let topic = seed?.headline ?? customTopic;
+      let sources: NewsSource[] = seed?.sources ?? [];
+      trendingCategoryRef.current = useTrending ? { category } : null;
 
       if (useTrending) {
-        dispatch({ type: GameActionType.START_SEARCH });
-        topic = await fetchTrendingNews(category);
+        // Serve a riddle prepared in the background when one is waiting
+        const prepared = usePrefetch ? prefetchQueue.take({ category, difficulty: riddleDifficulty, format, language, imageStyle }) : null;
+        if (prepared) {
+          dispatch({ type: GameActionType.START_GEN_RIDDLE, payload: { mode } });
+          dispatch({ type: GameActionType.RIDDLE_READY, payload: prepared.riddle });
+          topicIndexService.record(prepared.riddle);
+          showStoredImage(prepared.riddle, prepared.imageUrl);
+          prefetchQueue.fill(provider, { category, difficulty: riddleDifficulty, format, language, imageStyle });
+          return;
+        }
+
+        dispatch({ type: GameActionType.START_SEARCH, payload: { mode } });
+        ({ headline: topic, sources } = await fetchFreshTopic(provider, category, { signal }));
       } else {
         if (!topic.trim()) return;
       }
 
-      dispatch({ type: GameActionType.START_GEN_RIDDLE });
-      const riddleData = await generateRiddleFromTopic(topic, difficulty);
-      
+      dispatch({ type: GameActionType.START_GEN_RIDDLE, payload: { mode } });
+      // Trending topics were already screened while searching; typed and feed topics are checked here
+      if (!useTrending) moderationService.assertTopicAllowed(topic);
+      const riddleData = await provider.generateRiddleFromTopic(topic, riddleDifficulty, { signal, constraints: target?.constraints, format, language });
+      riddleData.category = category?.name;
+      if (sources.length > 0) riddleData.sources = sources;
+      moderationService.assertRiddleAllowed(riddleData);
+      if (imageStyle !== 'auto') riddleData.image_style = imageStyle;
+      adaptiveRef.current = target ? { riddle: riddleData, riddleRating: target.riddleRating } : null;
+
       dispatch({ type: GameActionType.RIDDLE_READY, payload: riddleData });
+      topicIndexService.record(riddleData);
+      await loadRoundImage(provider, riddleData, signal);
+
+      if (usePrefetch) prefetchQueue.fill(provider, { category, difficulty: riddleDifficulty, format, language, imageStyle });
+    } catch (error) {
+      handleRoundError(error);
+    }
+  };
+
+  const handlePlayFeedItem = (item: FeedItem, feed: NewsFeed) => {
+    handleStartGame(false, undefined, 'classic', difficulty, feedItemToTopic(item, feed));
+  };
+
+  // One shared puzzle per calendar day, generated from the date seed and cached locally
+  const handleStartDaily = async () => {
+    const today = getDateKey();
+    retryRoundRef.current = handleStartDaily;
+    const signal = beginRound();
+    try {
+      audioService.startBGM();
+      dispatch({ type: GameActionType.START_GEN_RIDDLE, payload: { mode: 'daily' } });
+
+      const provider = getRiddleProvider();
+      let puzzle = dailyService.getPuzzle(today);
+      if (!puzzle) {
+        const seed = getDailySeed(today);
+        const riddleData = await provider.generateRiddleFromTopic(seed.topic, seed.difficulty, {
+          signal,
+          language: DAILY_LANGUAGE,
+          seed: seed.samplingSeed,
+        });
+        riddleData.category = DAILY_CATEGORY;
+        if (imageStyle !== 'auto') riddleData.image_style = imageStyle;
+        // Cache the text right away so an answer given before the image arrives is still recorded
+        puzzle = { date: today, riddle: riddleData };
+        dailyService.savePuzzle(puzzle);
+      }
+      // Screened on every open, so a puzzle cached under looser settings is held back too
+      moderationService.assertRiddleAllowed(puzzle.riddle);
+      setDailyPuzzle(puzzle);
+      dispatch({ type: GameActionType.RIDDLE_READY, payload: puzzle.riddle });
+
+      // Already attempted today: show the recorded outcome instead of a fresh try
+      if (puzzle.result?.selectedAnswer === null) {
+        // A timed attempt that ran out of time replays as an expired clock
+        const now = Date.now();
+        dispatch({ type: GameActionType.TIMER_STARTED, payload: { difficulty: roundDifficulty(puzzle.riddle), now } });
+        dispatch({ type: GameActionType.TIME_EXPIRED, payload: { now } });
+      } else if (puzzle.result) {
+        dispatch({ type: GameActionType.ANSWER_SELECTED, payload: puzzle.result.selectedAnswer });
+      }
+
+      const storedImage = await dailyService.getPuzzleImage(today);
+      if (storedImage) {
+        showStoredImage(puzzle.riddle, storedImage);
+      } else {
+        const imageUrl = await loadRoundImage(provider, puzzle.riddle, signal);
+        if (imageUrl) await dailyService.setPuzzleImage(today, imageUrl);
+      }
+    } catch (error) {
+      handleRoundError(error);
+    }
+  };
+
+  // Paints another take on the same prompt; earlier pictures stay available to switch back to.
+  // Not offered in packs: they are meant to play offline, and older entries saved from history have no image prompt.
+  const handleRegenerateImage = async (style: ImageStyle) => {
+    const riddle = gameState.riddle;
+    if (!riddle || gameState.mode === 'pack' || gameState.isRegeneratingImage || gameState.imageRegenerationsLeft <= 0) return;
+    const signal = roundControllerRef.current?.signal;
+    dispatch({ type: GameActionType.IMAGE_REGENERATING, payload: { riddle } });
+    try {
+      const imageUrl = await getRiddleProvider().generateRiddleImage(riddle.image_prompt, { signal, style });
+      dispatch({ type: GameActionType.IMAGE_READY, payload: { riddle, imageUrl, style } });
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.warn("Image regeneration failed, keeping the current picture", error);
+      dispatch({ type: GameActionType.IMAGE_FAILED, payload: { riddle } });
+    }
+  };
+
+  const handleNextTrending = () => {
+    if (!trendingCategoryRef.current) return;
+    handleStartGame(true, trendingCategoryRef.current.category);
+  };
+
+  // A run is a chain of ordinary trending rounds; lives and totals are tracked alongside
+  const handleStartRun = (config: RunConfig) => {
+    setActiveRun(createRun(config));
+    handleStartGame(true, runCategory(config), 'run', config.difficulty);
+  };
+
+  // Runs remember their category by id; one deleted mid-run falls back to any topic
+  const runCategory = (config: RunConfig) => categories.find(c => c.id === config.categoryId);
+
+  const handleNextRunRound = () => {
+    if (!activeRun) return;
+    if (isRunOver(activeRun)) {
+      setRunLeaderboard(runService.saveRun(toRunRecord(activeRun)));
+      prefetchQueue.cancel();
+      dispatch({ type: GameActionType.SHOW_RUN_SUMMARY });
+      return;
+    }
+    handleStartGame(true, runCategory(activeRun.config), 'run', activeRun.config.difficulty);
+  };
+
+  const handleChangeRoster = (players: Player[]) => {
+    setRoster(players);
+    partyService.saveRoster(players);
+  };
+
+  const handleRemovePlayer = async (player: Player) => {
+    handleChangeRoster(roster.filter(p => p.id !== player.id));
+    await storageService.clearHistory(player.id);
+    if (historyOwner === player.id) setHistoryOwner(null);
+  };
+
+  const handleStartParty = (players: Player[], turnStyle: TurnStyle, rounds: number) => {
+    // Ratings are personal to the solo player, so an adaptive party settles on one tier up front
+    const partyDifficulty = resolveDifficulty(difficulty);
+    setPartyMatch(createMatch(players, turnStyle, rounds, partyDifficulty));
+    handleStartGame(true, undefined, 'party', partyDifficulty);
+  };
+
+  // Passes the device on: the same riddle in a race, a fresh one otherwise, and the scoreboard after each round
+  const handlePartyNext = () => {
+    if (!partyMatch) return;
+    const next = advanceTurn(partyMatch);
+    setPartyMatch(next);
+    if (isLastTurnOfRound(partyMatch)) {
+      prefetchQueue.cancel();
+      dispatch({ type: GameActionType.SHOW_PARTY_SCOREBOARD });
+    } else if (partyMatch.turnStyle === 'race') {
+      dispatch({ type: GameActionType.PASS_TURN });
+    } else {
+      handleStartGame(true, undefined, 'party', partyMatch.difficulty);
+    }
+  };
+
+  const handleCloseRunSummary = () => {
+    setActiveRun(null);
+    dispatch({ type: GameActionType.CLOSE_RUN_SUMMARY });
+  };
+
+  // Packs can come from anyone and outlive a stricter profile, so entries are screened as they come up
+  const nextPlayableIndex = (pack: RiddlePack, from: number): number =>
+    pack.entries.findIndex((entry, i) => i >= from && !moderationService.checkRiddle(entry.riddle, safetySettings));
+
+  // Pack rounds replay stored riddles, so no model calls are made
+  const playPackRiddle = (pack: RiddlePack, index: number) => {
+    if (!pack.entries[index]) return;
+    audioService.startBGM();
+    dispatch({ type: GameActionType.START_GEN_RIDDLE, payload: { mode: 'pack' } });
+    const playable = nextPlayableIndex(pack, index);
+    if (playable === -1) {
+      setActivePack(null);
+      handleRoundError(new GenerationError('safety', moderationService.checkRiddle(pack.entries[index].riddle, safetySettings)));
+      return;
+    }
+    const entry = pack.entries[playable];
+    dispatch({ type: GameActionType.RIDDLE_READY, payload: entry.riddle });
+    showStoredImage(entry.riddle, entry.image_url);
+    setActivePack({ pack, index: playable });
+  };
+
+  const handlePlayPack = (pack: RiddlePack) => {
+    const { nextIndex } = packService.getProgress(pack.id);
+    playPackRiddle(pack, nextIndex < pack.entries.length ? nextIndex : 0);
+  };
+
+  const handleRestartPack = (pack: RiddlePack) => {
+    packService.resetProgress(pack.id);
+    setPackProgress(packService.getAllProgress());
+    playPackRiddle(pack, 0);
+  };
+
+  const handleNextPackRiddle = () => {
+    if (!activePack) return;
+    const next = nextPlayableIndex(activePack.pack, activePack.index + 1);
+    if (next !== -1) {
+      playPackRiddle(activePack.pack, next);
+    } else {
+      setActivePack(null);
+      dispatch({ type: GameActionType.OPEN_PACKS });
+    }
+  };
+
+  const handleDeletePack = async (pack: RiddlePack) => {
+    await packService.deletePack(pack.id);
+    setPacks(await packService.listPacks());
+    setPackProgress(packService.getAllProgress());
+  };
+
+  const handleImportPack = async (file: File) => {
+    try {
+      await packService.importPack(await file.text());
+      setPacks(await packService.listPacks());
+    } catch (e: any) {
+      alert(e.message || t('alert.packUnreadable'));
+    }
+  };
+
+  const handleSaveHistoryToPack = (items: HistoryItem[]) => {
+    const draft = items.flatMap(item => {
+      const riddle = historyItemToRiddle(item);
+      return riddle ? [{ riddle, imageUrl: item.image_url }] : [];
+    });
+    if (draft.length > 0) setPackDraft(draft);
+  };
+
+  const handleSavePackDraft = async (target: { packId: string } | { name: string }) => {
+    if (!packDraft) return;
+    setIsSavingPack(true);
+    try {
+      const entries = await Promise.all(packDraft.map(({ riddle, imageUrl }) => toPackEntry(riddle, imageUrl)));
+      if ('packId' in target) {
+        await packService.addToPack(target.packId, entries);
+      } else {
+        await packService.createPack(target.name, entries);
+      }
+      setPacks(await packService.listPacks());
+      setPackDraft(null);
+    } catch (e: any) {
+      alert(e.message || t('alert.packSaveFailed'));
+    } finally {
+      setIsSavingPack(false);
+    }
+  };
+
+  // Pack and daily rounds keep their own progress alongside history; a null answer means the clock ran out
+  const recordModeResult = (selectedAnswer: number | null, isCorrect: boolean) => {
+    if (!gameState.riddle) return;
+    if (gameState.mode === 'pack' && activePack) {
+      packService.recordProgress(activePack.pack.id, activePack.index, isCorrect);
+      setPackProgress(packService.getAllProgress());
+    }
+    if (gameState.mode === 'daily' && dailyPuzzle) {
+      setDailyStreak(dailyService.recordResult(dailyPuzzle.date, selectedAnswer, isCorrect));
+      setDailyPuzzle(dailyService.getPuzzle(dailyPuzzle.date));
+    }
+  };
+
+  const handleSelectAnswer = (index: number) => {
+    dispatch({ type: GameActionType.ANSWER_SELECTED, payload: index });
+    recordModeResult(index, index === gameState.riddle?.answerIndex);
+  };
+
+  const handleSubmitAnswer = (text: string) => {
+    dispatch({ type: GameActionType.ANSWER_SUBMITTED, payload: text });
+    if (gameState.riddle) recordModeResult(null, isAnswerCorrect(gameState.riddle, null, text));
+  };
+
+  const handleTogglePause = () => {
+    if (!gameState.timer) return;
+    const type = gameState.timer.runningSince === null ? GameActionType.TIMER_RESUMED : GameActionType.TIMER_PAUSED;
+    dispatch({ type, payload: { now: Date.now() } });
+  };
+
+  const roundLabel = (): string | undefined => {
+    if (gameState.mode === 'pack' && activePack) {
+      return `${activePack.pack.name} ${activePack.index + 1}/${activePack.pack.entries.length}`;
+    }
+    if (gameState.mode === 'party' && partyMatch) {
+      return t('round.partyTurn', { name: currentPlayer(partyMatch).name, round: partyMatch.round + 1, rounds: partyMatch.rounds });
+    }
+    if (gameState.mode === 'run' && activeRun) {
+      // The current round is only counted in the run once it has been answered
+      const round = activeRun.rounds.length + (gameState.status === 'playing' ? 1 : 0);
+      return t('round.run', { round, length: activeRun.config.length ?? '∞', lives: tn('round.lives', activeRun.lives) });
+    }
+    return undefined;
+  };
+
+  const nextLabel = (): string | undefined => {
+    if (gameState.mode === 'run' && activeRun && isRunOver(activeRun)) return t('next.runSummary');
+    if (gameState.mode === 'party' && partyMatch) {
+      return isLastTurnOfRound(partyMatch) ? t('next.scoreboard') : t('next.passTo', { name: partyMatch.players[partyMatch.turn + 1].name });
+    }
+    return undefined;
+  };
+
+  const handleRevealHint = () => {
+    dispatch({ type: GameActionType.REVEAL_HINT });
+  };
+
+  const handleGameComplete = (isCorrect: boolean, selectedAnswer: number | null, answerText?: string) => {
+    const now = Date.now();
+    const { timer } = gameState;
+    let durationMs = roundStartRef.current ? now - roundStartRef.current : 0;
+    let remainingMs: number | undefined;
+    if (timer) {
+      remainingMs = getRemainingMs(timer, now);
+      // Time on the clock excludes pauses; a round that ends without an answer ran out of time
+      durationMs = Math.max(0, timer.limitMs - timer.penaltyMs - remainingMs);
+      if (selectedAnswer === null && answerText === undefined) {
+        dispatch({ type: GameActionType.TIME_EXPIRED, payload: { now } });
+        recordModeResult(null, false);
+      } else {
+        dispatch({ type: GameActionType.TIMER_STOPPED, payload: { now } });
+      }
+    }
+    // Party turns are scored per player and leave the solo totals and streak alone
+    const playerId = gameState.mode === 'party' && partyMatch ? currentPlayer(partyMatch).id : undefined;
+    const breakdown = calculateScore({
+      isCorrect,
+      difficulty: roundDifficulty(gameState.riddle),
+      format: gameState.riddle ? getFormat(gameState.riddle) : undefined,
+      hintsRevealed: gameState.hintsRevealed,
+      // Hints are already charged through hintPenalty, so their clock cost does not eat the speed bonus too
+      elapsedMs: durationMs,
+      timeLimitMs: timer?.limitMs,
+      streak: playerId ? partyMatch.standings[playerId]?.streak ?? 0 : streak
+    });
+    dispatch({ type: GameActionType.SCORE_AWARDED, payload: breakdown });
+    roundStartRef.current = null;
+
+    if (playerId) {
+      setPartyMatch(recordTurn(partyMatch, {
+        outcome: isCorrect ? 'solved' : 'failed',
+        selectedAnswer,
+        hintsRevealed: gameState.hintsRevealed,
+        score: breakdown.total
+      }));
+    } else {
+      setAllTimeScore(storageService.addScore(breakdown.total).allTime);
+      updateStreak(isCorrect);
+      const adaptive = adaptiveRef.current?.riddle === gameState.riddle ? adaptiveRef.current : null;
+      const riddleRating = adaptive?.riddleRating ?? TIER_RATING[roundDifficulty(gameState.riddle)];
+      setSkill(skillService.recordRound(riddleRating, roundPerformance({ isCorrect, hintsRevealed: gameState.hintsRevealed, durationMs })));
+    }
+    if (gameState.mode === 'run' && activeRun && gameState.riddle) {
+      setActiveRun(recordRunRound(activeRun, {
+        question: gameState.riddle.riddle_question,
+        outcome: isCorrect ? 'solved' : 'failed',
+        score: breakdown.total
+      }));
+    }
+    if (gameState.riddle) {
+      storageService.saveToHistory(withImageStyle(gameState.riddle, shownImageStyle(gameState)), gameState.imageUrl ?? '', {
+        outcome: isCorrect ? 'solved' : 'failed',
+        selectedAnswer,
+        hintsRevealed: gameState.hintsRevealed,
+        durationMs,
+        score: breakdown.total,
+        remainingMs,
+        answerText
+      }, playerId)
+        .then(items => { if (!playerId) setHistory(items); })
+        .catch(e => console.error("Failed to save riddle to history", e));
+    }
+  };
+
+  const handleClearHistory = async () => {
+    const empty = await storageService.clearHistory(historyOwner ?? undefined);
+    if (historyOwner) {
+      setPlayerHistory(empty);
+    } else {
+      // Stories already played may come round again once the collection that recorded them is gone
+      topicIndexService.clear();
+      setHistory(empty);
+    }
+  };
 
-      const imageUrl = await generateRiddleImage(riddleData.image_prompt);
-      dispatch({ type: GameActionType.IMAGE_READY, payload: imageUrl });
+  const handleChangeHistoryOwner = async (playerId: string | null) => {
+    setHistoryOwner(playerId);
+    if (playerId) setPlayerHistory(await storageService.getHistory(playerId));
+  };
+
+  const handleExport = () => {
+    downloadArchive().catch(e => {
+      console.error("Export failed", e);
+      alert(t('alert.exportFailed'));
+    });
+  };
 
-    } catch (error: any) {
-      dispatch({ type: GameActionType.ERROR, payload: error.message || "An unexpected error occurred." });
+  const handleImportFile = async (file: File) => {
+    try {
+      const archive = parseArchive(await file.text());
+      setImportPreview(previewImport(archive, history));
+    } catch (e: any) {
+      alert(e.message || t('alert.archiveUnreadable'));
     }
   };
 
-  const handleGameComplete = (isCorrect: boolean) => {
-    updateStreak(isCorrect);
-    if (isCorrect && gameState.riddle && gameState.imageUrl) {
-      const updatedHistory = storageService.saveToHistory(gameState.riddle, gameState.imageUrl);
-      setHistory(updatedHistory);
+  const handleConfirmImport = async () => {
+    if (!importPreview) return;
+    setIsImporting(true);
+    try {
+      setHistory(await applyImport(importPreview));
+      setStreak(storageService.getWinStreak());
+      setDailyStreak(dailyService.getStreak());
+      setAllTimeScore(storageService.getScoreTotals().allTime);
+      setImportPreview(null);
+    } catch (e) {
+      console.error("Import failed", e);
+      alert(t('alert.importFailed'));
+    } finally {
+      setIsImporting(false);
     }
   };
 
-  const handleClearHistory = () => {
-    const empty = storageService.clearHistory();
-    setHistory(empty);
+  const handleChangeHistoryLimit = async (limit: number | null) => {
+    setHistoryLimit(limit);
+    setHistory(await storageService.setHistoryLimit(limit));
+  };
+
+  const handleChangeCategories = (next: NewsCategory[]) => {
+    setCategories(next);
+    categoryService.saveCategories(next);
+  };
+
+  const handleSaveSafety = (next: SafetySettings) => {
+    setSafetySettings(next);
+    moderationService.saveSettings(next);
+  };
+
+  // Reporting keeps similar stories out of trending searches and drops any already prefetched
+  const handleReportRiddle = () => {
+    if (gameState.riddle) setReports(moderationService.report(gameState.riddle));
+  };
+
+  const handleUnreport = (id: string) => {
+    setReports(moderationService.unreport(id));
+  };
+
+  const handleChangeImageStyle = (next: ImageStyle) => {
+    setImageStyle(next);
+    imageStyleService.setStyle(next);
+  };
+
+  // Switching re-renders the whole tree with the new catalog; riddles already made keep their language
+  const handleChangeLanguage = (next: Language) => {
+    i18n.setLanguage(next);
+    setLanguage(next);
+  };
+
+  const handleChangeSeenWindow = (days: number) => {
+    topicIndexService.setWindowDays(days);
+    setSeenWindowDays(days);
   };
 
   return (
@@ -124,40 +697,100 @@ const App: React.FC = () => {
       
       {/* Navbar / Header */}
       <header className="w-full p-6 flex justify-between items-center max-w-6xl z-10">
-        <div className="flex items-center gap-3 cursor-pointer" onClick={() => dispatch({type: GameActionType.RESET})}>
+        <div className="flex items-center gap-3 cursor-pointer" onClick={handleReset}>
           <div className="w-10 h-10 bg-gradient-to-tr from-cyan-400 to-blue-600 rounded-lg flex items-center justify-center shadow-lg shadow-blue-500/20">
              <Sparkles className="text-white" size={24} />
           </div>
           <div>
             <h1 className="text-xl md:text-2xl font-bold tracking-tight text-white hidden sm:block leading-none">NewsQuest</h1>
-            <span className="text-xs text-blue-300 font-medium hidden sm:block">Daily Riddle</span>
+            <span className="text-xs text-blue-300 font-medium hidden sm:block">{t('app.tagline')}</span>
           </div>
         </div>
         
         <div className="flex gap-2 items-center">
           {/* Streak Counter */}
-          <div className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800/80 rounded-full border border-slate-700 mr-2" title="Current Winning Streak">
+          <div className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800/80 rounded-full border border-slate-700 me-2" title={t('header.streak')}>
             <Flame size={18} className={`${streak > 0 ? 'text-orange-500 fill-orange-500' : 'text-slate-600'}`} />
             <span className={`text-sm font-bold ${streak > 0 ? 'text-orange-200' : 'text-slate-500'}`}>{streak}</span>
           </div>
 
-          {history.length > 0 && gameState.status === 'idle' && (
+          {/* Score Counter */}
+          <div className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800/80 rounded-full border border-slate-700" title={t('header.score', { total: formatNumber(allTimeScore) })}>
+            <Star size={18} className={`${gameState.score > 0 ? 'text-yellow-400 fill-yellow-400' : 'text-slate-600'}`} />
+            <span className={`text-sm font-bold ${gameState.score > 0 ? 'text-yellow-100' : 'text-slate-500'}`}>{gameState.score}</span>
+          </div>
+
+          {gameState.status === 'idle' && (
             <button
               onClick={() => dispatch({ type: GameActionType.OPEN_HISTORY })}
-              className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-full transition-colors mr-1 border border-slate-700"
+              className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-full transition-colors me-1 border border-slate-700"
             >
               <TrophyIcon size={18} className="text-yellow-500" />
-              <span className="text-sm font-semibold hidden md:inline">Collection</span>
+              <span className="text-sm font-semibold hidden md:inline">{t('header.collection')}</span>
+            </button>
+          )}
+
+          {gameState.status === 'idle' && (
+            <button
+              onClick={() => dispatch({ type: GameActionType.OPEN_PARTY })}
+              className="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+              title={t('header.party')}
+            >
+              <Users size={22} />
+            </button>
+          )}
+
+          {gameState.status === 'idle' && (
+            <button
+              onClick={() => dispatch({ type: GameActionType.OPEN_PACKS })}
+              className="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+              title={t('header.packs')}
+            >
+              <Package size={22} />
+            </button>
+          )}
+
+          {history.length > 0 && gameState.status === 'idle' && (
+            <button
+              onClick={() => dispatch({ type: GameActionType.OPEN_STATS })}
+              className="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+              title={t('header.stats')}
+            >
+              <BarChart3 size={22} />
+            </button>
+          )}
+
+          {gameState.status === 'idle' && (
+            <button
+              onClick={() => setIsEditingSafety(true)}
+              className="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+              title={t('header.safety')}
+            >
+              <ShieldCheck size={22} />
             </button>
           )}
 
           <button 
             onClick={toggleMute}
             className="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
-            title={isMuted ? "Unmute sounds" : "Mute sounds"}
+            title={isMuted ? t('header.unmute') : t('header.mute')}
           >
             {isMuted ? <VolumeX size={22} /> : <Volume2 size={22} />}
           </button>
+
+          <label className="relative flex items-center" title={t('header.language')}>
+            <Languages size={18} className="absolute start-2 text-slate-400 pointer-events-none" aria-hidden="true" />
+            <select
+              value={language}
+              onChange={(e) => isLanguage(e.target.value) && handleChangeLanguage(e.target.value)}
+              className="appearance-none bg-slate-800/80 border border-slate-700 text-slate-300 text-sm rounded-full ps-8 pe-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={t('header.language')}
+            >
+              {(Object.keys(LANGUAGES) as Language[]).map(code => (
+                <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>
+              ))}
+            </select>
+          </label>
         </div>
       </header>
 
@@ -169,13 +802,49 @@ const App: React.FC = () => {
           <div className="w-full max-w-2xl space-y-8 animate-in fade-in zoom-in-95 duration-500">
             <div className="text-center space-y-2">
               <h2 className="text-4xl md:text-6xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-blue-200 via-cyan-300 to-blue-200 pb-2">
-                The Daily Riddle
+                {t('home.title')}
               </h2>
               <p className="text-slate-400 text-lg max-w-lg mx-auto leading-relaxed">
-                Turn trending headlines into mind-bending visual puzzles. <br/>Choose a difficulty and start your quest.
+                {t('home.intro')} <br/>{t('home.introCta')}
               </p>
             </div>
 
+            {/* Daily Riddle Card */}
+            <div className="bg-gradient-to-r from-blue-900/40 to-indigo-900/40 backdrop-blur-md p-5 rounded-2xl border border-blue-700/50 shadow-xl flex flex-col sm:flex-row items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <div className="w-12 h-12 bg-blue-500/20 rounded-xl flex items-center justify-center border border-blue-500/30">
+                  <CalendarDays className="text-blue-300" size={24} />
+                </div>
+                <div>
+                  <h3 className="text-lg font-bold text-white leading-tight">{t('daily.day', { number: getDayNumber(getDateKey()) })}</h3>
+                  <p className="text-sm text-blue-200/80 flex items-center gap-1.5" title={t('daily.best', { best: dailyStreak.best })}>
+                    <CalendarDays size={14} /> {tn('daily.streak', dailyStreak.current)}
+                  </p>
+                </div>
+              </div>
+              {dailyPuzzle?.result ? (
+                <button
+                  onClick={handleStartDaily}
+                  className={`flex items-center gap-2 px-5 py-2.5 rounded-xl text-sm font-bold border transition-colors ${
+                    dailyPuzzle.result.isCorrect
+                      ? 'bg-green-500/10 border-green-500/40 text-green-300 hover:bg-green-500/20'
+                      : 'bg-red-500/10 border-red-500/40 text-red-300 hover:bg-red-500/20'
+                  }`}
+                  title={t('daily.comeBack')}
+                >
+                  {dailyPuzzle.result.isCorrect ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+                  {dailyPuzzle.result.isCorrect ? t('daily.solved') : t('daily.missed')}
+                </button>
+              ) : (
+                <button
+                  onClick={handleStartDaily}
+                  className="flex items-center gap-2 px-5 py-2.5 bg-blue-600 hover:bg-blue-500 text-white rounded-xl text-sm font-bold shadow-lg shadow-blue-900/30 transition-colors"
+                >
+                  <Sparkles size={16} /> {t('daily.play')}
+                </button>
+              )}
+            </div>
+
             <div className="bg-slate-800/50 backdrop-blur-md p-6 md:p-8 rounded-3xl border border-slate-700 shadow-2xl space-y-6">
               
               {/* Difficulty Selector */}
@@ -189,7 +858,7 @@ const App: React.FC = () => {
                         : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
                     }`}
                   >
-                    <Zap size={16} /> Easy
+                    <Zap size={16} /> {t('difficulty.easy')}
                   </button>
                   <button
                     onClick={() => setDifficulty('medium')}
@@ -199,7 +868,7 @@ const App: React.FC = () => {
                         : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
                     }`}
                   >
-                    <Brain size={16} /> Medium
+                    <Brain size={16} /> {t('difficulty.medium')}
                   </button>
                   <button
                     onClick={() => setDifficulty('hard')}
@@ -209,42 +878,111 @@ const App: React.FC = () => {
                         : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
                     }`}
                   >
-                    <Hexagon size={16} /> Hard
+                    <Hexagon size={16} /> {t('difficulty.hard')}
+                  </button>
+                  <button
+                    onClick={() => setDifficulty('adaptive')}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+                      difficulty === 'adaptive' 
+                        ? 'bg-amber-500 text-white shadow-lg shadow-amber-500/20' 
+                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                    }`}
+                    title={t('difficulty.adaptiveHint')}
+                  >
+                    <Gauge size={16} /> {t('difficulty.adaptive')}
                   </button>
                 </div>
               </div>
 
-              {/* Option 1: Trending Categories Grid */}
-              <div className="space-y-3 pt-2">
-                 <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider text-center mb-2">Explore Trending Topics</h3>
-                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                    <button 
-                      onClick={() => handleStartGame(true, "World News")}
-                      className="flex flex-col items-center justify-center gap-2 p-4 bg-slate-700/50 hover:bg-blue-600/20 hover:border-blue-500/50 border border-slate-600 rounded-xl transition-all hover:-translate-y-1 group"
-                    >
-                      <Globe className="text-blue-400 group-hover:scale-110 transition-transform" size={24} />
-                      <span className="text-sm font-semibold text-slate-200">World</span>
-                    </button>
-                    <button 
-                      onClick={() => handleStartGame(true, "Technology")}
-                      className="flex flex-col items-center justify-center gap-2 p-4 bg-slate-700/50 hover:bg-purple-600/20 hover:border-purple-500/50 border border-slate-600 rounded-xl transition-all hover:-translate-y-1 group"
+              {difficulty === 'adaptive' && <SkillRatingCard skill={skill} />}
+
+              {/* Timed Challenge Toggle */}
+              <div className="flex justify-center -mt-2">
+                <button
+                  onClick={() => setIsTimed(!isTimed)}
+                  aria-pressed={isTimed}
+                  className={`flex items-center gap-2 px-4 py-1.5 rounded-full text-xs font-bold border transition-all ${
+                    isTimed
+                      ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-200'
+                      : 'bg-slate-900/60 border-slate-700 text-slate-400 hover:text-slate-200'
+                  }`}
+                  title={t('timed.hint', { seconds: TIME_LIMIT_MS[resolveDifficulty(difficulty)] / 1000, cost: HINT_TIME_COST_MS / 1000 })}
+                >
+                  <Timer size={14} /> {isTimed ? t('timed.on') : t('timed.off')}
+                </button>
+              </div>
+
+              {/* Riddle Format */}
+              <div className="flex flex-wrap justify-center gap-1.5" role="group" aria-label={t('format.group')}>
+                {RIDDLE_FORMATS.map(value => {
+                  const Icon = FORMAT_ICONS[value];
+                  return (
+                    <button
+                      key={value}
+                      onClick={() => setFormat(value)}
+                      aria-pressed={format === value}
+                      className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                        format === value
+                          ? 'bg-blue-500/20 border-blue-500/50 text-blue-200'
+                          : 'bg-slate-900/60 border-slate-700 text-slate-400 hover:text-slate-200'
+                      }`}
                     >
-                      <Cpu className="text-purple-400 group-hover:scale-110 transition-transform" size={24} />
-                      <span className="text-sm font-semibold text-slate-200">Tech</span>
+                      <Icon size={12} /> {t(`format.${value}`)}
                     </button>
-                    <button 
-                      onClick={() => handleStartGame(true, "Sports")}
-                      className="flex flex-col items-center justify-center gap-2 p-4 bg-slate-700/50 hover:bg-green-600/20 hover:border-green-500/50 border border-slate-600 rounded-xl transition-all hover:-translate-y-1 group"
+                  );
+                })}
+              </div>
+
+              {/* Image Style */}
+              <div className="flex flex-wrap justify-center gap-1.5" role="group" aria-label={t('style.group')}>
+                {IMAGE_STYLES.map(value => {
+                  const Icon = STYLE_ICONS[value];
+                  return (
+                    <button
+                      key={value}
+                      onClick={() => handleChangeImageStyle(value)}
+                      aria-pressed={imageStyle === value}
+                      className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                        imageStyle === value
+                          ? 'bg-pink-500/20 border-pink-500/50 text-pink-200'
+                          : 'bg-slate-900/60 border-slate-700 text-slate-400 hover:text-slate-200'
+                      }`}
                     >
-                      <TrophyIcon className="text-green-400 group-hover:scale-110 transition-transform" size={24} />
-                      <span className="text-sm font-semibold text-slate-200">Sports</span>
+                      <Icon size={12} /> {t(`style.${value}`)}
                     </button>
-                    <button 
-                      onClick={() => handleStartGame(true, "Entertainment")}
-                      className="flex flex-col items-center justify-center gap-2 p-4 bg-slate-700/50 hover:bg-pink-600/20 hover:border-pink-500/50 border border-slate-600 rounded-xl transition-all hover:-translate-y-1 group"
+                  );
+                })}
+              </div>
+
+              {/* Quest Run */}
+              <RunSetupPanel
+                categories={categories}
+                difficulty={difficulty}
+                bestRun={runLeaderboard[0] ?? null}
+                onStart={handleStartRun}
+              />
+
+              {/* Option 1: Trending Categories Grid */}
+              <div className="space-y-3 pt-2">
+                 <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider text-center mb-2">{t('home.trending')}</h3>
+                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {categories.map(category => (
+                      <button
+                        key={category.id}
+                        onClick={() => handleStartGame(true, category)}
+                        className="flex flex-col items-center justify-center gap-2 p-4 bg-slate-700/50 hover:bg-blue-600/20 hover:border-blue-500/50 border border-slate-600 rounded-xl transition-all hover:-translate-y-1 group"
+                        title={category.keywords.length > 0 ? category.keywords.join(', ') : undefined}
+                      >
+                        <CategoryIcon icon={category.icon} className="text-blue-400 group-hover:scale-110 transition-transform" />
+                        <span className="text-sm font-semibold text-slate-200 text-center truncate max-w-full">{categoryLabel(category.name)}</span>
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setIsManagingCategories(true)}
+                      className="flex flex-col items-center justify-center gap-2 p-4 bg-slate-800/50 hover:bg-slate-700/50 border border-dashed border-slate-600 rounded-xl transition-all text-slate-400 hover:text-slate-200"
                     >
-                      <Film className="text-pink-400 group-hover:scale-110 transition-transform" size={24} />
-                      <span className="text-sm font-semibold text-slate-200">Pop Culture</span>
+                      <SlidersHorizontal size={24} aria-hidden="true" />
+                      <span className="text-sm font-semibold">{t('home.manage')}</span>
                     </button>
                  </div>
               </div>
@@ -255,7 +993,7 @@ const App: React.FC = () => {
                   <span className="w-full border-t border-slate-600/50" />
                 </div>
                 <div className="relative flex justify-center text-xs uppercase">
-                  <span className="bg-slate-800 px-2 text-slate-500 rounded-full">Or Create Your Own</span>
+                  <span className="bg-slate-800 px-2 text-slate-500 rounded-full">{t('home.createOwn')}</span>
                 </div>
               </div>
 
@@ -264,23 +1002,26 @@ const App: React.FC = () => {
                 <div className="relative group">
                   <input
                     type="text"
-                    placeholder="Enter any topic (e.g., Mars, Ramen, Jazz...)"
+                    placeholder={t('home.topicPlaceholder')}
                     value={customTopic}
                     onChange={(e) => setCustomTopic(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleStartGame(false)}
-                    className="w-full bg-slate-900/80 border border-slate-600 group-hover:border-slate-500 rounded-xl px-4 py-4 pl-12 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all text-lg"
+                    className="w-full bg-slate-900/80 border border-slate-600 group-hover:border-slate-500 rounded-xl px-4 py-4 ps-12 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all text-lg"
                   />
-                  <Search className="absolute left-4 top-5 text-slate-500 w-5 h-5 group-hover:text-slate-300 transition-colors" />
+                  <Search className="absolute start-4 top-5 text-slate-500 w-5 h-5 group-hover:text-slate-300 transition-colors" />
                 </div>
                 <button
                   onClick={() => handleStartGame(false)}
                   disabled={!customTopic.trim()}
                   className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 rounded-xl transition-all shadow-lg shadow-blue-900/20 hover:shadow-blue-500/30 flex items-center justify-center gap-2"
                 >
-                  <Sparkles size={20} /> Generate Riddle
+                  <Sparkles size={20} /> {t('home.generate')}
                 </button>
               </div>
 
+              {/* Option 3: News feed */}
+              <FeedPanel onPlayItem={handlePlayFeedItem} />
+
             </div>
 
             {/* Quick Link to History if not empty */}
@@ -290,7 +1031,7 @@ const App: React.FC = () => {
                   onClick={() => dispatch({ type: GameActionType.OPEN_HISTORY })}
                   className="text-slate-500 hover:text-slate-300 text-sm flex items-center gap-2 transition-colors"
                 >
-                  <TrophyIcon size={14} /> View your {history.length} solved mysteries
+                  <TrophyIcon size={14} /> {tn('home.review', history.length)}
                 </button>
               </div>
             )}
@@ -298,48 +1039,188 @@ const App: React.FC = () => {
         )}
 
         {/* State: LOADING */}
-        {(gameState.status === 'searching' || gameState.status === 'generating_riddle' || gameState.status === 'generating_image') && (
+        {(gameState.status === 'searching' || gameState.status === 'generating_riddle') && (
           <LoadingView status={gameState.status} />
         )}
 
         {/* State: PLAYING / SOLVED / FAILED */}
-        {(gameState.status === 'playing' || gameState.status === 'solved' || gameState.status === 'failed') && gameState.riddle && gameState.imageUrl && (
+        {(gameState.status === 'playing' || gameState.status === 'solved' || gameState.status === 'failed') && gameState.riddle && (
           <GameScreen 
             riddle={gameState.riddle} 
-            imageUrl={gameState.imageUrl} 
-            onReset={() => dispatch({ type: GameActionType.RESET })}
+            imageUrl={gameState.imageUrl}
+            imageStatus={gameState.imageStatus}
+            selectedAnswer={gameState.selectedAnswer}
+            answerText={gameState.answerText}
+            hintsRevealed={gameState.hintsRevealed}
+            timer={gameState.timer}
+            scoreBreakdown={gameState.lastScore}
+            onSelectAnswer={handleSelectAnswer}
+            onSubmitAnswer={handleSubmitAnswer}
+            onRevealHint={handleRevealHint}
+            onTogglePause={handleTogglePause}
+            onReset={handleReset}
             onGameComplete={handleGameComplete}
+            onNext={gameState.mode === 'pack' ? handleNextPackRiddle : gameState.mode === 'run' ? handleNextRunRound : gameState.mode === 'party' ? handlePartyNext : gameState.mode === 'classic' && trendingCategoryRef.current ? handleNextTrending : undefined}
+            nextLabel={nextLabel()}
+            concealResult={gameState.mode === 'party' && partyMatch?.turnStyle === 'race' && !isLastTurnOfRound(partyMatch)}
+            onSaveToPack={() => gameState.riddle && setPackDraft([{ riddle: withImageStyle(gameState.riddle, shownImageStyle(gameState)), imageUrl: gameState.imageUrl ?? '' }])}
+            imageVariants={gameState.imageVariants}
+            imageRegenerationsLeft={gameState.imageRegenerationsLeft}
+            isRegeneratingImage={gameState.isRegeneratingImage}
+            defaultImageStyle={imageStyle}
+            onRegenerateImage={gameState.mode === 'pack' ? undefined : handleRegenerateImage}
+            onSelectImageVariant={(index) => dispatch({ type: GameActionType.IMAGE_VARIANT_SELECTED, payload: index })}
+            onReport={handleReportRiddle}
+            isReported={reports.some(report => report.question === gameState.riddle.riddle_question)}
+            roundLabel={roundLabel()}
           />
         )}
 
         {/* State: HISTORY */}
         {gameState.status === 'history' && (
           <HistoryScreen 
-            history={history} 
+            history={historyOwner ? playerHistory : history} 
+            players={roster}
+            owner={historyOwner}
+            onChangeOwner={handleChangeHistoryOwner}
             onBack={() => dispatch({ type: GameActionType.CLOSE_HISTORY })} 
             onClear={handleClearHistory}
+            historyLimit={historyLimit}
+            onChangeLimit={handleChangeHistoryLimit}
+            seenWindowDays={seenWindowDays}
+            onChangeSeenWindow={handleChangeSeenWindow}
+            onExport={handleExport}
+            onImportFile={handleImportFile}
+            onSaveToPack={handleSaveHistoryToPack}
           />
         )}
 
-        {/* State: ERROR */}
-        {gameState.status === 'error' && (
-          <div className="text-center p-8 bg-red-900/20 border border-red-500/50 rounded-2xl max-w-md animate-in zoom-in-95">
-            <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
-            <h3 className="text-xl font-bold text-red-200 mb-2">Oops! Something went wrong.</h3>
-            <p className="text-red-300 mb-6">{gameState.error}</p>
-            <button
-              onClick={() => dispatch({ type: GameActionType.RESET })}
-              className="px-6 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-200 rounded-lg border border-red-500/50 transition-colors"
-            >
-              Try Again
-            </button>
-          </div>
+        {/* State: PACKS */}
+        {gameState.status === 'packs' && (
+          <PacksScreen
+            packs={packs}
+            progress={packProgress}
+            onBack={() => dispatch({ type: GameActionType.CLOSE_PACKS })}
+            onPlay={handlePlayPack}
+            onRestart={handleRestartPack}
+            onExport={packService.exportPack}
+            onDelete={handleDeletePack}
+            onImportFile={handleImportPack}
+          />
+        )}
+
+        {packDraft && (
+          <SaveToPackDialog
+            packs={packs}
+            count={packDraft.length}
+            isSaving={isSavingPack}
+            onSave={handleSavePackDraft}
+            onCancel={() => setPackDraft(null)}
+          />
         )}
 
+        {isManagingCategories && (
+          <CategoryManagerDialog
+            categories={categories}
+            onChange={handleChangeCategories}
+            onClose={() => setIsManagingCategories(false)}
+          />
+        )}
+
+        {isEditingSafety && (
+          <SafetySettingsDialog
+            settings={safetySettings}
+            reports={reports}
+            onSave={handleSaveSafety}
+            onUnreport={handleUnreport}
+            onClose={() => setIsEditingSafety(false)}
+          />
+        )}
+
+        {importPreview && (
+          <ImportPreviewDialog
+            preview={importPreview}
+            isImporting={isImporting}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setImportPreview(null)}
+          />
+        )}
+
+        {/* State: RUN SUMMARY */}
+        {gameState.status === 'run_summary' && activeRun && (
+          <RunSummaryScreen
+            run={activeRun}
+            leaderboard={runLeaderboard}
+            onPlayAgain={() => handleStartRun(activeRun.config)}
+            onBack={handleCloseRunSummary}
+          />
+        )}
+
+        {/* State: PARTY SETUP */}
+        {gameState.status === 'party' && (
+          <PartySetupScreen
+            roster={roster}
+            difficulty={resolveDifficulty(difficulty)}
+            onChangeRoster={handleChangeRoster}
+            onRemovePlayer={handleRemovePlayer}
+            onStart={handleStartParty}
+            onBack={() => dispatch({ type: GameActionType.CLOSE_PARTY })}
+          />
+        )}
+
+        {/* State: PARTY SCOREBOARD */}
+        {gameState.status === 'party_scoreboard' && partyMatch && (
+          <PartyScoreboardScreen
+            match={partyMatch}
+            onNextRound={() => handleStartGame(true, undefined, 'party', partyMatch.difficulty)}
+            onPlayAgain={() => handleStartParty(partyMatch.players, partyMatch.turnStyle, partyMatch.rounds)}
+            onBack={handleReset}
+          />
+        )}
+
+        {/* State: STATS */}
+        {gameState.status === 'stats' && (
+          <StatsScreen
+            history={history}
+            streak={streak}
+            onBack={() => dispatch({ type: GameActionType.CLOSE_STATS })}
+          />
+        )}
+
+        {/* State: ERROR */}
+        {gameState.status === 'error' && (() => {
+          const { title, icon: ErrorIcon } = ERROR_VIEWS[gameState.errorKind ?? 'unknown'];
+          // Safety blocks will fail the same way again, so offer a new topic instead of a retry
+          const canRetry = gameState.errorKind !== 'safety' && retryRoundRef.current !== null;
+          return (
+            <div className="text-center p-8 bg-red-900/20 border border-red-500/50 rounded-2xl max-w-md animate-in zoom-in-95">
+              <ErrorIcon className="w-12 h-12 text-red-400 mx-auto mb-4" />
+              <h3 className="text-xl font-bold text-red-200 mb-2">{t(title)}</h3>
+              <p className="text-red-300 mb-6">{gameState.error}</p>
+              <div className="flex justify-center gap-3">
+                {canRetry && (
+                  <button
+                    onClick={() => retryRoundRef.current?.()}
+                    className="flex items-center gap-2 px-6 py-2 bg-red-500/30 hover:bg-red-500/40 text-red-100 rounded-lg border border-red-500/50 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" /> {t('error.tryAgain')}
+                  </button>
+                )}
+                <button
+                  onClick={handleReset}
+                  className="px-6 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-200 rounded-lg border border-red-500/50 transition-colors"
+                >
+                  {gameState.errorKind === 'safety' ? t('error.pickAnother') : t('common.backToMenu')}
+                </button>
+              </div>
+            </div>
+          );
+        })()}
+
       </main>
 
       <footer className="w-full p-6 text-center text-slate-600 text-sm z-10">
-        <p>Generated by Google Gemini 2.5 • Flash & Flash-Image Models</p>
+        <p>{t('app.footer')}</p>
       </footer>
 
     </div>
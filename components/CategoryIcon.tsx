@@ -0,0 +1,31 @@
+import React from 'react';
+import { CategoryIcon as CategoryIconName } from '../types';
+import { Globe, Cpu, Trophy, Film, Rocket, FlaskConical, Leaf, Music, Landmark, Heart, MapPin, Newspaper } from 'lucide-react';
+
+const ICONS: Record<CategoryIconName, React.ElementType> = {
+  globe: Globe,
+  cpu: Cpu,
+  trophy: Trophy,
+  film: Film,
+  rocket: Rocket,
+  flask: FlaskConical,
+  leaf: Leaf,
+  music: Music,
+  landmark: Landmark,
+  heart: Heart,
+  'map-pin': MapPin,
+  newspaper: Newspaper,
+};
+
+interface CategoryIconProps {
+  icon: CategoryIconName;
+  size?: number;
+  className?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, size = 24, className }) => {
+  const Icon = ICONS[icon] ?? Newspaper;
+  return <Icon size={size} className={className} aria-hidden="true" />;
+};
+
+export default CategoryIcon;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { NewsCategory } from '../types';
+import { CATEGORY_ICONS, MAX_CATEGORIES, MAX_NAME_LENGTH, CategoryDraft, categoryLabel, cleanDraft, createCategory, moveCategory, parseList, validateCategory } from '../services/categoryService';
+import { t } from '../services/i18n';
+import CategoryIcon from './CategoryIcon';
+import { SlidersHorizontal, X, ChevronUp, ChevronDown, Pencil, Trash2, Plus } from 'lucide-react';
+
+interface CategoryManagerDialogProps {
+  categories: NewsCategory[];
+  onChange: (categories: NewsCategory[]) => void;
+  onClose: () => void;
+}
+
+// Editor form state; list fields are edited as comma separated text
+interface FormState {
+  name: string;
+  icon: NewsCategory['icon'];
+  keywords: string;
+  region: string;
+  language: string;
+  exclude: string;
+}
+
+const EMPTY_FORM: FormState = { name: '', icon: 'newspaper', keywords: '', region: '', language: '', exclude: '' };
+
+const toForm = (category: NewsCategory): FormState => ({
+  name: category.name,
+  icon: category.icon,
+  keywords: category.keywords.join(', '),
+  region: category.region ?? '',
+  language: category.language ?? '',
+  exclude: category.exclude.join(', '),
+});
+
+const toDraft = (form: FormState): CategoryDraft => ({
+  name: form.name,
+  icon: form.icon,
+  keywords: parseList(form.keywords),
+  region: form.region,
+  language: form.language,
+  exclude: parseList(form.exclude),
+});
+
+const inputClass = "w-full bg-slate-900/80 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const CategoryManagerDialog: React.FC<CategoryManagerDialogProps> = ({ categories, onChange, onClose }) => {
+  // null: list view; 'new' or a category id: the editor
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const openEditor = (category?: NewsCategory) => {
+    setEditing(category ? category.id : 'new');
+    setForm(category ? toForm(category) : EMPTY_FORM);
+    setError(null);
+  };
+
+  const save = () => {
+    const draft = toDraft(form);
+    const problem = validateCategory(draft, categories.filter(c => c.id !== editing));
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange(editing === 'new'
+      ? [...categories, createCategory(draft)]
+      : categories.map(c => (c.id === editing ? { ...cleanDraft(draft), id: c.id } : c)));
+    setEditing(null);
+  };
+
+  const remove = (category: NewsCategory) => {
+    if (window.confirm(t('categories.confirmDelete', { name: categoryLabel(category.name) }))) {
+      onChange(categories.filter(c => c.id !== category.id));
+    }
+  };
+
+  const field = (key: keyof FormState) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value }),
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200" role="dialog" aria-label={t('categories.manage')}>
+      <div className="bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <SlidersHorizontal size={20} className="text-blue-400" /> {editing === null ? t('categories.title') : editing === 'new' ? t('categories.new') : t('categories.edit')}
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white transition-colors" aria-label={t('common.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        {editing === null ? (
+          <div className="p-5 space-y-2 overflow-y-auto">
+            {categories.length === 0 && (
+              <p className="text-sm text-slate-500">{t('categories.empty')}</p>
+            )}
+            {categories.map((category, idx) => (
+              <div key={category.id} className="flex items-center gap-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700">
+                <CategoryIcon icon={category.icon} size={18} className="text-blue-300 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white font-semibold truncate">{categoryLabel(category.name)}</p>
+                  {(category.keywords.length > 0 || category.region || category.language) && (
+                    <p className="text-xs text-slate-400 truncate">
+                      {[category.keywords.join(', '), category.region, category.language].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <button onClick={() => onChange(moveCategory(categories, category.id, -1))} disabled={idx === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors" aria-label={t('categories.moveUp', { name: categoryLabel(category.name) })}>
+                  <ChevronUp size={16} />
+                </button>
+                <button onClick={() => onChange(moveCategory(categories, category.id, 1))} disabled={idx === categories.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30 transition-colors" aria-label={t('categories.moveDown', { name: categoryLabel(category.name) })}>
+                  <ChevronDown size={16} />
+                </button>
+                <button onClick={() => openEditor(category)} className="p-1 text-slate-400 hover:text-blue-300 transition-colors" aria-label={t('categories.editNamed', { name: categoryLabel(category.name) })}>
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => remove(category)} className="p-1 text-slate-400 hover:text-red-400 transition-colors" aria-label={t('categories.delete', { name: categoryLabel(category.name) })}>
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => openEditor()}
+              disabled={categories.length >= MAX_CATEGORIES}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border border-dashed border-slate-600 text-slate-300 hover:text-white hover:border-slate-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-semibold"
+            >
+              <Plus size={16} /> {t('categories.add')}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="p-5 space-y-3 overflow-y-auto">
+              <input type="text" placeholder={t('categories.namePlaceholder')} maxLength={MAX_NAME_LENGTH} className={inputClass} aria-label={t('categories.name')} {...field('name')} />
+
+              <div className="flex flex-wrap gap-1.5" role="group" aria-label={t('categories.icon')}>
+                {CATEGORY_ICONS.map(icon => (
+                  <button
+                    key={icon}
+                    onClick={() => setForm({ ...form, icon })}
+                    aria-pressed={form.icon === icon}
+                    aria-label={t(`categoryIcon.${icon}`)}
+                    className={`p-2 rounded-lg border transition-colors ${
+                      form.icon === icon ? 'bg-blue-500/20 border-blue-500/50 text-blue-200' : 'bg-slate-900/60 border-slate-700 text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    <CategoryIcon icon={icon} size={16} />
+                  </button>
+                ))}
+              </div>
+
+              <input type="text" placeholder={t('categories.keywordsPlaceholder')} className={inputClass} aria-label={t('categories.keywords')} {...field('keywords')} />
+              <div className="grid grid-cols-2 gap-3">
+                <input type="text" placeholder={t('categories.regionPlaceholder')} className={inputClass} aria-label={t('categories.region')} {...field('region')} />
+                <input type="text" placeholder={t('categories.languagePlaceholder')} className={inputClass} aria-label={t('categories.language')} {...field('language')} />
+              </div>
+              <input type="text" placeholder={t('categories.excludePlaceholder')} className={inputClass} aria-label={t('categories.exclude')} {...field('exclude')} />
+
+              {error && <p className="text-xs text-amber-300">{error}</p>}
+            </div>
+
+            <div className="flex gap-2 p-5 border-t border-slate-700">
+              <button
+                onClick={() => setEditing(null)}
+                className="flex-1 py-2 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors text-sm font-semibold"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={save}
+                className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-colors text-sm font-bold"
+              >
+                {t('common.save')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManagerDialog;
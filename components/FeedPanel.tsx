@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { FeedItem, NewsFeed } from '../types';
+import { feedService, autoPickItem } from '../services/feedService';
+import { formatSourceDate } from '../services/newsSources';
+import { t, tn } from '../services/i18n';
+import { Rss, FileUp, Shuffle, Link2, X } from 'lucide-react';
+
+interface FeedPanelProps {
+  onPlayItem: (item: FeedItem, feed: NewsFeed) => void;
+}
+
+const FeedPanel: React.FC<FeedPanelProps> = ({ onPlayItem }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState(() => feedService.getFeedUrl());
+  const [feed, setFeed] = useState<NewsFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (task: () => Promise<NewsFeed>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setFeed(await task());
+    } catch (e: any) {
+      setError(e.message || t('feed.unreadable'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoadUrl = () => {
+    if (!url.trim()) return;
+    feedService.setFeedUrl(url);
+    load(() => feedService.loadFromUrl(url.trim()));
+  };
+
+  const handleAutoPick = () => {
+    const item = feed && autoPickItem(feed);
+    if (item) onPlayItem(item, feed);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <input
+            type="url"
+            placeholder={t('feed.urlPlaceholder')}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleLoadUrl()}
+            className="w-full bg-slate-900/80 border border-slate-600 rounded-xl px-4 py-2.5 ps-10 text-sm text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={t('feed.url')}
+          />
+          <Link2 className="absolute start-3 top-3 text-slate-500 w-4 h-4" aria-hidden="true" />
+        </div>
+        <button
+          onClick={handleLoadUrl}
+          disabled={!url.trim() || isLoading}
+          className="px-4 py-2.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 text-sm font-semibold rounded-xl transition-colors flex items-center gap-2"
+        >
+          <Rss size={16} /> {isLoading ? t('loading.default') : t('feed.load')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="px-3 py-2.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded-xl transition-colors"
+          title={t('feed.openFile')}
+          aria-label={t('feed.openFile')}
+        >
+          <FileUp size={16} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.rss,.atom,application/rss+xml,application/atom+xml,text/xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) load(() => feedService.loadFromFile(file));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-300" role="alert">{error}</p>}
+
+      {feed && (
+        <div className="bg-slate-900/50 rounded-xl border border-slate-700">
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-700">
+            <p className="text-xs font-bold text-slate-300 truncate" title={feed.source}>
+              {feed.title} <span className="text-slate-500 font-normal">· {tn('feed.stories', feed.items.length)}</span>
+            </p>
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={handleAutoPick}
+                className="flex items-center gap-1 px-2 py-1 text-xs font-semibold text-blue-300 hover:text-blue-200 hover:bg-blue-500/10 rounded-lg transition-colors"
+                title={t('feed.pickHint')}
+              >
+                <Shuffle size={12} /> {t('feed.pick')}
+              </button>
+              <button
+                onClick={() => setFeed(null)}
+                className="p-1 text-slate-500 hover:text-slate-300 rounded-lg transition-colors"
+                aria-label={t('feed.close')}
+              >
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-slate-800">
+            {feed.items.map(item => (
+              <li key={item.id}>
+                <button
+                  onClick={() => onPlayItem(item, feed)}
+                  className="w-full text-start px-3 py-2 hover:bg-slate-800/80 transition-colors"
+                >
+                  <span className="block text-sm font-semibold text-slate-200 line-clamp-2">{item.headline}</span>
+                  {item.summary && <span className="block text-xs text-slate-400 line-clamp-1">{item.summary}</span>}
+                  {item.publishedAt && <span className="block text-[10px] text-slate-500 mt-0.5">{formatSourceDate(item.publishedAt)}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedPanel;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle2, XCircle, Send } from 'lucide-react';
+import { t } from '../services/i18n';
+
+interface FreeTextAnswerProps {
+  answer: string;
+  answerText: string | null;
+  showResult: boolean;
+  isCorrect: boolean;
+  concealResult: boolean;
+  disabled: boolean;
+  onSubmit: (text: string) => void;
+}
+
+const FreeTextAnswer: React.FC<FreeTextAnswerProps> = ({ answer, answerText, showResult, isCorrect, concealResult, disabled, onSubmit }) => {
+  const [draft, setDraft] = useState('');
+
+  // A fresh round or the next player's turn starts with an empty box
+  useEffect(() => {
+    if (!showResult) setDraft('');
+  }, [answer, showResult]);
+
+  const submit = () => {
+    if (disabled || showResult || !draft.trim()) return;
+    onSubmit(draft);
+  };
+
+  if (showResult) {
+    return (
+      <div className="space-y-2">
+        {answerText !== null && (
+          <div
+            className={`p-4 rounded-xl border-2 font-medium text-lg flex items-center justify-between ${
+              concealResult
+                ? 'bg-teal-500/20 border-teal-500 text-teal-100'
+                : isCorrect
+                  ? 'bg-green-500/20 border-green-500 text-green-100 animate-pop'
+                  : 'bg-red-500/20 border-red-500 text-red-100 animate-shake'
+            }`}
+          >
+            <span>{answerText}</span>
+            {!concealResult && (isCorrect
+              ? <CheckCircle2 className="text-green-400" aria-label={t('game.correctAnswer')} />
+              : <XCircle className="text-red-400" aria-label={t('game.incorrectAnswer')} />)}
+          </div>
+        )}
+        {!concealResult && !isCorrect && (
+          <p className="text-sm text-slate-300">
+            {t('answer.was')} <span className="font-bold text-green-300">{answer}</span>
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={disabled}
+        maxLength={60}
+        autoComplete="off"
+        placeholder={t('answer.placeholder')}
+        aria-label={t('answer.label')}
+        className="flex-1 bg-slate-800 border-2 border-slate-700 rounded-xl px-4 py-3 text-lg text-white placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !draft.trim()}
+        className="px-5 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-colors flex items-center gap-2"
+      >
+        <Send size={18} className="rtl:-scale-x-100" aria-hidden="true" /> {t('answer.submit')}
+      </button>
+    </form>
+  );
+};
+
+export default FreeTextAnswer;
@@ -1,32 +1,98 @@
-import React, { useState } from 'react';
-import { RiddleData } from '../types';
-import { Lightbulb, CheckCircle2, XCircle, Info, ArrowRight, Maximize2, X, Share2, Download, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { RiddleData, ScoreBreakdown, ImageStatus, RoundTimer, ImageStyle, ImageVariant } from '../types';
+import { Lightbulb, CheckCircle2, XCircle, Info, ArrowRight, Maximize2, X, Share2, Download, ExternalLink, Package, Palette, ImageOff, Timer, Pause, Play, Flag, RefreshCw } from 'lucide-react';
 import confetti from 'canvas-confetti';
 import { audioService } from '../services/audioService';
+import { getRemainingMs, formatCountdown, HINT_TIME_COST_MS } from '../services/roundTimer';
+import { getFormat, getAnswerText, isAnswerCorrect, choiceLabel } from '../services/riddleFormats';
+import { describeSource } from '../services/newsSources';
+import { IMAGE_STYLES, isImageStyle } from '../services/imageStyles';
+import { t, tn } from '../services/i18n';
+import FreeTextAnswer from './FreeTextAnswer';
+import LetterPuzzle from './LetterPuzzle';
+
+const TICK_MS = 250;
+const LOW_TIME_MS = 10_000;
 
 interface GameScreenProps {
   riddle: RiddleData;
-  imageUrl: string;
+  imageUrl: string | null;
+  imageStatus: ImageStatus;
+  // Pictures painted so far this round; the regenerate control is hidden without onRegenerateImage
+  imageVariants?: ImageVariant[];
+  imageRegenerationsLeft?: number;
+  isRegeneratingImage?: boolean;
+  defaultImageStyle?: ImageStyle;
+  onRegenerateImage?: (style: ImageStyle) => void;
+  onSelectImageVariant?: (index: number) => void;
+  selectedAnswer: number | null;
+  answerText: string | null;
+  hintsRevealed: number;
+  timer: RoundTimer | null;
+  scoreBreakdown: ScoreBreakdown | null;
+  onSelectAnswer: (index: number) => void;
+  onSubmitAnswer: (text: string) => void;
+  onRevealHint: () => void;
+  onTogglePause?: () => void;
   onReset: () => void;
-  onGameComplete: (isCorrect: boolean) => void;
+  onGameComplete: (isCorrect: boolean, selectedAnswer: number | null, answerText?: string) => void;
+  onNext?: () => void;
+  nextLabel?: string;
+  // Hides whether the answer was right, e.g. while other players still have to answer the same riddle
+  concealResult?: boolean;
+  onSaveToPack?: () => void;
+  // Flags the riddle as unsuitable; once reported the button stays pressed
+  onReport?: () => void;
+  isReported?: boolean;
+  roundLabel?: string;
 }
 
-const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGameComplete }) => {
-  const [selected, setSelected] = useState<number | null>(null);
-  const [revealedHints, setRevealedHints] = useState<number>(0);
-  const [showResult, setShowResult] = useState(false);
-  const [isCorrect, setIsCorrect] = useState(false);
+const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, imageStatus, imageVariants = [], imageRegenerationsLeft = 0, isRegeneratingImage = false, defaultImageStyle = 'auto', onRegenerateImage, onSelectImageVariant, selectedAnswer: selected, answerText, hintsRevealed: revealedHints, timer, scoreBreakdown, onSelectAnswer, onSubmitAnswer, onRevealHint, onTogglePause, onReset, onGameComplete, onNext, nextLabel, concealResult = false, onSaveToPack, onReport, isReported = false, roundLabel }) => {
+  // Selection and hints live in the game reducer; the result view is derived from them
+  const format = getFormat(riddle);
+  const showResult = selected !== null || answerText !== null || !!timer?.expired;
+  const isCorrect = isAnswerCorrect(riddle, selected, answerText);
   const [isImageOpen, setIsImageOpen] = useState(false);
   const [shareState, setShareState] = useState<'idle' | 'sharing' | 'success' | 'copied'>('idle');
+  const [regenerateStyle, setRegenerateStyle] = useState<ImageStyle>(defaultImageStyle);
 
-  const handleSelect = (index: number) => {
-    if (showResult) return;
-    setSelected(index);
-    const correct = index === riddle.answerIndex;
-    setIsCorrect(correct);
-    setShowResult(true);
+  // The countdown itself lives in the reducer; this only re-reads it a few times a second
+  const [now, setNow] = useState(() => Date.now());
+  const timeUpRef = useRef(false);
+  const isRunning = !!timer && timer.runningSince !== null && !showResult;
+  const isPaused = !!timer && timer.runningSince === null && !showResult;
+  const remainingMs = timer ? getRemainingMs(timer, now) : null;
+  const canRegenerate = !showResult && !isPaused && !isRegeneratingImage && imageRegenerationsLeft > 0;
+
+  useEffect(() => {
+    setRegenerateStyle(defaultImageStyle);
+  }, [riddle]);
 
-    if (correct) {
+  // Race turns share one riddle, so re-arm on every fresh clock rather than on a new riddle
+  useEffect(() => {
+    if (!timer?.expired) timeUpRef.current = false;
+  }, [timer]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  useEffect(() => {
+    if (isRunning && remainingMs === 0 && !timeUpRef.current) {
+      timeUpRef.current = true;
+      if (!concealResult) audioService.playIncorrect();
+      // Running out of time is an ordinary miss with no answer chosen
+      onGameComplete(false, null);
+    }
+  }, [isRunning, remainingMs]);
+
+  const playFeedback = (correct: boolean) => {
+    if (concealResult) {
+      audioService.playHint();
+    } else if (correct) {
       audioService.playCorrect();
       confetti({
         particleCount: 100,
@@ -36,15 +102,30 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
     } else {
       audioService.playIncorrect();
     }
+  };
+
+  const handleSelect = (index: number) => {
+    if (showResult) return;
+    onSelectAnswer(index);
+    const correct = index === riddle.answerIndex;
+    playFeedback(correct);
     
-    // Notify parent to save history if correct
-    onGameComplete(correct);
+    // Notify parent to score the round and record it in history
+    onGameComplete(correct, index);
+  };
+
+  const handleSubmit = (text: string) => {
+    if (showResult) return;
+    onSubmitAnswer(text);
+    const correct = isAnswerCorrect(riddle, null, text);
+    playFeedback(correct);
+    onGameComplete(correct, null, text.trim());
   };
 
   const revealHint = () => {
     if (revealedHints < riddle.hints.length) {
       audioService.playHint();
-      setRevealedHints(prev => prev + 1);
+      onRevealHint();
     }
   };
 
@@ -52,12 +133,16 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
     if (shareState === 'sharing') return;
     setShareState('sharing');
 
-    const shareText = `🕵️ NewsQuest Challenge!\n\nTopic: ${riddle.news_topic}\n\nRiddle: ${riddle.riddle_question}\n\nCan you solve it? #NewsQuest #DailyRiddle`;
-    const shareTitle = "NewsQuest Daily Riddle";
+    const shareText = t('share.text', { topic: riddle.news_topic ?? '', question: riddle.riddle_question });
+    const shareTitle = t('share.title');
 
     try {
       // Check if Web Share API is supported
-      if (navigator.share) {
+      if (navigator.share && !imageUrl) {
+        // Text-only round: nothing to attach
+        await navigator.share({ title: shareTitle, text: shareText, url: window.location.href });
+        setShareState('success');
+      } else if (navigator.share && imageUrl) {
         // Fetch image and convert to blob
         const response = await fetch(imageUrl);
         const blob = await response.blob();
@@ -94,12 +179,14 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
           await navigator.clipboard.writeText(shareText);
           
           // Trigger image download so user has the file
-          const link = document.createElement('a');
-          link.href = imageUrl;
-          link.download = `newsquest-${Date.now()}.png`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
+          if (imageUrl) {
+            const link = document.createElement('a');
+            link.href = imageUrl;
+            link.download = `newsquest-${Date.now()}.png`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+          }
 
           setShareState('copied');
         } catch (clipboardError) {
@@ -123,45 +210,155 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
       {/* Header */}
       <div className="mb-6 flex justify-between items-center bg-slate-800/50 p-4 rounded-xl backdrop-blur-sm border border-slate-700">
         <div>
-           <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Current Topic</h2>
-           <p className="text-lg font-semibold text-white truncate max-w-[200px] md:max-w-md">{riddle.news_topic || "Mystery Topic"}</p>
+           <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{roundLabel ? t('game.roundTopic', { round: roundLabel }) : t('game.currentTopic')}</h2>
+           <p className="text-lg font-semibold text-white truncate max-w-[200px] md:max-w-md">{riddle.news_topic || t('game.mysteryTopic')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {timer && remainingMs !== null && (
+            <div
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border font-mono font-bold text-sm ${
+                remainingMs <= LOW_TIME_MS && !showResult
+                  ? 'bg-red-500/20 border-red-500/50 text-red-200 animate-pulse'
+                  : 'bg-cyan-500/10 border-cyan-500/40 text-cyan-200'
+              }`}
+              role="timer"
+              aria-label={tn('game.secondsLeft', Math.ceil(remainingMs / 1000))}
+            >
+              <Timer size={14} aria-hidden="true" /> {formatCountdown(remainingMs)}
+            </div>
+          )}
+          {/* Pausing is only offered while the picture is still being painted */}
+          {onTogglePause && (isPaused || (isRunning && imageStatus === 'pending')) && (
+            <button
+              onClick={onTogglePause}
+              className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-full transition-colors border border-slate-600"
+              aria-label={isPaused ? t('game.resumeTimer') : t('game.pauseTimer')}
+              title={isPaused ? t('game.resume') : t('game.pauseHint')}
+            >
+              {isPaused ? <Play size={14} aria-hidden="true" /> : <Pause size={14} aria-hidden="true" />}
+            </button>
+          )}
+          <button 
+            onClick={onReset}
+            className="text-xs bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded-full transition-colors border border-slate-600"
+          >
+            {t('game.newGame')}
+          </button>
         </div>
-        <button 
-          onClick={onReset}
-          className="text-xs bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded-full transition-colors border border-slate-600"
-        >
-          New Game
-        </button>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="relative grid grid-cols-1 lg:grid-cols-2 gap-8">
+
+        {/* Paused Overlay: hides the riddle so the pause can't be used to think */}
+        {isPaused && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-4 rounded-2xl bg-slate-900/95 backdrop-blur-xl border border-slate-700 animate-in fade-in duration-200">
+            <Pause size={40} className="text-cyan-300" aria-hidden="true" />
+            <p className="text-lg font-bold text-white">{t('game.paused')}</p>
+            <button
+              onClick={onTogglePause}
+              className="flex items-center gap-2 px-6 py-2 bg-white text-slate-900 rounded-lg font-bold hover:bg-slate-200 transition-colors"
+            >
+              <Play size={16} aria-hidden="true" /> {t('game.resume')}
+            </button>
+          </div>
+        )}
         
         {/* Left Column: Image */}
         <div className="space-y-4">
           <div className="relative group rounded-2xl overflow-hidden shadow-2xl border-4 border-slate-800 aspect-square lg:aspect-[4/3] bg-slate-900">
-            <img 
-              src={imageUrl} 
-              alt={`Visual riddle clue: ${riddle.image_prompt}`}
-              className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105 cursor-pointer"
-              onClick={() => setIsImageOpen(true)}
-            />
-            <div className="absolute inset-0 bg-gradient-to-t from-slate-900/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
-            <button 
-              onClick={() => setIsImageOpen(true)}
-              className="absolute bottom-3 right-3 p-2 bg-black/50 hover:bg-black/70 rounded-full text-white opacity-0 group-hover:opacity-100 transition-all backdrop-blur-sm"
-              aria-label="Maximize image"
-            >
-              <Maximize2 size={20} />
-            </button>
+            {imageUrl ? (
+              <>
+                <img 
+                  src={imageUrl} 
+                  alt={t('game.imageAlt', { prompt: riddle.image_prompt })}
+                  className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105 cursor-pointer animate-in fade-in duration-700"
+                  onClick={() => setIsImageOpen(true)}
+                />
+                <div className="absolute inset-0 bg-gradient-to-t from-slate-900/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+                {isRegeneratingImage && (
+                  <div className="absolute top-3 start-3 flex items-center gap-1.5 px-3 py-1.5 bg-black/60 rounded-full text-xs font-semibold text-pink-200 backdrop-blur-sm" role="status">
+                    <RefreshCw size={14} className="animate-spin" aria-hidden="true" /> {t('loading.image')}
+                  </div>
+                )}
+                <button 
+                  onClick={() => setIsImageOpen(true)}
+                  className="absolute bottom-3 end-3 p-2 bg-black/50 hover:bg-black/70 rounded-full text-white opacity-0 group-hover:opacity-100 transition-all backdrop-blur-sm"
+                  aria-label={t('game.maximizeImage')}
+                >
+                  <Maximize2 size={20} />
+                </button>
+              </>
+            ) : imageStatus === 'failed' ? (
+              <div className="w-full h-full flex flex-col items-center justify-center text-slate-500 gap-2 p-6 text-center">
+                <ImageOff size={40} aria-hidden="true" />
+                <p className="text-sm">{t('game.imageFailed')}</p>
+              </div>
+            ) : (
+              <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 gap-3 animate-pulse" role="status">
+                <Palette size={40} className="text-pink-400 animate-spin-slow" aria-hidden="true" />
+                <p className="text-sm font-semibold">{t('loading.image')}</p>
+              </div>
+            )}
           </div>
           
+          {/* Image variants: repaint within the round's budget and flip between the takes to compare */}
+          {onRegenerateImage && imageStatus !== 'pending' && (
+            <div className="flex flex-wrap items-center gap-2">
+              {imageVariants.length > 1 && (
+                <div className="flex gap-2" role="group" aria-label={t('game.imageVariants')}>
+                  {imageVariants.map((variant, idx) => {
+                    const label = t('game.showVariant', { number: idx + 1, style: t(`style.${variant.style}`) });
+                    return (
+                      <button
+                        key={idx}
+                        onClick={() => onSelectImageVariant?.(idx)}
+                        disabled={showResult || isPaused}
+                        aria-pressed={variant.url === imageUrl}
+                        className={`w-12 h-12 rounded-lg overflow-hidden border-2 transition-colors disabled:cursor-not-allowed ${
+                          variant.url === imageUrl ? 'border-pink-400' : 'border-slate-700 hover:border-slate-500'
+                        }`}
+                        title={label}
+                        aria-label={label}
+                      >
+                        <img src={variant.url} alt="" className="w-full h-full object-cover" />
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="flex items-center gap-2 ms-auto">
+                <select
+                  value={regenerateStyle}
+                  onChange={(e) => isImageStyle(e.target.value) && setRegenerateStyle(e.target.value)}
+                  disabled={!canRegenerate}
+                  aria-label={t('game.regenerateStyle')}
+                  className="bg-slate-800 border border-slate-700 text-slate-300 text-xs rounded-lg px-2 py-1.5 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-pink-500"
+                >
+                  {IMAGE_STYLES.map(style => (
+                    <option key={style} value={style}>{t(`style.${style}`)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onRegenerateImage(regenerateStyle)}
+                  disabled={!canRegenerate}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed border border-slate-700 rounded-lg text-xs font-semibold text-pink-200 transition-colors"
+                  title={tn('game.regenerationsLeft', imageRegenerationsLeft)}
+                >
+                  <RefreshCw size={14} className={isRegeneratingImage ? 'animate-spin' : ''} aria-hidden="true" />
+                  {t('game.regenerateImage')}
+                  <span className="text-slate-400">{tn('game.regenerationsLeft', imageRegenerationsLeft)}</span>
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Hints Section */}
           <div className="flex gap-2 justify-center">
             {riddle.hints.map((hint, idx) => (
               <button
                 key={idx}
                 onClick={revealHint}
-                disabled={revealedHints > idx || showResult}
+                disabled={revealedHints > idx || showResult || isPaused}
                 className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all ${
                   revealedHints > idx
                     ? 'bg-amber-500/10 text-amber-300 border border-amber-500/30'
@@ -169,7 +366,8 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
                       ? 'bg-slate-800 text-slate-500 cursor-not-allowed opacity-50'
                       : 'bg-slate-700 hover:bg-slate-600 text-slate-200 border border-slate-600'
                 }`}
-                aria-label={revealedHints > idx ? `Hint ${idx + 1}: ${hint}` : `Reveal Hint ${idx + 1}`}
+                aria-label={revealedHints > idx ? t('game.hint', { number: idx + 1, hint }) : t('game.revealHint', { number: idx + 1 })}
+                title={timer && revealedHints <= idx ? t('game.hintCost', { seconds: HINT_TIME_COST_MS / 1000 }) : undefined}
               >
                 {revealedHints > idx ? (
                   <span className="flex items-center justify-center gap-2 animate-fade-in-up">
@@ -177,7 +375,7 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
                   </span>
                 ) : (
                   <span className="flex items-center justify-center gap-2">
-                    <Lightbulb size={14} aria-hidden="true" /> Reveal Hint {idx + 1}
+                    <Lightbulb size={14} aria-hidden="true" /> {t('game.revealHint', { number: idx + 1 })}
                   </span>
                 )}
               </button>
@@ -189,50 +387,90 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
         <div className="flex flex-col justify-center space-y-6">
           
           <div className="bg-slate-800/80 p-6 rounded-2xl border border-slate-700 shadow-xl relative overflow-hidden">
-            <div className="absolute top-0 right-0 w-20 h-20 bg-blue-500/10 rounded-full -translate-y-1/2 translate-x-1/2 blur-2xl"></div>
+            <div className="absolute top-0 end-0 w-20 h-20 bg-blue-500/10 rounded-full -translate-y-1/2 translate-x-1/2 rtl:-translate-x-1/2 blur-2xl"></div>
             <h3 className="text-2xl font-bold text-white mb-2 leading-tight relative z-10">{riddle.riddle_question}</h3>
-            <p className="text-slate-400 text-sm relative z-10">Select the correct answer based on the image and news context.</p>
+            <p className="text-slate-400 text-sm relative z-10">{t(`prompt.${format}`)}</p>
           </div>
 
-          <div className="grid grid-cols-1 gap-3">
-            {riddle.choices.map((choice, idx) => {
-              let btnClass = "p-4 rounded-xl text-left border-2 transition-all duration-300 transform font-medium text-lg relative overflow-hidden ";
-              
-              if (showResult) {
-                if (idx === riddle.answerIndex) {
-                  btnClass += "bg-green-500/20 border-green-500 text-green-100 shadow-[0_0_15px_rgba(34,197,94,0.3)] animate-pop";
-                } else if (idx === selected) {
-                  btnClass += "bg-red-500/20 border-red-500 text-red-100 animate-shake";
+          {format === 'free_text' ? (
+            <FreeTextAnswer
+              answer={getAnswerText(riddle)}
+              answerText={answerText}
+              showResult={showResult}
+              isCorrect={isCorrect}
+              concealResult={concealResult}
+              disabled={isPaused}
+              onSubmit={handleSubmit}
+            />
+          ) : format === 'anagram' ? (
+            <LetterPuzzle
+              answer={getAnswerText(riddle)}
+              answerText={answerText}
+              showResult={showResult}
+              isCorrect={isCorrect}
+              concealResult={concealResult}
+              disabled={isPaused}
+              onSubmit={handleSubmit}
+            />
+          ) : (
+            <div className={`grid gap-3 ${format === 'true_false' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {riddle.choices.map((choice, idx) => {
+                let btnClass = "p-4 rounded-xl text-start border-2 transition-all duration-300 transform font-medium text-lg relative overflow-hidden ";
+                
+                if (showResult && concealResult) {
+                  btnClass += idx === selected
+                    ? "bg-teal-500/20 border-teal-500 text-teal-100"
+                    : "bg-slate-800 border-slate-700 text-slate-500 opacity-50";
+                } else if (showResult) {
+                  if (idx === riddle.answerIndex) {
+                    btnClass += "bg-green-500/20 border-green-500 text-green-100 shadow-[0_0_15px_rgba(34,197,94,0.3)] animate-pop";
+                  } else if (idx === selected) {
+                    btnClass += "bg-red-500/20 border-red-500 text-red-100 animate-shake";
+                  } else {
+                    btnClass += "bg-slate-800 border-slate-700 text-slate-500 opacity-50";
+                  }
                 } else {
-                  btnClass += "bg-slate-800 border-slate-700 text-slate-500 opacity-50";
+                  btnClass += "bg-slate-800 border-slate-700 text-slate-200 hover:bg-slate-700 hover:border-slate-500 hover:scale-[1.02] active:scale-[0.98]";
                 }
-              } else {
-                btnClass += "bg-slate-800 border-slate-700 text-slate-200 hover:bg-slate-700 hover:border-slate-500 hover:scale-[1.02] active:scale-[0.98]";
-              }
 
-              return (
-                <button
-                  key={idx}
-                  onClick={() => handleSelect(idx)}
-                  disabled={showResult}
-                  className={btnClass}
-                  aria-pressed={selected === idx}
-                >
-                  <span className="mr-3 opacity-50">{String.fromCharCode(65 + idx)}.</span>
-                  {choice}
-                  {showResult && idx === riddle.answerIndex && (
-                     <CheckCircle2 className="absolute right-4 top-1/2 -translate-y-1/2 text-green-400 animate-in zoom-in spin-in-12 duration-500" aria-label="Correct answer" />
-                  )}
-                  {showResult && idx === selected && idx !== riddle.answerIndex && (
-                     <XCircle className="absolute right-4 top-1/2 -translate-y-1/2 text-red-400 animate-in zoom-in duration-300" aria-label="Incorrect answer" />
-                  )}
-                </button>
-              );
-            })}
-          </div>
+                return (
+                  <button
+                    key={idx}
+                    onClick={() => handleSelect(idx)}
+                    disabled={showResult}
+                    className={btnClass}
+                    aria-pressed={selected === idx}
+                  >
+                    {format !== 'true_false' && <span className="me-3 opacity-50">{String.fromCharCode(65 + idx)}.</span>}
+                    {choiceLabel(format, choice)}
+                    {showResult && !concealResult && idx === riddle.answerIndex && (
+                       <CheckCircle2 className="absolute end-4 top-1/2 -translate-y-1/2 text-green-400 animate-in zoom-in spin-in-12 duration-500" aria-label={t('game.correctAnswer')} />
+                    )}
+                    {showResult && !concealResult && idx === selected && idx !== riddle.answerIndex && (
+                       <XCircle className="absolute end-4 top-1/2 -translate-y-1/2 text-red-400 animate-in zoom-in duration-300" aria-label={t('game.incorrectAnswer')} />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Locked-in Panel: the answer stays secret until everyone has played */}
+          {showResult && concealResult && (
+            <div className="p-5 rounded-xl border bg-teal-900/20 border-teal-500/30 animate-in slide-in-from-bottom-2 duration-500" role="status">
+              <h4 className="text-lg font-bold mb-1 text-teal-200">{timer?.expired ? t('game.outOfTime') : t('game.lockedIn')}</h4>
+              <p className="text-slate-300 text-sm mb-4">{t('game.noPeeking')}</p>
+              <button
+                onClick={onNext ?? onReset}
+                className="w-full py-2 bg-white text-slate-900 rounded-lg font-bold hover:bg-slate-200 transition-colors flex items-center justify-center gap-2 text-sm"
+              >
+                {nextLabel ?? t('game.nextRiddle')} <ArrowRight size={16} className="rtl:rotate-180" aria-hidden="true" />
+              </button>
+            </div>
+          )}
 
           {/* Result & Fun Fact Panel */}
-          {showResult && (
+          {showResult && !concealResult && (
             <div className={`p-5 rounded-xl border animate-in slide-in-from-bottom-2 duration-500 ${isCorrect ? 'bg-green-900/20 border-green-500/30' : 'bg-red-900/20 border-red-500/30'}`} role="status">
               <div className="flex items-start gap-4">
                 <div className={`p-2 rounded-full ${isCorrect ? 'bg-green-500/20' : 'bg-red-500/20'}`}>
@@ -240,29 +478,106 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
                 </div>
                 <div className="flex-1">
                   <h4 className={`text-lg font-bold mb-1 ${isCorrect ? 'text-green-300' : 'text-red-300'}`}>
-                    {isCorrect ? "Correct!" : "Nice try!"}
+                    {isCorrect ? t('game.correct') : timer?.expired ? t('game.outOfTime') : t('game.niceTry')}
                   </h4>
+                  {timer && remainingMs !== null && !timer.expired && (
+                    <p className="flex items-center gap-1 text-xs text-cyan-300 mb-2">
+                      <Timer size={12} aria-hidden="true" /> {t('game.timeLeft', { time: formatCountdown(remainingMs) })}
+                    </p>
+                  )}
                   <p className="text-slate-300 text-sm leading-relaxed mb-4">
-                    <span className="font-bold text-slate-200 uppercase text-xs tracking-wider block mb-1">Fun Fact</span>
+                    <span className="font-bold text-slate-200 uppercase text-xs tracking-wider block mb-1">{t('game.funFact')}</span>
                     {riddle.fun_fact}
                   </p>
+
+                  {riddle.sources && riddle.sources.length > 0 && (
+                    <div className="mb-4">
+                      <span className="font-bold text-slate-200 uppercase text-xs tracking-wider block mb-1">{t('game.readStory')}</span>
+                      <ul className="space-y-1">
+                        {riddle.sources.map(source => (
+                          <li key={source.url}>
+                            <a
+                              href={source.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-baseline gap-1.5 text-sm text-blue-300 hover:text-blue-200 hover:underline"
+                            >
+                              <ExternalLink size={12} className="shrink-0 self-center" aria-hidden="true" />
+                              <span className="truncate">{source.title}</span>
+                              <span className="text-xs text-slate-500 shrink-0">{describeSource(source)}</span>
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {scoreBreakdown && (
+                    <div className="mb-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700 text-xs text-slate-400 space-y-1">
+                      <div className="flex justify-between"><span>{t('score.base')}</span><span className="text-slate-200">{scoreBreakdown.base}</span></div>
+                      {scoreBreakdown.hintPenalty > 0 && (
+                        <div className="flex justify-between"><span>{t('score.hints')}</span><span className="text-amber-300">-{scoreBreakdown.hintPenalty}</span></div>
+                      )}
+                      {scoreBreakdown.timeBonus > 0 && (
+                        <div className="flex justify-between"><span>{t('score.speed')}</span><span className="text-cyan-300">+{scoreBreakdown.timeBonus}</span></div>
+                      )}
+                      {scoreBreakdown.multiplier > 1 && (
+                        <div className="flex justify-between"><span>{t('score.streak')}</span><span className="text-orange-300">x{scoreBreakdown.multiplier.toFixed(1)}</span></div>
+                      )}
+                      <div className="flex justify-between pt-1 border-t border-slate-700 font-bold text-sm">
+                        <span className="text-slate-200">{t('score.total')}</span>
+                        <span className="text-yellow-300">{scoreBreakdown.total}</span>
+                      </div>
+                    </div>
+                  )}
                   
                   <div className="flex gap-2">
                      <button 
-                      onClick={onReset}
+                      onClick={onNext ?? onReset}
                       className="flex-1 py-2 bg-white text-slate-900 rounded-lg font-bold hover:bg-slate-200 transition-colors flex items-center justify-center gap-2 text-sm"
                     >
-                      Next Riddle <ArrowRight size={16} aria-hidden="true" />
+                      {nextLabel ?? t('game.nextRiddle')} <ArrowRight size={16} className="rtl:rotate-180" aria-hidden="true" />
                     </button>
                     
-                    <button
-                      onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(riddle.news_topic || "")} news`, '_blank')}
-                      className="px-3 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 border text-sm bg-slate-800 text-blue-300 hover:bg-slate-700 border-slate-600 hover:text-blue-200"
-                      title="Read related news"
-                      aria-label="Read related news"
-                    >
-                       <ExternalLink size={18} aria-hidden="true" />
-                    </button>
+                    {/* Without a known source, fall back to searching for the topic */}
+                    {!riddle.sources?.length && (
+                      <button
+                        onClick={() => window.open(`https://www.google.com/search?q=${encodeURIComponent(riddle.news_topic || "")} news`, '_blank')}
+                        className="px-3 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 border text-sm bg-slate-800 text-blue-300 hover:bg-slate-700 border-slate-600 hover:text-blue-200"
+                        title={t('game.relatedNews')}
+                        aria-label={t('game.relatedNews')}
+                      >
+                         <ExternalLink size={18} aria-hidden="true" />
+                      </button>
+                    )}
+
+                    {onSaveToPack && (
+                      <button
+                        onClick={onSaveToPack}
+                        className="px-3 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 border text-sm bg-slate-800 text-emerald-300 hover:bg-slate-700 border-slate-600 hover:text-emerald-200"
+                        title={t('game.saveToPack')}
+                        aria-label={t('game.saveToPack')}
+                      >
+                        <Package size={18} aria-hidden="true" />
+                      </button>
+                    )}
+
+                    {onReport && (
+                      <button
+                        onClick={onReport}
+                        disabled={isReported}
+                        aria-pressed={isReported}
+                        className={`px-3 py-2 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 border text-sm ${
+                          isReported
+                            ? 'bg-red-600/20 border-red-500/50 text-red-300 cursor-default'
+                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700 border-slate-600 hover:text-red-300'
+                        }`}
+                        title={isReported ? t('game.reported') : t('game.report')}
+                        aria-label={isReported ? t('game.reported') : t('game.report')}
+                      >
+                        <Flag size={18} className={isReported ? 'fill-red-300' : ''} aria-hidden="true" />
+                      </button>
+                    )}
 
                     {isCorrect && (
                        <button 
@@ -273,16 +588,16 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
                            ? 'bg-green-600/20 border-green-500/50 text-green-300' 
                            : 'bg-slate-800 text-slate-200 hover:bg-slate-700 border-slate-600'
                          }`}
-                       title={shareState === 'copied' ? "Text Copied, Image Downloading" : "Share Riddle"}
+                       title={shareState === 'copied' ? t('share.copiedHint') : t('share.button')}
                      >
                        {shareState === 'sharing' ? (
                          <div className="w-4 h-4 border-2 border-slate-400 border-t-white rounded-full animate-spin" />
                        ) : shareState === 'copied' ? (
-                         <><CheckCircle2 size={16} className="text-green-400" aria-hidden="true"/> Copied!</>
+                         <><CheckCircle2 size={16} className="text-green-400" aria-hidden="true"/> {t('share.copied')}</>
                        ) : shareState === 'success' ? (
-                         <><CheckCircle2 size={16} className="text-green-400" aria-hidden="true"/> Shared!</>
+                         <><CheckCircle2 size={16} className="text-green-400" aria-hidden="true"/> {t('share.shared')}</>
                        ) : (
-                         <><Share2 size={16} aria-hidden="true" /> Share</>
+                         <><Share2 size={16} aria-hidden="true" /> {t('common.share')}</>
                        )}
                      </button>
                     )}
@@ -296,14 +611,14 @@ const GameScreen: React.FC<GameScreenProps> = ({ riddle, imageUrl, onReset, onGa
       </div>
 
       {/* Image Modal */}
-      {isImageOpen && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200" onClick={() => setIsImageOpen(false)} role="dialog" aria-label="Image view">
-          <button className="absolute top-4 right-4 p-2 text-white/70 hover:text-white transition-colors" aria-label="Close image">
+      {isImageOpen && imageUrl && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200" onClick={() => setIsImageOpen(false)} role="dialog" aria-label={t('game.imageView')}>
+          <button className="absolute top-4 end-4 p-2 text-white/70 hover:text-white transition-colors" aria-label={t('game.closeImage')}>
             <X size={32} />
           </button>
           <img 
             src={imageUrl} 
-            alt={`Enlarged visual riddle clue: ${riddle.image_prompt}`}
+            alt={t('game.imageAltLarge', { prompt: riddle.image_prompt })}
             className="max-w-full max-h-[90vh] object-contain rounded-lg shadow-2xl animate-in zoom-in-95 duration-300"
             onClick={(e) => e.stopPropagation()} // Prevent closing when clicking image
           />
@@ -1,15 +1,74 @@
-import React, { useState, useEffect } from 'react';
-import { HistoryItem } from '../types';
-import { ArrowLeft, Trash2, Calendar, Newspaper, Trophy, MoreVertical, Share2, Copy, Search, ExternalLink } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { HistoryItem, Player } from '../types';
+import { ArrowLeft, Trash2, Calendar, Newspaper, Trophy, MoreVertical, Share2, Copy, Search, ExternalLink, CheckCircle2, XCircle, Lightbulb, Timer, Download, Upload, Package, CheckSquare, Square, ImageOff, Hourglass } from 'lucide-react';
+import { isTypedFormat, choiceLabel } from '../services/riddleFormats';
+import { describeSource } from '../services/newsSources';
+import { isDifficulty } from '../services/scoring';
+import { isImageStyle } from '../services/imageStyles';
+import { t, tn, formatDate } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+import { SEEN_WINDOW_OPTIONS } from '../services/topicIndex';
 
 interface HistoryScreenProps {
   history: HistoryItem[];
   onBack: () => void;
   onClear: () => void;
+  historyLimit: number | null;
+  onChangeLimit: (limit: number | null) => void;
+  // Trending rounds skip stories seen within this many days
+  seenWindowDays?: number;
+  onChangeSeenWindow?: (days: number) => void;
+  onExport: () => void;
+  onImportFile: (file: File) => void;
+  onSaveToPack: (items: HistoryItem[]) => void;
+  // Party players keep separate collections; null owner is the solo player
+  players?: Player[];
+  owner?: string | null;
+  onChangeOwner?: (playerId: string | null) => void;
 }
 
-const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear }) => {
+const LIMIT_OPTIONS = [25, 50, 100, 250];
+
+type OutcomeFilter = 'all' | 'solved' | 'failed';
+
+const FILTERS: { value: OutcomeFilter; label: MessageKey }[] = [
+  { value: 'all', label: 'history.filterAll' },
+  { value: 'solved', label: 'history.filterSolved' },
+  { value: 'failed', label: 'history.filterFailed' },
+];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60
+    ? t('duration.minutes', { minutes: Math.floor(seconds / 60), seconds: seconds % 60 })
+    : t('duration.seconds', { seconds });
+};
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear, historyLimit, onChangeLimit, seenWindowDays, onChangeSeenWindow, onExport, onImportFile, onSaveToPack, players = [], owner = null, onChangeOwner }) => {
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; item: HistoryItem } | null>(null);
+  const [filter, setFilter] = useState<OutcomeFilter>('all');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Legacy entries without their choices cannot be replayed from a pack; typed formats only ever store the answer
+  const isPackable = (item: HistoryItem) => item.choices.length > 1 || (!!item.format && isTypedFormat(item.format));
+
+  const toggleSelected = (item: HistoryItem) => {
+    if (!isPackable(item)) return;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(item.id)) next.delete(item.id); else next.add(item.id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const visibleHistory = filter === 'all' ? history : history.filter(item => item.outcome === filter);
 
   useEffect(() => {
     const handleClick = () => setContextMenu(null);
@@ -42,13 +101,14 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear
     if (action === 'share') {
       try {
         let shareData: any = {
-           title: 'NewsQuest Riddle',
-           text: `${item.question}\n\nAnswer: ${item.answer}`,
+           title: t('history.shareTitle'),
+           text: t('history.shareText', { question: item.question, answer: choiceLabel(item.format ?? 'multiple_choice', item.answer) }),
         };
 
         // Try to share image if possible
         if (navigator.share) {
            try {
+             if (!item.image_url) throw new Error("No image to share");
              const blob = await (await fetch(item.image_url)).blob();
              const file = new File([blob], 'riddle.png', { type: blob.type });
              if (navigator.canShare && navigator.canShare({ files: [file] })) {
@@ -61,15 +121,17 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear
         } else {
            // Fallback to clipboard
            performAction('copy');
-           alert("Sharing not supported on this device. Details copied to clipboard!");
+           alert(t('history.shareUnsupported'));
         }
       } catch (e) {
         console.warn("Share failed", e);
       }
     } else if (action === 'search') {
-      window.open(`https://www.google.com/search?q=${encodeURIComponent(item.topic + " news story")}`, '_blank');
+      // Go straight to the original article when the riddle remembers it
+      const url = item.sources?.[0]?.url ?? `https://www.google.com/search?q=${encodeURIComponent(item.topic + " news story")}`;
+      window.open(url, '_blank', 'noopener');
     } else if (action === 'copy') {
-      const text = `Topic: ${item.topic}\nQ: ${item.question}\nA: ${item.answer}\nFact: ${item.fun_fact}`;
+      const text = t('history.copyText', { topic: item.topic, question: item.question, answer: choiceLabel(item.format ?? 'multiple_choice', item.answer), fact: item.fun_fact });
       navigator.clipboard.writeText(text);
     }
     
@@ -77,7 +139,7 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear
   };
 
   return (
-    <div className="w-full max-w-6xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 duration-500 relative">
+    <div className="w-full max-w-6xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 rtl:slide-in-from-left-4 duration-500 relative">
       
       {/* Header */}
       <div className="flex items-center justify-between mb-8 bg-slate-800/80 p-4 rounded-2xl border border-slate-700 backdrop-blur-md sticky top-4 z-20 shadow-xl">
@@ -85,70 +147,211 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear
           onClick={onBack}
           className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors font-semibold"
         >
-          <ArrowLeft size={20} /> Back to Menu
+          <ArrowLeft size={20} className="rtl:rotate-180" /> {t('common.backToMenu')}
         </button>
         <h2 className="text-xl font-bold text-white flex items-center gap-2">
-          <Trophy className="text-yellow-400" /> Collection ({history.length})
+          <Trophy className="text-yellow-400" /> {t('history.title', { count: history.length })}
         </h2>
-        <button 
-          onClick={() => {
-            if (window.confirm("Are you sure you want to clear your collection?")) {
-              onClear();
-            }
-          }}
-          disabled={history.length === 0}
-          className="flex items-center gap-2 text-red-400 hover:text-red-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm font-medium"
-        >
-          <Trash2 size={16} /> Clear
-        </button>
+        <div className="flex items-center gap-4">
+          {isSelecting ? (
+            <>
+              <button
+                onClick={() => {
+                  onSaveToPack(history.filter(item => selectedIds.has(item.id)));
+                  stopSelecting();
+                }}
+                disabled={selectedIds.size === 0}
+                className="flex items-center gap-2 text-emerald-300 hover:text-emerald-200 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm font-bold"
+              >
+                <Package size={16} /> {t('history.saveToPack', { count: selectedIds.size })}
+              </button>
+              <button onClick={stopSelecting} className="text-slate-400 hover:text-white transition-colors text-sm font-medium">
+                {t('common.cancel')}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setIsSelecting(true)}
+              disabled={!history.some(isPackable)}
+              className="flex items-center gap-2 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+              title={t('history.selectHint')}
+            >
+              <CheckSquare size={16} /> <span className="hidden md:inline">{t('history.select')}</span>
+            </button>
+          )}
+          {/* Archives cover the solo collection only */}
+          {!owner && (
+            <>
+              <button
+                onClick={onExport}
+                disabled={history.length === 0}
+                className="flex items-center gap-2 text-slate-300 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                title={t('history.exportHint')}
+              >
+                <Download size={16} /> <span className="hidden md:inline">{t('history.export')}</span>
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors text-sm font-medium"
+                title={t('history.importHint')}
+              >
+                <Upload size={16} /> <span className="hidden md:inline">{t('history.import')}</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </>
+          )}
+          <select
+            value={historyLimit ?? ''}
+            onChange={(e) => {
+              const limit = e.target.value ? parseInt(e.target.value, 10) : null;
+              if (limit !== null && limit < history.length && !window.confirm(t('history.confirmLimit', { limit }))) return;
+              onChangeLimit(limit);
+            }}
+            className="bg-slate-900 border border-slate-600 text-slate-300 text-sm rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={t('history.limitLabel')}
+          >
+            <option value="">{t('history.keepAll')}</option>
+            {LIMIT_OPTIONS.map(limit => (
+              <option key={limit} value={limit}>{t('history.keep', { limit })}</option>
+            ))}
+          </select>
+          {seenWindowDays !== undefined && onChangeSeenWindow && (
+            <select
+              value={seenWindowDays}
+              onChange={(e) => onChangeSeenWindow(parseInt(e.target.value, 10))}
+              className="bg-slate-900 border border-slate-600 text-slate-300 text-sm rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={t('history.seenLabel')}
+              title={t('history.seenHint')}
+            >
+              {SEEN_WINDOW_OPTIONS.map(days => (
+                <option key={days} value={days}>{tn('history.noRepeats', days)}</option>
+              ))}
+            </select>
+          )}
+          <button 
+            onClick={() => {
+              if (window.confirm(t('history.confirmClear'))) {
+                onClear();
+              }
+            }}
+            disabled={history.length === 0}
+            className="flex items-center gap-2 text-red-400 hover:text-red-300 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+          >
+            <Trash2 size={16} /> {t('history.clear')}
+          </button>
+        </div>
       </div>
 
-      {history.length === 0 ? (
+      {/* Collection Owner */}
+      {players.length > 0 && onChangeOwner && (
+        <div className="flex justify-center mb-4">
+          <select
+            value={owner ?? ''}
+            onChange={(e) => onChangeOwner(e.target.value || null)}
+            className="bg-slate-900 border border-slate-600 text-slate-300 text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label={t('history.ownerLabel')}
+          >
+            <option value="">{t('history.mine')}</option>
+            {players.map(player => (
+              <option key={player.id} value={player.id}>{t('history.playerCollection', { name: player.name })}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Outcome Filter */}
+      {history.length > 0 && (
+        <div className="flex justify-center mb-6">
+          <div className="bg-slate-900/60 p-1.5 rounded-xl flex gap-1 border border-slate-700 shadow-inner">
+            {FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-all ${
+                  filter === value
+                    ? 'bg-blue-500 text-white shadow-lg shadow-blue-500/20'
+                    : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                }`}
+              >
+                {t(label)} ({value === 'all' ? history.length : history.filter(item => item.outcome === value).length})
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {visibleHistory.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-20 text-slate-500 space-y-4">
           <Trophy size={64} className="opacity-20" />
-          <p className="text-lg">No solved riddles yet.</p>
+          <p className="text-lg">{history.length === 0 ? t('history.empty') : t('history.noMatch')}</p>
           <button 
             onClick={onBack}
             className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-full transition-colors"
           >
-            Start Playing
+            {t('history.startPlaying')}
           </button>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pb-20">
-          {history.map((item) => (
+          {visibleHistory.map((item) => (
             <div 
               key={item.id} 
               onContextMenu={(e) => handleContextMenu(e, item)}
-              className="bg-slate-800 rounded-xl overflow-hidden border border-slate-700 shadow-lg hover:shadow-2xl hover:scale-[1.02] transition-all duration-300 flex flex-col group relative"
+              onClick={() => isSelecting && toggleSelected(item)}
+              className={`bg-slate-800 rounded-xl overflow-hidden border shadow-lg hover:shadow-2xl hover:scale-[1.02] transition-all duration-300 flex flex-col group relative ${
+                isSelecting && selectedIds.has(item.id) ? 'border-emerald-400 ring-2 ring-emerald-400/50' : 'border-slate-700'
+              } ${isSelecting ? (isPackable(item) ? 'cursor-pointer' : 'opacity-40') : ''}`}
             >
+              {isSelecting && isPackable(item) && (
+                <div className="absolute top-2 end-2 z-10 text-emerald-300">
+                  {selectedIds.has(item.id) ? <CheckSquare size={20} /> : <Square size={20} />}
+                </div>
+              )}
               <div className="relative aspect-video overflow-hidden bg-slate-900">
-                <img 
-                  src={item.image_url} 
-                  alt={item.topic} 
-                  className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity"
-                  loading="lazy"
-                />
+                {item.image_url ? (
+                  <img 
+                    src={item.image_url} 
+                    alt={item.topic} 
+                    className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-slate-600">
+                    <ImageOff size={40} aria-label={t('history.noImage')} />
+                  </div>
+                )}
                 
-                {/* Date Badge - Moved to left */}
-                <div className="absolute top-2 left-2 bg-black/60 backdrop-blur-sm text-xs font-mono text-slate-300 px-2 py-1 rounded flex items-center gap-1">
-                  <Calendar size={10} /> {new Date(item.timestamp).toLocaleDateString()}
+                {/* Date Badge - at the start edge, in the player's locale */}
+                <div className="absolute top-2 start-2 bg-black/60 backdrop-blur-sm text-xs font-mono text-slate-300 px-2 py-1 rounded flex items-center gap-1">
+                  <Calendar size={10} /> {formatDate(item.timestamp)}
                 </div>
 
                 {/* Context Menu Trigger Button */}
-                <button
-                   onClick={(e) => {
-                     e.stopPropagation();
-                     e.preventDefault();
-                     const rect = e.currentTarget.getBoundingClientRect();
-                     // Position menu slightly below and to the left of the button
-                     setContextMenu({ x: rect.left - 150, y: rect.bottom + 5, item });
-                   }}
-                   className="absolute top-2 right-2 p-1.5 bg-black/40 hover:bg-black/80 rounded-full text-white/80 hover:text-white transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
-                   aria-label="More options"
-                >
-                  <MoreVertical size={16} />
-                </button>
+                {!isSelecting && (
+                  <button
+                     onClick={(e) => {
+                       e.stopPropagation();
+                       e.preventDefault();
+                       const rect = e.currentTarget.getBoundingClientRect();
+                       // Position menu slightly below the button, opening towards the page's inline start
+                       setContextMenu({ x: document.dir === 'rtl' ? rect.left : rect.left - 150, y: rect.bottom + 5, item });
+                     }}
+                     className="absolute top-2 end-2 p-1.5 bg-black/40 hover:bg-black/80 rounded-full text-white/80 hover:text-white transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
+                     aria-label={t('history.moreOptions')}
+                  >
+                    <MoreVertical size={16} />
+                  </button>
+                )}
               </div>
               
               <div className="p-5 flex-1 flex flex-col">
@@ -163,13 +366,67 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear
                   {item.question}
                 </h3>
                 
+                <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                  {item.outcome === 'solved' ? (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-500/10 text-green-300 border border-green-500/30">
+                      <CheckCircle2 size={12} /> {t('history.solved')}
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-500/10 text-red-300 border border-red-500/30">
+                      <XCircle size={12} /> {t('history.missed')}
+                    </span>
+                  )}
+                  {item.difficulty && (
+                    <span className="px-2 py-0.5 rounded-full bg-slate-700 text-slate-300 capitalize">{isDifficulty(item.difficulty) ? t(`difficulty.${item.difficulty}`) : item.difficulty}</span>
+                  )}
+                  {item.format && item.format !== 'multiple_choice' && (
+                    <span className="px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-300 border border-blue-500/30">{t(`format.${item.format}`)}</span>
+                  )}
+                  {isImageStyle(item.image_style) && item.image_style !== 'auto' && (
+                    <span className="px-2 py-0.5 rounded-full bg-pink-500/10 text-pink-300 border border-pink-500/30" title={t('style.group')}>{t(`style.${item.image_style}`)}</span>
+                  )}
+                  <span className="flex items-center gap-1 text-slate-400" title={t('history.hintsRevealed')}>
+                    <Lightbulb size={12} /> {item.hintsRevealed}/{item.hints.length}
+                  </span>
+                  {item.durationMs > 0 && (
+                    <span className="flex items-center gap-1 text-slate-400" title={t('history.timeTaken')}>
+                      <Timer size={12} /> {formatDuration(item.durationMs)}
+                    </span>
+                  )}
+                  {item.remainingMs !== undefined && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-cyan-500/10 text-cyan-300 border border-cyan-500/30" title={t('history.timed')}>
+                      <Hourglass size={12} /> {item.remainingMs > 0 ? t('history.timeLeft', { time: formatDuration(item.remainingMs) }) : t('history.outOfTime')}
+                    </span>
+                  )}
+                </div>
+
                 <div className="mt-auto pt-4 border-t border-slate-700/50">
+                  {item.outcome === 'failed' && (
+                    <p className="text-red-400 text-sm font-bold mb-1 line-through decoration-red-400/50">
+                      {t('history.yourAnswer', {
+                        answer: item.answerText ?? (item.selectedAnswer !== null ? choiceLabel(item.format ?? 'multiple_choice', item.choices[item.selectedAnswer]) : t('history.noAnswer'))
+                      })}
+                    </p>
+                  )}
                   <p className="text-green-400 text-sm font-bold mb-1">
-                    Answer: {item.answer}
+                    {t('history.answer', { answer: choiceLabel(item.format ?? 'multiple_choice', item.answer) })}
                   </p>
                   <p className="text-slate-400 text-xs italic line-clamp-3">
                     "{item.fun_fact}"
                   </p>
+                  {item.sources && item.sources.length > 0 && (
+                    <a
+                      href={item.sources[0].url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      onClick={(e) => e.stopPropagation()}
+                      className="mt-2 flex items-center gap-1.5 text-xs text-blue-300 hover:text-blue-200 hover:underline"
+                      title={describeSource(item.sources[0])}
+                    >
+                      <ExternalLink size={12} className="shrink-0" aria-hidden="true" />
+                      <span className="truncate">{t('history.readStory', { publisher: item.sources[0].publisher })}</span>
+                    </a>
+                  )}
                 </div>
               </div>
             </div>
@@ -186,22 +443,22 @@ const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onBack, onClear
         >
           <button 
             onClick={() => performAction('share')}
-            className="w-full text-left px-4 py-3 text-sm text-slate-200 hover:bg-slate-700 hover:text-white flex items-center gap-3 transition-colors"
+            className="w-full text-start px-4 py-3 text-sm text-slate-200 hover:bg-slate-700 hover:text-white flex items-center gap-3 transition-colors"
           >
-            <Share2 size={16} className="text-blue-400" /> Share
+            <Share2 size={16} className="text-blue-400" /> {t('common.share')}
           </button>
           <button 
             onClick={() => performAction('copy')}
-            className="w-full text-left px-4 py-3 text-sm text-slate-200 hover:bg-slate-700 hover:text-white flex items-center gap-3 transition-colors"
+            className="w-full text-start px-4 py-3 text-sm text-slate-200 hover:bg-slate-700 hover:text-white flex items-center gap-3 transition-colors"
           >
-            <Copy size={16} className="text-emerald-400" /> Save for later
+            <Copy size={16} className="text-emerald-400" /> {t('history.saveForLater')}
           </button>
           <div className="h-px bg-slate-700 my-1 mx-2" />
           <button 
             onClick={() => performAction('search')}
-            className="w-full text-left px-4 py-3 text-sm text-slate-200 hover:bg-slate-700 hover:text-white flex items-center gap-3 transition-colors"
+            className="w-full text-start px-4 py-3 text-sm text-slate-200 hover:bg-slate-700 hover:text-white flex items-center gap-3 transition-colors"
           >
-            <Search size={16} className="text-purple-400" /> View related news
+            <Search size={16} className="text-purple-400" /> {contextMenu.item.sources?.length ? t('game.readStory') : t('history.viewRelated')}
           </button>
         </div>
       )}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { ImportPreview } from '../services/archiveService';
+import { t, tn, formatDate } from '../services/i18n';
+import { Upload, X, CheckCircle2, XCircle } from 'lucide-react';
+
+interface ImportPreviewDialogProps {
+  preview: ImportPreview;
+  isImporting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ preview, isImporting, onConfirm, onCancel }) => {
+  const { archive, newItems, duplicateCount } = preview;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200" role="dialog" aria-label={t('import.preview')}>
+      <div className="bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Upload size={20} className="text-blue-400" /> {t('import.title')}
+          </h3>
+          <button onClick={onCancel} className="p-1 text-slate-400 hover:text-white transition-colors" aria-label={t('import.cancel')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-300">
+            {t('import.exportedOn', { date: formatDate(archive.exportedAt, { dateStyle: 'medium', timeStyle: 'short' }) })}{' '}
+            <span className="font-bold text-white">{tn('import.newRiddles', newItems.length)}</span>
+            {duplicateCount > 0 && <> {tn('import.duplicates', duplicateCount)}</>}
+          </p>
+
+          {newItems.length > 0 && (
+            <ul className="space-y-2">
+              {newItems.map((item, idx) => (
+                <li key={`${item.id}-${idx}`} className="flex items-center gap-3 p-2 bg-slate-900/60 rounded-lg border border-slate-700">
+                  {item.outcome === 'failed'
+                    ? <XCircle size={16} className="text-red-400 shrink-0" />
+                    : <CheckCircle2 size={16} className="text-green-400 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-sm text-white font-semibold truncate">{item.question}</p>
+                    <p className="text-xs text-slate-400 truncate">{item.topic}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-slate-500">
+            {t('import.mergeNote')}
+          </p>
+        </div>
+
+        <div className="flex gap-2 p-5 border-t border-slate-700">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors text-sm font-semibold"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isImporting}
+            className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white transition-colors text-sm font-bold"
+          >
+            {isImporting ? t('import.importing') : t('history.import')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
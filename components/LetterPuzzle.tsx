@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { scrambleLetters, letterFeedback, LetterState, MAX_LETTER_GUESSES } from '../services/riddleFormats';
+import { Delete, CornerDownLeft } from 'lucide-react';
+import { t, tn } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+interface LetterPuzzleProps {
+  answer: string;
+  answerText: string | null;
+  showResult: boolean;
+  isCorrect: boolean;
+  concealResult: boolean;
+  disabled: boolean;
+  onSubmit: (text: string) => void;
+}
+
+const TILE_CLASS: Record<LetterState, string> = {
+  correct: 'bg-green-600 border-green-500 text-white',
+  present: 'bg-amber-500 border-amber-400 text-white',
+  absent: 'bg-slate-700 border-slate-600 text-slate-300'
+};
+
+const TILE_LABEL: Record<LetterState, MessageKey> = {
+  correct: 'letters.correct',
+  present: 'letters.present',
+  absent: 'letters.absent'
+};
+
+// Unscramble-the-letters board: pick tiles to spell a guess, with Wordle-style marks after each wrong try
+const LetterPuzzle: React.FC<LetterPuzzleProps> = ({ answer, answerText, showResult, isCorrect, concealResult, disabled, onSubmit }) => {
+  const tiles = scrambleLetters(answer);
+  // Indices into `tiles`, in the order the player picked them
+  const [picked, setPicked] = useState<number[]>([]);
+  const [guesses, setGuesses] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!showResult) {
+      setPicked([]);
+      setGuesses([]);
+    }
+  }, [answer, showResult]);
+
+  const guess = picked.map(i => tiles[i]).join('');
+  const triesLeft = MAX_LETTER_GUESSES - guesses.length;
+  const locked = disabled || showResult;
+
+  const submit = () => {
+    if (locked || guess.length !== answer.length) return;
+    // The last try, or a right one, ends the round; earlier misses just add a feedback row
+    if (guess === answer.toUpperCase() || triesLeft <= 1) {
+      onSubmit(guess);
+      return;
+    }
+    setGuesses(prev => [...prev, guess]);
+    setPicked([]);
+  };
+
+  const rows = showResult && answerText !== null && !guesses.includes(answerText) ? [...guesses, answerText] : guesses;
+
+  return (
+    <div className="space-y-4">
+      {!concealResult && rows.length > 0 && (
+        <ol className="space-y-1.5" aria-label={t('letters.previous')}>
+          {rows.map((row, r) => {
+            const marks = letterFeedback(row, answer);
+            return (
+              <li key={r} className="flex gap-1.5 justify-center">
+                {row.split('').map((letter, i) => (
+                  <span
+                    key={i}
+                    className={`w-10 h-10 flex items-center justify-center rounded-md border-2 font-bold text-lg ${TILE_CLASS[marks[i]]}`}
+                    aria-label={`${letter} ${t(TILE_LABEL[marks[i]])}`}
+                  >
+                    {letter}
+                  </span>
+                ))}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {showResult ? (
+        !concealResult && !isCorrect && (
+          <p className="text-sm text-slate-300 text-center">
+            {t('letters.was')} <span className="font-bold tracking-widest text-green-300">{answer.toUpperCase()}</span>
+          </p>
+        )
+      ) : (
+        <>
+          {/* Current guess */}
+          <div className="flex gap-1.5 justify-center" aria-live="polite" aria-label={t('letters.current', { guess: guess || t('letters.empty') })}>
+            {tiles.map((_, i) => (
+              <span
+                key={i}
+                className={`w-10 h-10 flex items-center justify-center rounded-md border-2 font-bold text-lg ${
+                  picked[i] !== undefined ? 'border-blue-400 bg-slate-800 text-white' : 'border-dashed border-slate-600 text-transparent'
+                }`}
+              >
+                {picked[i] !== undefined ? tiles[picked[i]] : '·'}
+              </span>
+            ))}
+          </div>
+
+          {/* Letter bank */}
+          <div className="flex flex-wrap gap-1.5 justify-center" role="group" aria-label={t('letters.bank')}>
+            {tiles.map((letter, i) => (
+              <button
+                key={i}
+                onClick={() => setPicked(prev => [...prev, i])}
+                disabled={locked || picked.includes(i)}
+                className="w-10 h-10 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-30 disabled:cursor-not-allowed border border-slate-600 font-bold text-lg text-white transition-colors"
+              >
+                {letter}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPicked(prev => prev.slice(0, -1))}
+              disabled={locked || picked.length === 0}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-600 rounded-lg text-slate-200 flex items-center gap-2 text-sm"
+              aria-label={t('letters.remove')}
+            >
+              <Delete size={16} className="rtl:-scale-x-100" aria-hidden="true" />
+            </button>
+            <button
+              onClick={submit}
+              disabled={locked || guess.length !== answer.length}
+              className="flex-1 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <CornerDownLeft size={16} className="rtl:-scale-x-100" aria-hidden="true" /> {t('letters.guess')}
+            </button>
+            <span className="text-xs text-slate-400 w-20 text-end">{tn('letters.triesLeft', triesLeft)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LetterPuzzle;
@@ -0,0 +1,130 @@
+import React, { useRef } from 'react';
+import { RiddlePack, PackProgress } from '../types';
+import { t, tn, formatNumber } from '../services/i18n';
+import { ArrowLeft, Package, Play, RotateCcw, Download, Upload, Trash2, CheckCircle2 } from 'lucide-react';
+
+interface PacksScreenProps {
+  packs: RiddlePack[];
+  progress: Record<string, PackProgress>;
+  onBack: () => void;
+  onPlay: (pack: RiddlePack) => void;
+  onRestart: (pack: RiddlePack) => void;
+  onExport: (pack: RiddlePack) => void;
+  onDelete: (pack: RiddlePack) => void;
+  onImportFile: (file: File) => void;
+}
+
+const PacksScreen: React.FC<PacksScreenProps> = ({ packs, progress, onBack, onPlay, onRestart, onExport, onDelete, onImportFile }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 rtl:slide-in-from-left-4 duration-500">
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8 bg-slate-800/80 p-4 rounded-2xl border border-slate-700 backdrop-blur-md shadow-xl">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors font-semibold"
+        >
+          <ArrowLeft size={20} className="rtl:rotate-180" /> {t('common.backToMenu')}
+        </button>
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Package className="text-emerald-400" /> {t('packs.title')}
+        </h2>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors text-sm font-medium"
+        >
+          <Upload size={16} /> {t('packs.load')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {packs.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-slate-500 space-y-4 text-center">
+          <Package size={64} className="opacity-20" />
+          <p className="text-lg">{t('packs.empty')}</p>
+          <p className="text-sm max-w-sm">{t('packs.emptyHint')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pb-20">
+          {packs.map(pack => {
+            const packProgress = progress[pack.id] ?? { nextIndex: 0, solved: 0, played: 0 };
+            const done = Math.min(packProgress.nextIndex, pack.entries.length);
+            const isComplete = done >= pack.entries.length;
+
+            return (
+              <div key={pack.id} className="bg-slate-800 rounded-xl p-5 border border-slate-700 shadow-lg flex flex-col gap-4">
+                <div>
+                  <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                    {pack.name}
+                    {isComplete && <CheckCircle2 size={16} className="text-green-400" />}
+                  </h3>
+                  {pack.description && <p className="text-sm text-slate-400">{pack.description}</p>}
+                  <p className="text-xs text-slate-500 mt-1">
+                    {tn('packs.riddles', pack.entries.length)} · {t('packs.solved', { solved: formatNumber(packProgress.solved), played: formatNumber(packProgress.played) })}
+                  </p>
+                </div>
+
+                <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-emerald-500 rounded-full transition-all duration-700"
+                    style={{ width: `${pack.entries.length ? (done / pack.entries.length) * 100 : 0}%` }}
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  {isComplete ? (
+                    <button
+                      onClick={() => onRestart(pack)}
+                      className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold transition-colors flex items-center justify-center gap-2 text-sm"
+                    >
+                      <RotateCcw size={16} /> {t('common.playAgain')}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onPlay(pack)}
+                      className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg font-bold transition-colors flex items-center justify-center gap-2 text-sm"
+                    >
+                      <Play size={16} /> {done > 0 ? t('packs.continue', { next: formatNumber(done + 1), total: formatNumber(pack.entries.length) }) : t('packs.play')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onExport(pack)}
+                    className="px-3 py-2 rounded-lg border border-slate-600 bg-slate-900 text-slate-300 hover:bg-slate-700 transition-colors"
+                    title={t('packs.export')}
+                    aria-label={t('packs.export')}
+                  >
+                    <Download size={16} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(t('packs.confirmDelete', { name: pack.name }))) onDelete(pack);
+                    }}
+                    className="px-3 py-2 rounded-lg border border-slate-600 bg-slate-900 text-red-400 hover:bg-red-500/10 transition-colors"
+                    title={t('packs.delete')}
+                    aria-label={t('packs.delete')}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PacksScreen;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { PartyMatch } from '../types';
+import { isMatchOver, rankPlayers } from '../services/partyService';
+import { t, formatNumber } from '../services/i18n';
+import { ArrowLeft, Users, Crown, Flame, Lightbulb, CheckCircle2, XCircle, ArrowRight, RotateCcw } from 'lucide-react';
+
+interface PartyScoreboardScreenProps {
+  match: PartyMatch;
+  onNextRound: () => void;
+  onPlayAgain: () => void;
+  onBack: () => void;
+}
+
+const PartyScoreboardScreen: React.FC<PartyScoreboardScreenProps> = ({ match, onNextRound, onPlayAgain, onBack }) => {
+  const isFinal = isMatchOver(match);
+  const ranking = rankPlayers(match);
+  const lastRound = match.round - 1;
+  const lastTurns = match.turns.filter(turn => turn.round === lastRound);
+  const nameOf = (id: string) => match.players.find(p => p.id === id)?.name ?? t('party.unknownPlayer');
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 rtl:slide-in-from-left-4 duration-500">
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8 bg-slate-800/80 p-4 rounded-2xl border border-slate-700 backdrop-blur-md shadow-xl">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors font-semibold"
+        >
+          <ArrowLeft size={20} className="rtl:rotate-180" /> {isFinal ? t('common.backToMenu') : t('party.end')}
+        </button>
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Users className="text-teal-400" /> {isFinal ? t('party.finalScoreboard') : t('party.roundOf', { round: formatNumber(match.round), rounds: formatNumber(match.rounds) })}
+        </h2>
+        <div className="w-24" />
+      </div>
+
+      <div className="space-y-6 pb-20">
+        {isFinal && ranking[0] && (
+          <div className="p-4 rounded-xl bg-yellow-500/10 border border-yellow-500/40 text-yellow-200 font-bold flex items-center justify-center gap-2 text-lg">
+            <Crown size={22} className="text-yellow-400" /> {t('party.wins', { name: ranking[0].player.name })}
+          </div>
+        )}
+
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+          <ol className="space-y-2">
+            {ranking.map(({ player, standing }, idx) => (
+              <li key={player.id} className="flex items-center gap-3 p-3 rounded-lg bg-slate-900/50 border border-slate-700">
+                <span className="w-6 text-slate-500 font-mono">{formatNumber(idx + 1)}.</span>
+                <span className="flex-1 font-semibold text-slate-200 truncate">{player.name}</span>
+                <span className="text-xs text-slate-400" title={t('history.solved')}>{formatNumber(standing.solved)}/{formatNumber(standing.played)}</span>
+                <span className="flex items-center gap-1 text-xs text-orange-300" title={t('party.bestStreak')}>
+                  <Flame size={12} /> {formatNumber(standing.bestStreak)}
+                </span>
+                <span className="flex items-center gap-1 text-xs text-amber-300" title={t('score.hints')}>
+                  <Lightbulb size={12} /> {formatNumber(standing.hintsUsed)}
+                </span>
+                <span className="w-16 text-end text-yellow-300 font-bold">{formatNumber(standing.score)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {lastTurns.length > 0 && (
+          <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">{t('party.lastRound')}</h3>
+            <ul className="space-y-2">
+              {lastTurns.map(turn => (
+                <li key={turn.playerId} className="flex items-center gap-3 text-sm">
+                  {turn.outcome === 'solved'
+                    ? <CheckCircle2 size={16} className="text-green-400 shrink-0" aria-label={t('history.solved')} />
+                    : <XCircle size={16} className="text-red-400 shrink-0" aria-label={t('history.missed')} />}
+                  <span className="flex-1 text-slate-200">{nameOf(turn.playerId)}</span>
+                  <span className="text-yellow-300 font-semibold">{formatNumber(turn.score, { signDisplay: 'always' })}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {isFinal ? (
+          <button
+            onClick={onPlayAgain}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-gradient-to-r from-teal-500 to-cyan-600 hover:from-teal-400 hover:to-cyan-500 text-white font-bold rounded-xl transition-all shadow-lg"
+          >
+            <RotateCcw size={18} /> {t('common.playAgain')}
+          </button>
+        ) : (
+          <button
+            onClick={onNextRound}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-white text-slate-900 hover:bg-slate-200 font-bold rounded-xl transition-colors"
+          >
+            {t('party.nextRound', { name: match.players[match.turn]?.name ?? t('party.unknownPlayer') })} <ArrowRight size={18} className="rtl:rotate-180" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PartyScoreboardScreen;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Difficulty, Player, TurnStyle } from '../types';
+import { createPlayer, MIN_PLAYERS, MAX_PLAYERS, PARTY_ROUNDS } from '../services/partyService';
+import { t, tn } from '../services/i18n';
+import { ArrowLeft, Users, UserPlus, Trash2, CheckSquare, Square, Play, Shuffle, Flag } from 'lucide-react';
+
+interface PartySetupScreenProps {
+  roster: Player[];
+  difficulty: Difficulty;
+  onChangeRoster: (players: Player[]) => void;
+  onRemovePlayer: (player: Player) => void;
+  onStart: (players: Player[], turnStyle: TurnStyle, rounds: number) => void;
+  onBack: () => void;
+}
+
+const TURN_STYLES: { value: TurnStyle; icon: React.ReactNode }[] = [
+  { value: 'turns', icon: <Shuffle size={18} /> },
+  { value: 'race', icon: <Flag size={18} /> },
+];
+
+const PartySetupScreen: React.FC<PartySetupScreenProps> = ({ roster, difficulty, onChangeRoster, onRemovePlayer, onStart, onBack }) => {
+  const [newName, setNewName] = useState('');
+  // Everyone on the roster plays unless they sit this one out
+  const [benched, setBenched] = useState<Set<string>>(new Set());
+  const [turnStyle, setTurnStyle] = useState<TurnStyle>('turns');
+  const [rounds, setRounds] = useState(PARTY_ROUNDS[0]);
+
+  const playing = roster.filter(p => !benched.has(p.id));
+  const nameTaken = roster.some(p => p.name.toLowerCase() === newName.trim().toLowerCase());
+  const canAdd = newName.trim().length > 0 && !nameTaken && roster.length < MAX_PLAYERS;
+
+  const addPlayer = () => {
+    if (!canAdd) return;
+    onChangeRoster([...roster, createPlayer(newName)]);
+    setNewName('');
+  };
+
+  const toggleBench = (id: string) => {
+    setBenched(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 rtl:slide-in-from-left-4 duration-500">
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8 bg-slate-800/80 p-4 rounded-2xl border border-slate-700 backdrop-blur-md shadow-xl">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors font-semibold"
+        >
+          <ArrowLeft size={20} className="rtl:rotate-180" /> {t('common.backToMenu')}
+        </button>
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Users className="text-teal-400" /> {t('party.title')}
+        </h2>
+        <div className="w-24" />
+      </div>
+
+      <div className="space-y-6 pb-20">
+        {/* Roster */}
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 space-y-4">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('party.players')}</h3>
+
+          {roster.length === 0 ? (
+            <p className="text-slate-500 text-sm">{tn('party.needPlayers', MIN_PLAYERS)}</p>
+          ) : (
+            <ul className="space-y-2">
+              {roster.map(player => (
+                <li key={player.id} className="flex items-center gap-3 p-2 rounded-lg bg-slate-900/50 border border-slate-700">
+                  <button
+                    onClick={() => toggleBench(player.id)}
+                    className="text-teal-300 hover:text-teal-200 transition-colors"
+                    aria-label={t(benched.has(player.id) ? 'party.include' : 'party.sitOut', { name: player.name })}
+                  >
+                    {benched.has(player.id) ? <Square size={18} /> : <CheckSquare size={18} />}
+                  </button>
+                  <span className={`flex-1 font-semibold ${benched.has(player.id) ? 'text-slate-500' : 'text-slate-200'}`}>{player.name}</span>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(t('party.confirmRemove', { name: player.name }))) onRemovePlayer(player);
+                    }}
+                    className="text-slate-500 hover:text-red-400 transition-colors"
+                    aria-label={t('party.remove', { name: player.name })}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder={t('party.namePlaceholder')}
+              value={newName}
+              maxLength={24}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addPlayer()}
+              className="flex-1 bg-slate-900/80 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+            <button
+              onClick={addPlayer}
+              disabled={!canAdd}
+              className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors text-sm"
+            >
+              <UserPlus size={16} /> {t('party.add')}
+            </button>
+          </div>
+          {nameTaken && <p className="text-xs text-amber-300">{t('party.nameTaken')}</p>}
+        </div>
+
+        {/* Turn Style */}
+        <div className="grid grid-cols-2 gap-3">
+          {TURN_STYLES.map(style => (
+            <button
+              key={style.value}
+              onClick={() => setTurnStyle(style.value)}
+              aria-pressed={turnStyle === style.value}
+              className={`p-4 rounded-xl border text-start transition-all ${
+                turnStyle === style.value
+                  ? 'bg-teal-500/15 border-teal-500/50 text-teal-100'
+                  : 'bg-slate-800/50 border-slate-700 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <span className="flex items-center gap-2 font-bold mb-1">{style.icon} {t(`turnStyle.${style.value}`)}</span>
+              <span className="text-xs">{t(`turnStyle.${style.value}Hint`)}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <select
+            value={rounds}
+            onChange={(e) => setRounds(Number(e.target.value))}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-3 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            aria-label={t('party.rounds')}
+          >
+            {PARTY_ROUNDS.map(option => (
+              <option key={option} value={option}>{tn('party.roundCount', option)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onStart(playing, turnStyle, rounds)}
+            disabled={playing.length < MIN_PLAYERS}
+            className="flex-1 flex items-center justify-center gap-2 py-3 bg-gradient-to-r from-teal-500 to-cyan-600 hover:from-teal-400 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all shadow-lg"
+          >
+            <Play size={18} /> {t('party.start', { difficulty: t(`difficulty.${difficulty}`), players: tn('party.playerCount', playing.length) })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PartySetupScreen;
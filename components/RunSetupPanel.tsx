@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { DifficultySetting, NewsCategory, RunConfig, RunRecord } from '../types';
+import { MAX_LIVES, RUN_LENGTHS } from '../services/runService';
+import { categoryLabel } from '../services/categoryService';
+import { t, tn, formatNumber } from '../services/i18n';
+import { Swords, Heart, Crown } from 'lucide-react';
+
+interface RunSetupPanelProps {
+  categories: NewsCategory[];
+  difficulty: DifficultySetting;
+  bestRun: RunRecord | null;
+  onStart: (config: RunConfig) => void;
+}
+
+const RunSetupPanel: React.FC<RunSetupPanelProps> = ({ categories, difficulty, bestRun, onStart }) => {
+  const [categoryId, setCategoryId] = useState<string | undefined>(undefined);
+  // A category deleted while selected falls back to "Any"
+  const category = categories.find(c => c.id === categoryId);
+  const options: { label: string; id?: string }[] = [{ label: t('run.anyCategory') }, ...categories.map(c => ({ label: categoryLabel(c.name), id: c.id }))];
+  const [length, setLength] = useState<number | null>(RUN_LENGTHS[0]);
+
+  return (
+    <div className="p-4 bg-slate-900/50 rounded-2xl border border-orange-500/30 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-bold text-orange-300 uppercase tracking-wider flex items-center gap-2">
+          <Swords size={16} /> {t('run.title')}
+        </h3>
+        <span className="flex items-center gap-1 text-xs text-slate-400" title={tn('run.livesPerRun', MAX_LIVES)}>
+          {Array.from({ length: MAX_LIVES }, (_, i) => (
+            <Heart key={i} size={12} className="text-red-400 fill-red-400" aria-hidden="true" />
+          ))}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5" role="group" aria-label={t('run.category')}>
+        {options.map(option => (
+          <button
+            key={option.id ?? 'any'}
+            onClick={() => setCategoryId(option.id)}
+            aria-pressed={category?.id === option.id}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+              category?.id === option.id
+                ? 'bg-orange-500/20 border-orange-500/50 text-orange-200'
+                : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={length ?? ''}
+          onChange={(e) => setLength(e.target.value ? Number(e.target.value) : null)}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-orange-500"
+          aria-label={t('run.length')}
+        >
+          {RUN_LENGTHS.map(option => (
+            <option key={option ?? 'endless'} value={option ?? ''}>
+              {option ? tn('run.riddles', option) : t('run.endless')}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => onStart({ category: category?.name, categoryId: category?.id, difficulty, length })}
+          className="flex-1 py-2 bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-bold rounded-lg transition-all shadow-lg shadow-orange-900/20 text-sm"
+        >
+          {t('run.start', { difficulty: t(`difficulty.${difficulty}`) })}
+        </button>
+      </div>
+
+      {bestRun && (
+        <p className="flex items-center gap-1.5 text-xs text-slate-400">
+          <Crown size={12} className="text-yellow-400" aria-hidden="true" />
+          {t('run.best')} <span className="text-yellow-300 font-bold">{formatNumber(bestRun.score)}</span> {t('run.bestDetail', { solved: formatNumber(bestRun.solved), played: formatNumber(bestRun.played) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RunSetupPanel;
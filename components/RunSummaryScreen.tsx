@@ -0,0 +1,119 @@
+import React from 'react';
+import { QuestRun, RunRecord } from '../types';
+import { MAX_LIVES } from '../services/runService';
+import { categoryLabel } from '../services/categoryService';
+import { t, tn, formatNumber } from '../services/i18n';
+import { ArrowLeft, Swords, Heart, Trophy, Target, Crown, CheckCircle2, XCircle, RotateCcw } from 'lucide-react';
+
+interface RunSummaryScreenProps {
+  run: QuestRun;
+  leaderboard: RunRecord[];
+  onPlayAgain: () => void;
+  onBack: () => void;
+}
+
+const describeRun = ({ category, difficulty, length }: RunRecord['config']) =>
+  [
+    category ? categoryLabel(category) : t('run.anyTopic'),
+    t(`difficulty.${difficulty}`),
+    length ? tn('run.riddles', length) : t('run.endlessShort'),
+  ].join(' · ');
+
+const RunSummaryScreen: React.FC<RunSummaryScreenProps> = ({ run, leaderboard, onPlayAgain, onBack }) => {
+  const solved = run.rounds.filter(r => r.outcome === 'solved').length;
+  const rank = leaderboard.findIndex(r => r.id === run.id);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 rtl:slide-in-from-left-4 duration-500">
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8 bg-slate-800/80 p-4 rounded-2xl border border-slate-700 backdrop-blur-md shadow-xl">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors font-semibold"
+        >
+          <ArrowLeft size={20} className="rtl:rotate-180" /> {t('common.backToMenu')}
+        </button>
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Swords className="text-orange-400" /> {t('runSummary.title')}
+        </h2>
+        <button
+          onClick={onPlayAgain}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors text-sm font-medium"
+        >
+          <RotateCcw size={16} /> {t('common.playAgain')}
+        </button>
+      </div>
+
+      <div className="space-y-6 pb-20">
+        {rank === 0 && (
+          <div className="p-4 rounded-xl bg-yellow-500/10 border border-yellow-500/40 text-yellow-200 font-bold flex items-center justify-center gap-2">
+            <Crown size={20} className="text-yellow-400" /> {t('runSummary.newBest')}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 flex flex-col items-center gap-1 text-center">
+            <Trophy size={20} className="text-yellow-400" />
+            <span className="text-2xl font-bold text-white">{formatNumber(run.score)}</span>
+            <span className="text-xs uppercase tracking-wider text-slate-400">{t('runSummary.points')}</span>
+          </div>
+          <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 flex flex-col items-center gap-1 text-center">
+            <Target size={20} className="text-green-400" />
+            <span className="text-2xl font-bold text-white">{formatNumber(solved)}/{formatNumber(run.rounds.length)}</span>
+            <span className="text-xs uppercase tracking-wider text-slate-400">{t('runSummary.solved')}</span>
+          </div>
+          <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 flex flex-col items-center gap-1 text-center">
+            <span className="flex gap-1 h-5 items-center">
+              {Array.from({ length: MAX_LIVES }, (_, i) => (
+                <Heart key={i} size={16} className={i < run.lives ? 'text-red-400 fill-red-400' : 'text-slate-600'} />
+              ))}
+            </span>
+            <span className="text-2xl font-bold text-white">{formatNumber(run.lives)}</span>
+            <span className="text-xs uppercase tracking-wider text-slate-400">{t('runSummary.livesLeft')}</span>
+          </div>
+        </div>
+
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">{t('runSummary.rounds')}</h3>
+          <ol className="space-y-2">
+            {run.rounds.map((round, idx) => (
+              <li key={idx} className="flex items-center gap-3 text-sm">
+                <span className="w-6 text-slate-500 font-mono">{formatNumber(idx + 1)}.</span>
+                {round.outcome === 'solved'
+                  ? <CheckCircle2 size={16} className="text-green-400 shrink-0" aria-label={t('history.solved')} />
+                  : <XCircle size={16} className="text-red-400 shrink-0" aria-label={t('history.missed')} />}
+                <span className="flex-1 text-slate-200 truncate">{round.question}</span>
+                <span className="text-yellow-300 font-semibold">{formatNumber(round.score)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+            <Crown size={16} className="text-yellow-400" /> {t('runSummary.bestRuns')}
+          </h3>
+          <ol className="space-y-2">
+            {leaderboard.map((record, idx) => (
+              <li
+                key={record.id}
+                className={`flex items-center gap-3 text-sm p-2 rounded-lg ${record.id === run.id ? 'bg-orange-500/10 border border-orange-500/40' : ''}`}
+              >
+                <span className="w-6 text-slate-500 font-mono">{formatNumber(idx + 1)}.</span>
+                <span className="flex-1 text-slate-300 truncate">{describeRun(record.config)}</span>
+                <span className="text-slate-400">{formatNumber(record.solved)}/{formatNumber(record.played)}</span>
+                <span className="w-16 text-end text-yellow-300 font-bold">{formatNumber(record.score)}</span>
+              </li>
+            ))}
+          </ol>
+          {rank === -1 && (
+            <p className="mt-3 text-xs text-slate-500">{t('runSummary.notRanked', { count: formatNumber(leaderboard.length) })}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunSummaryScreen;
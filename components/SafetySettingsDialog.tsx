@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { RiddleReport, SafetySettings } from '../types';
+import { SENSITIVITY_PROFILES, parseBlocklist } from '../services/moderation';
+import { t, formatDate } from '../services/i18n';
+import { ShieldCheck, X, Undo2 } from 'lucide-react';
+
+interface SafetySettingsDialogProps {
+  settings: SafetySettings;
+  reports: RiddleReport[];
+  onSave: (settings: SafetySettings) => void;
+  onUnreport: (id: string) => void;
+  onClose: () => void;
+}
+
+const SafetySettingsDialog: React.FC<SafetySettingsDialogProps> = ({ settings, reports, onSave, onUnreport, onClose }) => {
+  const [profile, setProfile] = useState(settings.profile);
+  // The blocklist is edited as free text and only split up on save
+  const [blocklist, setBlocklist] = useState(settings.blocklist.join('\n'));
+
+  const save = () => {
+    onSave({ profile, blocklist: parseBlocklist(blocklist) });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200" role="dialog" aria-label={t('safety.title')}>
+      <div className="bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <ShieldCheck size={20} className="text-emerald-400" aria-hidden="true" /> {t('safety.title')}
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white transition-colors" aria-label={t('safety.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5 overflow-y-auto">
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('safety.profile')}</legend>
+            {SENSITIVITY_PROFILES.map(option => (
+              <label
+                key={option}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  profile === option ? 'bg-emerald-500/10 border-emerald-500/60' : 'bg-slate-900/60 border-slate-700 hover:border-slate-500'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="sensitivity"
+                  value={option}
+                  checked={profile === option}
+                  onChange={() => setProfile(option)}
+                  className="mt-1 accent-emerald-500"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-white">{t(`safety.${option}`)}</span>
+                  <span className="block text-xs text-slate-400">{t(`safety.${option}Hint`)}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="block space-y-2">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider">{t('safety.blocklist')}</span>
+            <textarea
+              value={blocklist}
+              onChange={(e) => setBlocklist(e.target.value)}
+              rows={4}
+              placeholder={t('safety.blocklistPlaceholder')}
+              className="w-full bg-slate-900/80 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="block text-xs text-slate-500">{t('safety.blocklistHint')}</span>
+          </label>
+
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('safety.reports')}</h4>
+            {reports.length === 0 && <p className="text-sm text-slate-500">{t('safety.noReports')}</p>}
+            {reports.map(report => (
+              <div key={report.id} className="flex items-center gap-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white font-semibold truncate">{report.topic}</p>
+                  <p className="text-xs text-slate-400 truncate">{formatDate(report.reportedAt)} · {report.question}</p>
+                </div>
+                <button
+                  onClick={() => onUnreport(report.id)}
+                  className="p-1 text-slate-400 hover:text-emerald-300 transition-colors"
+                  title={t('safety.unreport')}
+                  aria-label={t('safety.unreport')}
+                >
+                  <Undo2 size={16} className="rtl:-scale-x-100" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t border-slate-700">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-semibold text-slate-300 hover:text-white transition-colors">
+            {t('common.cancel')}
+          </button>
+          <button onClick={save} className="px-4 py-2 text-sm font-bold bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg transition-colors">
+            {t('safety.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafetySettingsDialog;
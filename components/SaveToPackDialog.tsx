@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { RiddlePack } from '../types';
+import { t, tn, formatNumber } from '../services/i18n';
+import { Package, X } from 'lucide-react';
+
+interface SaveToPackDialogProps {
+  packs: RiddlePack[];
+  count: number;
+  isSaving: boolean;
+  onSave: (target: { packId: string } | { name: string }) => void;
+  onCancel: () => void;
+}
+
+const NEW_PACK = '__new__';
+
+const SaveToPackDialog: React.FC<SaveToPackDialogProps> = ({ packs, count, isSaving, onSave, onCancel }) => {
+  const [selected, setSelected] = useState<string>(packs[0]?.id ?? NEW_PACK);
+  const [name, setName] = useState('');
+
+  const canSave = selected !== NEW_PACK || name.trim().length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200" role="dialog" aria-label={t('game.saveToPack')}>
+      <div className="bg-slate-800 border border-slate-600 rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-5 border-b border-slate-700">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Package size={20} className="text-emerald-400" /> {tn('packs.saveRiddles', count)}
+          </h3>
+          <button onClick={onCancel} className="p-1 text-slate-400 hover:text-white transition-colors" aria-label={t('common.cancel')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          {packs.map(pack => (
+            <label key={pack.id} className="flex items-center gap-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700 cursor-pointer hover:border-slate-500">
+              <input type="radio" name="pack" checked={selected === pack.id} onChange={() => setSelected(pack.id)} />
+              <span className="text-sm text-white font-semibold flex-1 truncate">{pack.name}</span>
+              <span className="text-xs text-slate-400">{formatNumber(pack.entries.length)}</span>
+            </label>
+          ))}
+          <label className="flex items-center gap-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700 cursor-pointer hover:border-slate-500">
+            <input type="radio" name="pack" checked={selected === NEW_PACK} onChange={() => setSelected(NEW_PACK)} />
+            <input
+              type="text"
+              placeholder={t('packs.newName')}
+              value={name}
+              onFocus={() => setSelected(NEW_PACK)}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 bg-transparent text-sm text-white placeholder:text-slate-500 focus:outline-none"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2 p-5 border-t border-slate-700">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-2 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors text-sm font-semibold"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSave(selected === NEW_PACK ? { name } : { packId: selected })}
+            disabled={!canSave || isSaving}
+            className="flex-1 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white transition-colors text-sm font-bold"
+          >
+            {isSaving ? t('common.saving') : t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveToPackDialog;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { SkillRating } from '../types';
+import { pickAdaptiveTarget } from '../services/skillRating';
+import { t, formatNumber } from '../services/i18n';
+import { Gauge, TrendingUp, TrendingDown } from 'lucide-react';
+
+interface SkillRatingCardProps {
+  skill: SkillRating;
+}
+
+const SPARK_WIDTH = 160;
+const SPARK_HEIGHT = 36;
+
+const Sparkline: React.FC<{ values: number[] }> = ({ values }) => {
+  const min = Math.min(...values);
+  const range = Math.max(1, Math.max(...values) - min);
+  const step = SPARK_WIDTH / Math.max(1, values.length - 1);
+  const points = values
+    .map((v, i) => `${(i * step).toFixed(1)},${(SPARK_HEIGHT - ((v - min) / range) * SPARK_HEIGHT).toFixed(1)}`)
+    .join(' ');
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} className="overflow-visible" aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+};
+
+const SkillRatingCard: React.FC<SkillRatingCardProps> = ({ skill }) => {
+  const target = pickAdaptiveTarget(skill.rating);
+  const values = skill.history.map(point => point.rating);
+  const change = values.length >= 2 ? values[values.length - 1] - values[Math.max(0, values.length - 11)] : 0;
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-4 bg-slate-900/50 rounded-2xl border border-amber-500/30">
+      <div>
+        <p className="text-xs font-bold text-amber-300 uppercase tracking-wider flex items-center gap-1.5">
+          <Gauge size={14} /> {t('skill.title')}
+        </p>
+        <p className="text-3xl font-bold text-white">{formatNumber(skill.rating)}</p>
+        <p className="text-xs text-slate-400">
+          {skill.rounds === 0
+            ? t('skill.calibrate')
+            : <>{t('skill.next')} <span className="text-slate-200 font-semibold">{t(`difficulty.${target.difficulty}`)}</span> · {t(`skill.distractors.${target.constraints.distractors}`)}</>}
+        </p>
+      </div>
+      {values.length >= 2 && (
+        <div className="flex flex-col items-end gap-1 text-amber-300">
+          <Sparkline values={values} />
+          <span className={`flex items-center gap-1 text-xs font-semibold ${change >= 0 ? 'text-green-300' : 'text-red-300'}`} title={t('skill.change')}>
+            {change >= 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />} {formatNumber(change, { signDisplay: 'always' })}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkillRatingCard;
@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { HistoryItem, Difficulty, WinRate } from '../types';
+import { computeStats } from '../services/statsService';
+import { categoryLabel } from '../services/categoryService';
+import { t, formatNumber } from '../services/i18n';
+import { ArrowLeft, BarChart3, Flame, Trophy, Timer, Target, Lightbulb, Zap, Brain, Hexagon } from 'lucide-react';
+
+interface StatsScreenProps {
+  history: HistoryItem[];
+  streak: number;
+  onBack: () => void;
+}
+
+const DIFFICULTY_STYLES: Record<Difficulty, { icon: React.ReactNode; bar: string }> = {
+  easy: { icon: <Zap size={16} className="text-green-400" />, bar: 'bg-green-500' },
+  medium: { icon: <Brain size={16} className="text-blue-400" />, bar: 'bg-blue-500' },
+  hard: { icon: <Hexagon size={16} className="text-purple-400" />, bar: 'bg-purple-500' },
+};
+
+const percent = (rate: number) => formatNumber(rate, { style: 'percent', maximumFractionDigits: 0 });
+
+const RateBar: React.FC<{ label: React.ReactNode; rate: WinRate; barClass: string }> = ({ label, rate, barClass }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm">
+      <span className="flex items-center gap-2 text-slate-200 font-semibold">{label}</span>
+      <span className="text-slate-400">{rate.played > 0 ? t('stats.rateOf', { rate: percent(rate.winRate), played: formatNumber(rate.played) }) : t('stats.noGames')}</span>
+    </div>
+    <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+      <div className={`h-full ${barClass} rounded-full transition-all duration-700`} style={{ width: `${Math.round(rate.winRate * 100)}%` }} />
+    </div>
+  </div>
+);
+
+const StatTile: React.FC<{ icon: React.ReactNode; label: string; value: string }> = ({ icon, label, value }) => (
+  <div className="bg-slate-800 rounded-xl p-4 border border-slate-700 flex flex-col items-center gap-1 text-center">
+    {icon}
+    <span className="text-2xl font-bold text-white">{value}</span>
+    <span className="text-xs uppercase tracking-wider text-slate-400">{label}</span>
+  </div>
+);
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ history, streak, onBack }) => {
+  const stats = useMemo(() => computeStats(history, streak), [history, streak]);
+  const maxHintCount = Math.max(1, ...stats.hintDistribution);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4 md:p-6 animate-in slide-in-from-right-4 rtl:slide-in-from-left-4 duration-500">
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8 bg-slate-800/80 p-4 rounded-2xl border border-slate-700 backdrop-blur-md shadow-xl">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-slate-300 hover:text-white transition-colors font-semibold"
+        >
+          <ArrowLeft size={20} className="rtl:rotate-180" /> {t('common.backToMenu')}
+        </button>
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <BarChart3 className="text-cyan-400" /> {t('stats.title')}
+        </h2>
+        <div className="w-24" />
+      </div>
+
+      {stats.played === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-slate-500 space-y-4">
+          <BarChart3 size={64} className="opacity-20" />
+          <p className="text-lg">{t('stats.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-6 pb-20">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <StatTile icon={<Trophy size={20} className="text-yellow-400" />} label={t('stats.played')} value={formatNumber(stats.played)} />
+            <StatTile icon={<Target size={20} className="text-green-400" />} label={t('stats.winRate')} value={percent(stats.winRate)} />
+            <StatTile
+              icon={<Timer size={20} className="text-cyan-400" />}
+              label={t('stats.averageSolve')}
+              value={stats.averageSolveMs !== null
+                ? t('duration.seconds', { seconds: formatNumber(stats.averageSolveMs / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })
+                : '–'}
+            />
+            <StatTile icon={<Flame size={20} className="text-orange-500" />} label={t('stats.currentStreak')} value={formatNumber(stats.currentStreak)} />
+            <StatTile icon={<Flame size={20} className="text-red-500" />} label={t('stats.bestStreak')} value={formatNumber(stats.longestStreak)} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-slate-800/60 rounded-2xl p-5 border border-slate-700 space-y-4">
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('stats.byDifficulty')}</h3>
+              {(Object.keys(DIFFICULTY_STYLES) as Difficulty[]).map(level => (
+                <RateBar
+                  key={level}
+                  label={<>{DIFFICULTY_STYLES[level].icon} {t(`difficulty.${level}`)}</>}
+                  rate={stats.byDifficulty[level]}
+                  barClass={DIFFICULTY_STYLES[level].bar}
+                />
+              ))}
+            </div>
+
+            <div className="bg-slate-800/60 rounded-2xl p-5 border border-slate-700 space-y-4">
+              <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('stats.byCategory')}</h3>
+              {stats.byCategory.map(category => (
+                <RateBar key={category.category} label={categoryLabel(category.category)} rate={category} barClass="bg-pink-500" />
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-slate-800/60 rounded-2xl p-5 border border-slate-700">
+            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">{t('stats.hintsPerRound')}</h3>
+            <div className="flex items-end gap-3 h-32">
+              {stats.hintDistribution.map((count, hints) => (
+                <div key={hints} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                  <span className="text-xs text-slate-300 font-bold">{formatNumber(count)}</span>
+                  <div className="w-full bg-amber-500/70 rounded-t" style={{ height: `${(count / maxHintCount) * 100}%` }} />
+                  <span className="text-xs text-slate-400 flex items-center gap-1"><Lightbulb size={10} /> {formatNumber(hints)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatsScreen;
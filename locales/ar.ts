@@ -0,0 +1,503 @@
+import type { Messages } from '../services/i18n';
+
+const ar: Messages = {
+  'common.backToMenu': "العودة إلى القائمة",
+  'common.cancel': "إلغاء",
+  'common.close': "إغلاق",
+  'common.save': "حفظ",
+  'common.saving': "جارٍ الحفظ...",
+  'common.playAgain': "العب مجددًا",
+  'common.share': "مشاركة",
+
+  'app.tagline': "لغز اليوم",
+  'app.footer': "من إنتاج Google Gemini 2.5 • نماذج Flash وFlash-Image",
+
+  'header.streak': "سلسلة الفوز الحالية",
+  'header.score': "نقاط الجلسة (الإجمالي: {total})",
+  'header.collection': "المجموعة",
+  'header.party': "وضع الحفلة",
+  'header.packs': "حزم الألغاز",
+  'header.stats': "الإحصاءات",
+  'header.mute': "كتم الأصوات",
+  'header.unmute': "تشغيل الأصوات",
+  'header.language': "اللغة",
+  'header.safety': "أمان المحتوى",
+
+  'home.title': "لغز اليوم",
+  'home.intro': "حوّل عناوين الأخبار الرائجة إلى ألغاز بصرية محيّرة.",
+  'home.introCta': "اختر مستوى الصعوبة وابدأ مغامرتك.",
+  'home.trending': "استكشف المواضيع الرائجة",
+  'home.manage': "إدارة",
+  'home.createOwn': "أو أنشئ لغزك الخاص",
+  'home.topicPlaceholder': "اكتب أي موضوع (مثل: المريخ، الرامن، الجاز...)",
+  'home.generate': "إنشاء لغز",
+  'home.review_zero': "لا توجد ألغاز سابقة",
+  'home.review_one': "راجع لغزك السابق",
+  'home.review_two': "راجع لغزيك السابقين",
+  'home.review_few': "راجع ألغازك السابقة الـ{count}",
+  'home.review_many': "راجع {count} لغزًا سابقًا",
+  'home.review_other': "راجع {count} لغز سابق",
+
+  'daily.day': "اليوم رقم {number}",
+  'daily.best': "أفضل سلسلة يومية: {best}",
+  'daily.streak_zero': "لا أيام متتالية",
+  'daily.streak_one': "يوم واحد متتالٍ",
+  'daily.streak_two': "يومان متتاليان",
+  'daily.streak_few': "{count} أيام متتالية",
+  'daily.streak_many': "{count} يومًا متتاليًا",
+  'daily.streak_other': "{count} يوم متتالٍ",
+  'daily.comeBack': "عد غدًا للغز جديد",
+  'daily.solved': "حُلّ اليوم · مراجعة",
+  'daily.missed': "فات اليوم · مراجعة",
+  'daily.play': "العب لغز اليوم",
+
+  'difficulty.easy': "سهل",
+  'difficulty.medium': "متوسط",
+  'difficulty.hard': "صعب",
+  'difficulty.adaptive': "تكيّفي",
+  'difficulty.adaptiveHint': "يطابق كل لغز مستوى مهارتك",
+
+  'timed.hint': "سابق الزمن: {seconds} ث لكل لغز، وكل تلميح يكلّف {cost} ث",
+  'timed.on': "تحدي الوقت مفعّل",
+  'timed.off': "تحدي الوقت متوقف",
+
+  'format.group': "نوع اللغز",
+  'format.multiple_choice': "اختيارات",
+  'format.true_false': "صح/خطأ",
+  'format.odd_one_out': "الدخيل",
+  'format.free_text': "اكتبها",
+  'format.anagram': "رتّب الحروف",
+
+  'prompt.multiple_choice': "اختر الإجابة الصحيحة بناءً على الصورة وسياق الخبر.",
+  'prompt.true_false': "هل هذه العبارة صحيحة أم خاطئة؟",
+  'prompt.odd_one_out': "اختر العنصر الذي لا ينتمي إلى البقية.",
+  'prompt.free_text': "اكتب إجابتك. تُقبل الكتابات القريبة والمرادفات.",
+  'prompt.anagram': "رتّب الحروف لتكوين الإجابة.",
+
+  'style.group': "نمط الصورة",
+  'style.auto': "اختيار النموذج",
+  'style.watercolor': "ألوان مائية",
+  'style.pixel_art': "فن البكسل",
+  'style.photoreal': "واقعي",
+  'style.line_art': "رسم خطي",
+
+  'round.partyTurn': "دور {name} · الجولة {round}/{rounds}",
+  'round.run': "التحدي {round}/{length} · {lives}",
+  'round.lives_zero': "لا أرواح",
+  'round.lives_one': "روح واحدة",
+  'round.lives_two': "روحان",
+  'round.lives_few': "{count} أرواح",
+  'round.lives_many': "{count} روحًا",
+  'round.lives_other': "{count} روح",
+  'next.runSummary': "عرض ملخص التحدي",
+  'next.scoreboard': "عرض لوحة النتائج",
+  'next.passTo': "مرّر إلى {name}",
+
+  'alert.exportFailed': "تعذّر تصدير مجموعتك.",
+  'alert.archiveUnreadable': "تعذّرت قراءة هذا الأرشيف.",
+  'alert.importFailed': "تعذّر استيراد هذا الأرشيف.",
+  'alert.packUnreadable': "تعذّر تحميل حزمة الألغاز هذه.",
+  'alert.packSaveFailed': "تعذّر حفظ حزمة الألغاز.",
+
+  'error.quota': "خدمة الألغاز مشغولة.",
+  'error.safety': "لا يمكن استخدام هذا الموضوع.",
+  'error.network': "مشكلة في الاتصال.",
+  'error.malformed': "خرج اللغز مشوّهًا.",
+  'error.timeout': "استغرق ذلك وقتًا طويلًا.",
+  'error.aborted': "أُلغي الطلب.",
+  'error.unknown': "عذرًا! حدث خطأ ما.",
+  'error.tryAgain': "حاول مجددًا",
+  'error.pickAnother': "اختر موضوعًا آخر",
+
+  'errorDetail.quota': "خدمة الألغاز مشغولة أو تجاوزت حصتها. انتظر قليلًا ثم حاول مجددًا.",
+  'errorDetail.safety': "حجبت مرشحات الأمان هذا الموضوع. جرّب موضوعًا آخر.",
+  'errorDetail.network': "تعذّر الوصول إلى خدمة الألغاز. تحقّق من اتصالك ثم حاول مجددًا.",
+  'errorDetail.malformed': "وصل اللغز مشوّهًا. لنحاول إنشاءه مرة أخرى.",
+  'errorDetail.timeout': "استغرقت خدمة الألغاز وقتًا طويلًا للرد.",
+  'errorDetail.aborted': "أُلغي الطلب.",
+  'errorDetail.unknown': "حدث خطأ غير متوقع.",
+  'errorDetail.noTrending': "تعذّر جلب الأخبار الرائجة. جرّب موضوعًا من اختيارك.",
+  'errorDetail.noImage': "تعذّر إنشاء صورة اللغز.",
+  'errorDetail.serverStatus': "ردّ خادم الألغاز بالرمز {status} على {path}.",
+
+  'archiveError.invalid': "هذا الملف ليس أرشيف NewsQuest صالحًا.",
+  'archiveError.newerVersion': "أُنشئ هذا الأرشيف بإصدار أحدث من NewsQuest (v{version}). يُرجى تحديث التطبيق.",
+  'archiveError.noHistory': "لا يحتوي الأرشيف على مجموعة ألغاز.",
+  'packError.missing': "لم تعد حزمة الألغاز هذه موجودة.",
+  'packError.invalid': "هذا الملف ليس حزمة ألغاز صالحة.",
+  'packError.newerVersion': "أُنشئت هذه الحزمة بإصدار أحدث من NewsQuest (v{version}). يُرجى تحديث التطبيق.",
+  'packError.empty': "لا تحتوي هذه الحزمة على ألغاز قابلة للعب.",
+  'feedError.empty': "الموجز فارغ.",
+  'feedError.noStories': "تعذّرت قراءة أي خبر من هذا الموجز.",
+  'feedError.status': "ردّ الموجز بالرمز {status}.",
+
+  'loading.searching': "نجوب العالم بحثًا عن الأخبار الرائجة...",
+  'loading.riddle': "نصوغ لغزًا ذكيًا...",
+  'loading.image': "نرسم الأدلة...",
+  'loading.default': "جارٍ التحميل...",
+  'loading.poweredBy': "مدعوم بـ Gemini 2.5 Flash",
+
+  'game.currentTopic': "الموضوع الحالي",
+  'game.roundTopic': "{round} · الموضوع الحالي",
+  'game.mysteryTopic': "موضوع غامض",
+  'game.secondsLeft_zero': "انتهى الوقت",
+  'game.secondsLeft_one': "تبقّت ثانية واحدة",
+  'game.secondsLeft_two': "تبقّت ثانيتان",
+  'game.secondsLeft_few': "تبقّت {count} ثوانٍ",
+  'game.secondsLeft_many': "تبقّت {count} ثانية",
+  'game.secondsLeft_other': "تبقّت {count} ثانية",
+  'game.pauseTimer': "إيقاف المؤقت مؤقتًا",
+  'game.resumeTimer': "استئناف المؤقت",
+  'game.pauseHint': "إيقاف مؤقت حتى تصل الصورة",
+  'game.paused': "متوقف مؤقتًا",
+  'game.resume': "استئناف",
+  'game.newGame': "لعبة جديدة",
+  'game.imageAlt': "دليل بصري للغز: {prompt}",
+  'game.imageAltLarge': "دليل بصري مكبّر: {prompt}",
+  'game.imageView': "عرض الصورة",
+  'game.maximizeImage': "تكبير الصورة",
+  'game.closeImage': "إغلاق الصورة",
+  'game.imageFailed': "تعذّر رسم الصورة هذه المرة. حُلّ اللغز بالكلمات وحدها!",
+  'game.imageVariants': "نسخ الصورة",
+  'game.showVariant': "عرض الصورة {number} ({style})",
+  'game.regenerateStyle': "نمط الصورة الجديدة",
+  'game.regenerateImage': "إعادة الرسم",
+  'game.regenerationsLeft_zero': "لا محاولات متبقية",
+  'game.regenerationsLeft_one': "محاولة واحدة متبقية",
+  'game.regenerationsLeft_two': "محاولتان متبقيتان",
+  'game.regenerationsLeft_few': "{count} محاولات متبقية",
+  'game.regenerationsLeft_many': "{count} محاولة متبقية",
+  'game.regenerationsLeft_other': "{count} محاولة متبقية",
+  'game.hint': "التلميح {number}: {hint}",
+  'game.revealHint': "اكشف التلميح {number}",
+  'game.hintCost': "يكلّف {seconds} ثوانٍ",
+  'game.true': "صح",
+  'game.false': "خطأ",
+  'game.correctAnswer': "إجابة صحيحة",
+  'game.incorrectAnswer': "إجابة خاطئة",
+  'game.outOfTime': "انتهى الوقت!",
+  'game.lockedIn': "تم تثبيت الإجابة!",
+  'game.noPeeking': "ممنوع النظر إلى النتائج حتى يلعب الجميع.",
+  'game.nextRiddle': "اللغز التالي",
+  'game.correct': "إجابة صحيحة!",
+  'game.niceTry': "محاولة جيدة!",
+  'game.timeLeft': "تبقّى {time} على المؤقت",
+  'game.funFact': "معلومة طريفة",
+  'game.readStory': "اقرأ الخبر",
+  'game.relatedNews': "اقرأ أخبارًا ذات صلة",
+  'game.saveToPack': "احفظ في حزمة ألغاز",
+  'game.report': "الإبلاغ عن هذا اللغز",
+  'game.reported': "تم الإبلاغ. سيتم تخطي الأخبار المشابهة",
+
+  'answer.placeholder': "اكتب إجابتك",
+  'answer.label': "إجابتك",
+  'answer.submit': "أجب",
+  'answer.was': "كانت الإجابة",
+  'letters.was': "كانت الكلمة",
+  'letters.previous': "المحاولات السابقة",
+  'letters.correct': "في مكانه الصحيح",
+  'letters.present': "في الكلمة، في مكان خاطئ",
+  'letters.absent': "ليس في الكلمة",
+  'letters.current': "المحاولة الحالية: {guess}",
+  'letters.empty': "فارغة",
+  'letters.bank': "الحروف",
+  'letters.remove': "احذف آخر حرف",
+  'letters.guess': "جرّب",
+  'letters.triesLeft_zero': "لا محاولات متبقية",
+  'letters.triesLeft_one': "محاولة واحدة متبقية",
+  'letters.triesLeft_two': "محاولتان متبقيتان",
+  'letters.triesLeft_few': "{count} محاولات متبقية",
+  'letters.triesLeft_many': "{count} محاولة متبقية",
+  'letters.triesLeft_other': "{count} محاولة متبقية",
+
+  'score.base': "النقاط الأساسية",
+  'score.hints': "التلميحات المستخدمة",
+  'score.speed': "مكافأة السرعة",
+  'score.streak': "مضاعف السلسلة",
+  'score.total': "النقاط المكتسبة",
+
+  'share.title': "لغز اليوم من NewsQuest",
+  'share.text': "🕵️ تحدي NewsQuest!\n\nالموضوع: {topic}\n\nاللغز: {question}\n\nهل تستطيع حلّه؟ #NewsQuest #DailyRiddle",
+  'share.button': "شارك اللغز",
+  'share.copiedHint': "نُسخ النص، وجارٍ تنزيل الصورة",
+  'share.copied': "نُسخ!",
+  'share.shared': "تمت المشاركة!",
+
+  'history.title': "المجموعة ({count})",
+  'history.saveToPack': "احفظ {count} في حزمة",
+  'history.select': "تحديد",
+  'history.selectHint': "حدّد ألغازًا لحزمة",
+  'history.export': "تصدير",
+  'history.exportHint': "تصدير المجموعة",
+  'history.import': "استيراد",
+  'history.importHint': "استيراد مجموعة",
+  'history.limitLabel': "الحد الأقصى لحجم المجموعة",
+  'history.confirmLimit': "سيُحتفظ بأحدث {limit} لغزًا فقط. هل تريد المتابعة؟",
+  'history.keepAll': "الاحتفاظ بالكل",
+  'history.keep': "الاحتفاظ بـ{limit}",
+  'history.seenLabel': "تخطّ الأخبار التي شوهدت مؤخرًا",
+  'history.seenHint': "تتجنب الألغاز الرائجة الأخبار التي شاهدتها خلال هذه المدة",
+  'history.noRepeats_zero': "بلا تكرار",
+  'history.noRepeats_one': "بلا تكرار ليوم واحد",
+  'history.noRepeats_two': "بلا تكرار ليومين",
+  'history.noRepeats_few': "بلا تكرار لمدة {count} أيام",
+  'history.noRepeats_many': "بلا تكرار لمدة {count} يومًا",
+  'history.noRepeats_other': "بلا تكرار لمدة {count} يوم",
+  'history.confirmClear': "هل تريد بالتأكيد مسح مجموعتك؟",
+  'history.clear': "مسح",
+  'history.ownerLabel': "مجموعة من",
+  'history.mine': "مجموعتي",
+  'history.playerCollection': "مجموعة {name}",
+  'history.filterAll': "الكل",
+  'history.filterSolved': "المحلولة",
+  'history.filterFailed': "الفائتة",
+  'history.empty': "لم تلعب أي لغز بعد.",
+  'history.noMatch': "لا توجد ألغاز تطابق هذا الفلتر.",
+  'history.startPlaying': "ابدأ اللعب",
+  'history.noImage': "لا توجد صورة",
+  'history.moreOptions': "خيارات أخرى",
+  'history.solved': "محلول",
+  'history.missed': "فائت",
+  'history.hintsRevealed': "التلميحات المكشوفة",
+  'history.timeTaken': "الوقت المستغرق",
+  'history.timed': "تحدي الوقت",
+  'history.timeLeft': "تبقّى {time}",
+  'history.outOfTime': "انتهى الوقت",
+  'history.yourAnswer': "إجابتك: {answer}",
+  'history.noAnswer': "بلا إجابة",
+  'history.answer': "الإجابة: {answer}",
+  'history.readStory': "اقرأ الخبر · {publisher}",
+  'history.saveForLater': "احفظ لوقت لاحق",
+  'history.viewRelated': "عرض أخبار ذات صلة",
+  'history.shareTitle': "لغز من NewsQuest",
+  'history.shareText': "{question}\n\nالإجابة: {answer}",
+  'history.shareUnsupported': "المشاركة غير مدعومة على هذا الجهاز. نُسخت التفاصيل إلى الحافظة!",
+  'history.copyText': "الموضوع: {topic}\nس: {question}\nج: {answer}\nمعلومة: {fact}",
+
+  'stats.title': "الإحصاءات",
+  'stats.empty': "العب بعض الألغاز لترى إحصاءاتك.",
+  'stats.played': "الألغاز الملعوبة",
+  'stats.winRate': "نسبة الفوز",
+  'stats.averageSolve': "متوسط الحل",
+  'stats.currentStreak': "السلسلة الحالية",
+  'stats.bestStreak': "أفضل سلسلة",
+  'stats.byDifficulty': "نسبة الفوز حسب الصعوبة",
+  'stats.byCategory': "نسبة الفوز حسب الفئة",
+  'stats.hintsPerRound': "التلميحات المستخدمة في كل جولة",
+  'stats.rateOf': "{rate} من {played}",
+  'stats.noGames': "لا ألعاب",
+
+  'category.world': "أخبار العالم",
+  'category.tech': "التكنولوجيا",
+  'category.sports': "الرياضة",
+  'category.entertainment': "الترفيه",
+  'category.daily': "اليومي",
+  'category.custom': "مخصص",
+
+  'categories.manage': "إدارة الفئات",
+  'categories.title': "فئات المواضيع",
+  'categories.new': "فئة جديدة",
+  'categories.edit': "تعديل الفئة",
+  'categories.empty': "لا توجد فئات بعد. ستختار الجولات الرائجة أي موضوع.",
+  'categories.moveUp': "نقل {name} لأعلى",
+  'categories.moveDown': "نقل {name} لأسفل",
+  'categories.editNamed': "تعديل {name}",
+  'categories.delete': "حذف {name}",
+  'categories.confirmDelete': "حذف فئة \"{name}\"؟",
+  'categories.add': "إضافة فئة",
+  'categories.name': "الاسم",
+  'categories.namePlaceholder': "الاسم، مثل الفضاء",
+  'categories.icon': "الأيقونة",
+  'categories.keywords': "الكلمات المفتاحية",
+  'categories.keywordsPlaceholder': "كلمات البحث، مفصولة بفواصل",
+  'categories.region': "المنطقة",
+  'categories.regionPlaceholder': "المنطقة، مثل برلين",
+  'categories.language': "اللغة",
+  'categories.languagePlaceholder': "اللغة، مثل الألمانية",
+  'categories.exclude': "الاستثناءات",
+  'categories.excludePlaceholder': "ما يُستبعد، مفصولًا بفواصل",
+  'categories.nameMissing': "أعطِ الفئة اسمًا.",
+  'categories.nameTooLong': "اجعل الاسم أقل من {max} حرفًا.",
+  'categories.nameTaken': "توجد فئة أخرى بهذا الاسم.",
+
+  'categoryIcon.globe': "كرة أرضية",
+  'categoryIcon.cpu': "شريحة",
+  'categoryIcon.trophy': "كأس",
+  'categoryIcon.film': "فيلم",
+  'categoryIcon.rocket': "صاروخ",
+  'categoryIcon.flask': "دورق",
+  'categoryIcon.leaf': "ورقة شجر",
+  'categoryIcon.music': "موسيقى",
+  'categoryIcon.landmark': "معلم",
+  'categoryIcon.heart': "قلب",
+  'categoryIcon.map-pin': "دبوس خريطة",
+  'categoryIcon.newspaper': "صحيفة",
+
+  'run.title': "تحدي المهمة",
+  'run.livesPerRun_zero': "بلا أرواح في التحدي",
+  'run.livesPerRun_one': "روح واحدة في كل تحدٍّ",
+  'run.livesPerRun_two': "روحان في كل تحدٍّ",
+  'run.livesPerRun_few': "{count} أرواح في كل تحدٍّ",
+  'run.livesPerRun_many': "{count} روحًا في كل تحدٍّ",
+  'run.livesPerRun_other': "{count} روح في كل تحدٍّ",
+  'run.category': "فئة التحدي",
+  'run.anyCategory': "أي فئة",
+  'run.anyTopic': "أي موضوع",
+  'run.length': "طول التحدي",
+  'run.riddles_zero': "لا ألغاز",
+  'run.riddles_one': "لغز واحد",
+  'run.riddles_two': "لغزان",
+  'run.riddles_few': "{count} ألغاز",
+  'run.riddles_many': "{count} لغزًا",
+  'run.riddles_other': "{count} لغز",
+  'run.endless': "حتى نفاد الأرواح",
+  'run.endlessShort': "بلا نهاية",
+  'run.start': "ابدأ التحدي ({difficulty})",
+  'run.best': "أفضل تحدٍّ:",
+  'run.bestDetail': "نقطة · {solved}/{played} محلولة",
+
+  'runSummary.title': "انتهى التحدي",
+  'runSummary.newBest': "أفضل تحدٍّ جديد!",
+  'runSummary.points': "النقاط",
+  'runSummary.solved': "المحلولة",
+  'runSummary.livesLeft': "الأرواح المتبقية",
+  'runSummary.rounds': "الجولات",
+  'runSummary.bestRuns': "أفضل التحديات",
+  'runSummary.notRanked': "لم يدخل هذا التحدي ضمن أفضل {count}. واصل المحاولة!",
+
+  'skill.title': "تقييم المهارة",
+  'skill.calibrate': "العب بضع جولات لمعايرته.",
+  'skill.next': "اللغز التالي:",
+  'skill.distractors.distinct': "خيارات متباينة",
+  'skill.distractors.plausible': "خيارات معقولة",
+  'skill.distractors.close': "خيارات متقاربة",
+  'skill.change': "التغيّر خلال آخر 10 جولات",
+
+  'party.title': "وضع الحفلة",
+  'party.players': "اللاعبون",
+  'party.needPlayers_zero': "أضف لاعبين للبدء.",
+  'party.needPlayers_one': "أضف لاعبًا واحدًا على الأقل للبدء.",
+  'party.needPlayers_two': "أضف لاعبَين على الأقل للبدء.",
+  'party.needPlayers_few': "أضف {count} لاعبين على الأقل للبدء.",
+  'party.needPlayers_many': "أضف {count} لاعبًا على الأقل للبدء.",
+  'party.needPlayers_other': "أضف {count} لاعب على الأقل للبدء.",
+  'party.include': "أضف {name} إلى هذه اللعبة",
+  'party.sitOut': "استبعد {name} من هذه اللعبة",
+  'party.confirmRemove': "حذف {name} ومجموعته؟",
+  'party.remove': "حذف {name}",
+  'party.namePlaceholder': "اسم اللاعب",
+  'party.add': "إضافة",
+  'party.nameTaken': "هذا الاسم موجود في القائمة بالفعل.",
+  'party.rounds': "الجولات",
+  'party.roundCount_zero': "بلا جولات",
+  'party.roundCount_one': "جولة واحدة",
+  'party.roundCount_two': "جولتان",
+  'party.roundCount_few': "{count} جولات",
+  'party.roundCount_many': "{count} جولة",
+  'party.roundCount_other': "{count} جولة",
+  'party.playerCount_zero': "بلا لاعبين",
+  'party.playerCount_one': "لاعب واحد",
+  'party.playerCount_two': "لاعبان",
+  'party.playerCount_few': "{count} لاعبين",
+  'party.playerCount_many': "{count} لاعبًا",
+  'party.playerCount_other': "{count} لاعب",
+  'party.start': "ابدأ الحفلة ({difficulty}، {players})",
+  'party.unknownPlayer': "غير معروف",
+  'party.end': "إنهاء الحفلة",
+  'party.finalScoreboard': "لوحة النتائج النهائية",
+  'party.roundOf': "الجولة {round} من {rounds}",
+  'party.wins': "فاز {name}!",
+  'party.bestStreak': "أفضل سلسلة",
+  'party.lastRound': "الجولة الأخيرة",
+  'party.nextRound': "الجولة التالية: يبدأ {name}",
+
+  'turnStyle.turns': "بالتناوب",
+  'turnStyle.turnsHint': "يحصل كل لاعب على لغزه الخاص.",
+  'turnStyle.race': "سباق",
+  'turnStyle.raceHint': "يجيب الجميع عن اللغز نفسه، واحدًا تلو الآخر.",
+
+  'feed.url': "رابط الموجز",
+  'feed.urlPlaceholder': "رابط الموجز (RSS أو Atom)",
+  'feed.load': "تحميل",
+  'feed.openFile': "افتح ملف موجز",
+  'feed.unreadable': "تعذّرت قراءة هذا الموجز.",
+  'feed.stories_zero': "لا أخبار",
+  'feed.stories_one': "خبر واحد",
+  'feed.stories_two': "خبران",
+  'feed.stories_few': "{count} أخبار",
+  'feed.stories_many': "{count} خبرًا",
+  'feed.stories_other': "{count} خبر",
+  'feed.pick': "اختر لي",
+  'feed.pickHint': "العب أحدث خبر لم تره",
+  'feed.close': "إغلاق الموجز",
+
+  'import.preview': "معاينة الاستيراد",
+  'import.title': "استيراد المجموعة",
+  'import.cancel': "إلغاء الاستيراد",
+  'import.exportedOn': "صُدّرت في {date}.",
+  'import.newRiddles_zero': "لن يُضاف أي لغز جديد.",
+  'import.newRiddles_one': "سيُضاف لغز جديد واحد.",
+  'import.newRiddles_two': "سيُضاف لغزان جديدان.",
+  'import.newRiddles_few': "ستُضاف {count} ألغاز جديدة.",
+  'import.newRiddles_many': "سيُضاف {count} لغزًا جديدًا.",
+  'import.newRiddles_other': "سيُضاف {count} لغز جديد.",
+  'import.duplicates_zero': "لن يُتخطّى أي لغز.",
+  'import.duplicates_one': "سيُتخطّى لغز واحد موجود في مجموعتك.",
+  'import.duplicates_two': "سيُتخطّى لغزان موجودان في مجموعتك.",
+  'import.duplicates_few': "ستُتخطّى {count} ألغاز موجودة في مجموعتك.",
+  'import.duplicates_many': "سيُتخطّى {count} لغزًا موجودًا في مجموعتك.",
+  'import.duplicates_other': "سيُتخطّى {count} لغز موجود في مجموعتك.",
+  'import.mergeNote': "تُدمج النقاط والسلاسل مع الاحتفاظ بالقيم الأعلى.",
+  'import.importing': "جارٍ الاستيراد...",
+
+  'packs.title': "حزم الألغاز",
+  'packs.load': "تحميل حزمة",
+  'packs.empty': "لا توجد حزم ألغاز بعد.",
+  'packs.emptyHint': "احفظ لغزًا من لوحة النتيجة أو حدّد ألغازًا من مجموعتك لبناء حزمة، أو حمّل ملف حزمة.",
+  'packs.riddles_zero': "لا ألغاز",
+  'packs.riddles_one': "لغز واحد",
+  'packs.riddles_two': "لغزان",
+  'packs.riddles_few': "{count} ألغاز",
+  'packs.riddles_many': "{count} لغزًا",
+  'packs.riddles_other': "{count} لغز",
+  'packs.solved': "{solved}/{played} محلولة",
+  'packs.play': "العب",
+  'packs.continue': "تابع ({next}/{total})",
+  'packs.export': "احفظ الحزمة في ملف",
+  'packs.delete': "حذف الحزمة",
+  'packs.confirmDelete': "حذف حزمة \"{name}\"؟",
+  'packs.saveRiddles_zero': "لا ألغاز للحفظ",
+  'packs.saveRiddles_one': "احفظ لغزًا واحدًا في حزمة",
+  'packs.saveRiddles_two': "احفظ لغزين في حزمة",
+  'packs.saveRiddles_few': "احفظ {count} ألغاز في حزمة",
+  'packs.saveRiddles_many': "احفظ {count} لغزًا في حزمة",
+  'packs.saveRiddles_other': "احفظ {count} لغز في حزمة",
+  'packs.newName': "اسم الحزمة الجديدة",
+  'packs.importedName': "حزمة مستوردة",
+  'packs.untitled': "حزمة بلا عنوان",
+
+  'safety.title': "أمان المحتوى",
+  'safety.close': "إغلاق",
+  'safety.profile': "مستوى الحساسية",
+  'safety.kids': "الأطفال",
+  'safety.kidsHint': "يتخطى العنف والجرائم والكوارث وغيرها من الأخبار المزعجة.",
+  'safety.general': "عام",
+  'safety.generalHint': "يتخطى الأخبار الصادمة أو المؤلمة.",
+  'safety.adult': "البالغون",
+  'safety.adultHint': "تُطبَّق كلماتك المحظورة فقط.",
+  'safety.blocklist': "الكلمات المحظورة",
+  'safety.blocklistPlaceholder': "مثل: الانتخابات، العناكب",
+  'safety.blocklistHint': "يتم تخطي الأخبار والألغاز التي تذكر هذه الكلمات أو العبارات. افصل بينها بفواصل أو بأسطر جديدة.",
+  'safety.reports': "الألغاز المُبلَّغ عنها",
+  'safety.noReports': "لم يتم الإبلاغ عن أي شيء بعد.",
+  'safety.unreport': "السماح بهذا الخبر مجددًا",
+  'safety.save': "حفظ",
+  'safety.topicBlocked': "يذكر الخبر \"{term}\"، وهو ما تحجبه إعدادات الأمان لديك.",
+  'safety.topicReported': "أبلغتَ عن لغز حول خبر مشابه.",
+  'safety.riddleBlocked': "يذكر اللغز \"{term}\"، وهو ما تحجبه إعدادات الأمان لديك.",
+
+  'duration.seconds': "{seconds} ث",
+  'duration.minutes': "{minutes} د {seconds} ث",
+};
+
+export default ar;
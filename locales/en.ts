@@ -0,0 +1,437 @@
+// Source catalog: every other language must provide the same keys.
+// Placeholders are written {name}; keys ending in _one/_other are picked by count (see tn in services/i18n.ts).
+const en = {
+  'common.backToMenu': "Back to Menu",
+  'common.cancel': "Cancel",
+  'common.close': "Close",
+  'common.save': "Save",
+  'common.saving': "Saving...",
+  'common.playAgain': "Play Again",
+  'common.share': "Share",
+
+  'app.tagline': "Daily Riddle",
+  'app.footer': "Generated by Google Gemini 2.5 • Flash & Flash-Image Models",
+
+  'header.streak': "Current Winning Streak",
+  'header.score': "Session score (all-time: {total})",
+  'header.collection': "Collection",
+  'header.party': "Party Mode",
+  'header.packs': "Riddle Packs",
+  'header.stats': "Statistics",
+  'header.mute': "Mute sounds",
+  'header.unmute': "Unmute sounds",
+  'header.language': "Language",
+  'header.safety': "Content safety",
+
+  'home.title': "The Daily Riddle",
+  'home.intro': "Turn trending headlines into mind-bending visual puzzles.",
+  'home.introCta': "Choose a difficulty and start your quest.",
+  'home.trending': "Explore Trending Topics",
+  'home.manage': "Manage",
+  'home.createOwn': "Or Create Your Own",
+  'home.topicPlaceholder': "Enter any topic (e.g., Mars, Ramen, Jazz...)",
+  'home.generate': "Generate Riddle",
+  'home.review_one': "Review your {count} past riddle",
+  'home.review_other': "Review your {count} past riddles",
+
+  'daily.day': "Day #{number}",
+  'daily.best': "Best daily streak: {best}",
+  'daily.streak_one': "{count} day in a row",
+  'daily.streak_other': "{count} days in a row",
+  'daily.comeBack': "Come back tomorrow for a new puzzle",
+  'daily.solved': "Solved today · Review",
+  'daily.missed': "Missed today · Review",
+  'daily.play': "Play Today's Riddle",
+
+  'difficulty.easy': "Easy",
+  'difficulty.medium': "Medium",
+  'difficulty.hard': "Hard",
+  'difficulty.adaptive': "Adaptive",
+  'difficulty.adaptiveHint': "Matches each riddle to your skill rating",
+
+  'timed.hint': "Race the clock: {seconds}s per riddle, each hint costs {cost}s",
+  'timed.on': "Timed Challenge On",
+  'timed.off': "Timed Challenge Off",
+
+  'format.group': "Riddle format",
+  'format.multiple_choice': "Choices",
+  'format.true_false': "True/False",
+  'format.odd_one_out': "Odd One Out",
+  'format.free_text': "Type It",
+  'format.anagram': "Unscramble",
+
+  'prompt.multiple_choice': "Select the correct answer based on the image and news context.",
+  'prompt.true_false': "Is this statement true or false?",
+  'prompt.odd_one_out': "Pick the one that doesn't belong.",
+  'prompt.free_text': "Type your answer. Close spellings and synonyms count.",
+  'prompt.anagram': "Unscramble the letters to spell the answer.",
+
+  'style.group': "Image style",
+  'style.auto': "Model's choice",
+  'style.watercolor': "Watercolor",
+  'style.pixel_art': "Pixel Art",
+  'style.photoreal': "Photoreal",
+  'style.line_art': "Line Art",
+
+  'round.partyTurn': "{name}'s turn · Round {round}/{rounds}",
+  'round.run': "Run {round}/{length} · {lives}",
+  'round.lives_one': "{count} life",
+  'round.lives_other': "{count} lives",
+  'next.runSummary': "See Run Summary",
+  'next.scoreboard': "See Scoreboard",
+  'next.passTo': "Pass to {name}",
+
+  'alert.exportFailed': "Could not export your collection.",
+  'alert.archiveUnreadable': "Could not read this archive.",
+  'alert.importFailed': "Could not import this archive.",
+  'alert.packUnreadable': "Could not load this riddle pack.",
+  'alert.packSaveFailed': "Could not save the riddle pack.",
+
+  'error.quota': "The riddle service is busy.",
+  'error.safety': "That topic can't be used.",
+  'error.network': "Connection problem.",
+  'error.malformed': "The riddle came out garbled.",
+  'error.timeout': "That took too long.",
+  'error.aborted': "Request cancelled.",
+  'error.unknown': "Oops! Something went wrong.",
+  'error.tryAgain': "Try Again",
+  'error.pickAnother': "Pick Another Topic",
+
+  'errorDetail.quota': "The riddle service is busy or out of quota. Please wait a moment and try again.",
+  'errorDetail.safety': "That topic was blocked by content safety filters. Try a different one.",
+  'errorDetail.network': "Could not reach the riddle service. Check your connection and try again.",
+  'errorDetail.malformed': "The riddle came back garbled. Let's try generating it again.",
+  'errorDetail.timeout': "The riddle service took too long to answer.",
+  'errorDetail.aborted': "The request was cancelled.",
+  'errorDetail.unknown': "An unexpected error occurred.",
+  'errorDetail.noTrending': "Could not fetch trending news. Please try a manual topic.",
+  'errorDetail.noImage': "Failed to generate the riddle image.",
+  'errorDetail.serverStatus': "Riddle server responded with {status} for {path}.",
+
+  'archiveError.invalid': "This file is not a valid NewsQuest archive.",
+  'archiveError.newerVersion': "This archive was made by a newer version of NewsQuest (v{version}). Please update the app.",
+  'archiveError.noHistory': "The archive has no riddle collection.",
+  'packError.missing': "That riddle pack no longer exists.",
+  'packError.invalid': "This file is not a valid riddle pack.",
+  'packError.newerVersion': "This pack was made by a newer version of NewsQuest (v{version}). Please update the app.",
+  'packError.empty': "This pack does not contain any playable riddles.",
+  'feedError.empty': "The feed is empty.",
+  'feedError.noStories': "No stories could be read from this feed.",
+  'feedError.status': "The feed responded with {status}.",
+
+  'loading.searching': "Scouring the globe for trending news...",
+  'loading.riddle': "Crafting a clever riddle...",
+  'loading.image': "Painting the clues...",
+  'loading.default': "Loading...",
+  'loading.poweredBy': "Powered by Gemini 2.5 Flash",
+
+  'game.currentTopic': "Current Topic",
+  'game.roundTopic': "{round} · Current Topic",
+  'game.mysteryTopic': "Mystery Topic",
+  'game.secondsLeft_one': "{count} second left",
+  'game.secondsLeft_other': "{count} seconds left",
+  'game.pauseTimer': "Pause timer",
+  'game.resumeTimer': "Resume timer",
+  'game.pauseHint': "Pause until the picture arrives",
+  'game.paused': "Paused",
+  'game.resume': "Resume",
+  'game.newGame': "New Game",
+  'game.imageAlt': "Visual riddle clue: {prompt}",
+  'game.imageAltLarge': "Enlarged visual riddle clue: {prompt}",
+  'game.imageView': "Image view",
+  'game.maximizeImage': "Maximize image",
+  'game.closeImage': "Close image",
+  'game.imageFailed': "The picture couldn't be painted this time. Solve it from the words alone!",
+  'game.imageVariants': "Image variants",
+  'game.showVariant': "Show picture {number} ({style})",
+  'game.regenerateStyle': "Style for the new picture",
+  'game.regenerateImage': "Regenerate",
+  'game.regenerationsLeft_one': "{count} left",
+  'game.regenerationsLeft_other': "{count} left",
+  'game.hint': "Hint {number}: {hint}",
+  'game.revealHint': "Reveal Hint {number}",
+  'game.hintCost': "Costs {seconds} seconds",
+  'game.true': "True",
+  'game.false': "False",
+  'game.correctAnswer': "Correct answer",
+  'game.incorrectAnswer': "Incorrect answer",
+  'game.outOfTime': "Out of time!",
+  'game.lockedIn': "Answer locked in!",
+  'game.noPeeking': "No peeking at the results until everyone has had a go.",
+  'game.nextRiddle': "Next Riddle",
+  'game.correct': "Correct!",
+  'game.niceTry': "Nice try!",
+  'game.timeLeft': "{time} left on the clock",
+  'game.funFact': "Fun Fact",
+  'game.readStory': "Read the story",
+  'game.relatedNews': "Read related news",
+  'game.saveToPack': "Save to a riddle pack",
+  'game.report': "Report this riddle",
+  'game.reported': "Reported. Similar stories will be skipped",
+
+  'answer.placeholder': "Type your answer",
+  'answer.label': "Your answer",
+  'answer.submit': "Answer",
+  'answer.was': "The answer was",
+  'letters.was': "The word was",
+  'letters.previous': "Previous guesses",
+  'letters.correct': "in the right spot",
+  'letters.present': "in the word, wrong spot",
+  'letters.absent': "not in the word",
+  'letters.current': "Current guess: {guess}",
+  'letters.empty': "empty",
+  'letters.bank': "Letters",
+  'letters.remove': "Remove last letter",
+  'letters.guess': "Guess",
+  'letters.triesLeft_one': "{count} try left",
+  'letters.triesLeft_other': "{count} tries left",
+
+  'score.base': "Base points",
+  'score.hints': "Hints used",
+  'score.speed': "Speed bonus",
+  'score.streak': "Streak multiplier",
+  'score.total': "Points earned",
+
+  'share.title': "NewsQuest Daily Riddle",
+  'share.text': "🕵️ NewsQuest Challenge!\n\nTopic: {topic}\n\nRiddle: {question}\n\nCan you solve it? #NewsQuest #DailyRiddle",
+  'share.button': "Share Riddle",
+  'share.copiedHint': "Text Copied, Image Downloading",
+  'share.copied': "Copied!",
+  'share.shared': "Shared!",
+
+  'history.title': "Collection ({count})",
+  'history.saveToPack': "Save {count} to pack",
+  'history.select': "Select",
+  'history.selectHint': "Select riddles for a pack",
+  'history.export': "Export",
+  'history.exportHint': "Export collection",
+  'history.import': "Import",
+  'history.importHint': "Import collection",
+  'history.limitLabel': "Collection size limit",
+  'history.confirmLimit': "Only the newest {limit} riddles will be kept. Continue?",
+  'history.keepAll': "Keep all",
+  'history.keep': "Keep {limit}",
+  'history.seenLabel': "Skip stories seen recently",
+  'history.seenHint': "Trending riddles avoid stories you have seen within this window",
+  'history.noRepeats_one': "No repeats for {count} day",
+  'history.noRepeats_other': "No repeats for {count} days",
+  'history.confirmClear': "Are you sure you want to clear your collection?",
+  'history.clear': "Clear",
+  'history.ownerLabel': "Whose collection",
+  'history.mine': "My collection",
+  'history.playerCollection': "{name}'s collection",
+  'history.filterAll': "All",
+  'history.filterSolved': "Solved",
+  'history.filterFailed': "Missed",
+  'history.empty': "No riddles played yet.",
+  'history.noMatch': "No riddles match this filter.",
+  'history.startPlaying': "Start Playing",
+  'history.noImage': "No image",
+  'history.moreOptions': "More options",
+  'history.solved': "Solved",
+  'history.missed': "Missed",
+  'history.hintsRevealed': "Hints revealed",
+  'history.timeTaken': "Time taken",
+  'history.timed': "Timed challenge",
+  'history.timeLeft': "{time} left",
+  'history.outOfTime': "Out of time",
+  'history.yourAnswer': "Your answer: {answer}",
+  'history.noAnswer': "No answer",
+  'history.answer': "Answer: {answer}",
+  'history.readStory': "Read the story · {publisher}",
+  'history.saveForLater': "Save for later",
+  'history.viewRelated': "View related news",
+  'history.shareTitle': "NewsQuest Riddle",
+  'history.shareText': "{question}\n\nAnswer: {answer}",
+  'history.shareUnsupported': "Sharing not supported on this device. Details copied to clipboard!",
+  'history.copyText': "Topic: {topic}\nQ: {question}\nA: {answer}\nFact: {fact}",
+
+  'stats.title': "Statistics",
+  'stats.empty': "Play a few riddles to see your stats.",
+  'stats.played': "Played",
+  'stats.winRate': "Win Rate",
+  'stats.averageSolve': "Avg Solve",
+  'stats.currentStreak': "Current Streak",
+  'stats.bestStreak': "Best Streak",
+  'stats.byDifficulty': "Win Rate by Difficulty",
+  'stats.byCategory': "Win Rate by Category",
+  'stats.hintsPerRound': "Hints Used per Round",
+  'stats.rateOf': "{rate} of {played}",
+  'stats.noGames': "No games",
+
+  'category.world': "World News",
+  'category.tech': "Technology",
+  'category.sports': "Sports",
+  'category.entertainment': "Entertainment",
+  'category.daily': "Daily",
+  'category.custom': "Custom",
+
+  'categories.manage': "Manage categories",
+  'categories.title': "Topic Categories",
+  'categories.new': "New Category",
+  'categories.edit': "Edit Category",
+  'categories.empty': "No categories yet. Trending rounds will pick any topic.",
+  'categories.moveUp': "Move {name} up",
+  'categories.moveDown': "Move {name} down",
+  'categories.editNamed': "Edit {name}",
+  'categories.delete': "Delete {name}",
+  'categories.confirmDelete': "Delete the \"{name}\" category?",
+  'categories.add': "Add Category",
+  'categories.name': "Name",
+  'categories.namePlaceholder': "Name, e.g. Space",
+  'categories.icon': "Icon",
+  'categories.keywords': "Keywords",
+  'categories.keywordsPlaceholder': "Search keywords, comma separated",
+  'categories.region': "Region",
+  'categories.regionPlaceholder': "Region, e.g. Berlin",
+  'categories.language': "Language",
+  'categories.languagePlaceholder': "Language, e.g. German",
+  'categories.exclude': "Exclusions",
+  'categories.excludePlaceholder': "Leave out, comma separated",
+  'categories.nameMissing': "Give the category a name.",
+  'categories.nameTooLong': "Keep the name under {max} characters.",
+  'categories.nameTaken': "Another category already has that name.",
+
+  'categoryIcon.globe': "Globe",
+  'categoryIcon.cpu': "Chip",
+  'categoryIcon.trophy': "Trophy",
+  'categoryIcon.film': "Film",
+  'categoryIcon.rocket': "Rocket",
+  'categoryIcon.flask': "Flask",
+  'categoryIcon.leaf': "Leaf",
+  'categoryIcon.music': "Music",
+  'categoryIcon.landmark': "Landmark",
+  'categoryIcon.heart': "Heart",
+  'categoryIcon.map-pin': "Map pin",
+  'categoryIcon.newspaper': "Newspaper",
+
+  'run.title': "Quest Run",
+  'run.livesPerRun_one': "{count} life per run",
+  'run.livesPerRun_other': "{count} lives per run",
+  'run.category': "Run category",
+  'run.anyCategory': "Any",
+  'run.anyTopic': "Any topic",
+  'run.length': "Run length",
+  'run.riddles_one': "{count} riddle",
+  'run.riddles_other': "{count} riddles",
+  'run.endless': "Until out of lives",
+  'run.endlessShort': "Endless",
+  'run.start': "Start {difficulty} Run",
+  'run.best': "Best run:",
+  'run.bestDetail': "pts · {solved}/{played} solved",
+
+  'runSummary.title': "Run Complete",
+  'runSummary.newBest': "New best run!",
+  'runSummary.points': "Points",
+  'runSummary.solved': "Solved",
+  'runSummary.livesLeft': "Lives Left",
+  'runSummary.rounds': "Rounds",
+  'runSummary.bestRuns': "Best Runs",
+  'runSummary.notRanked': "This run didn't make the top {count}. Keep trying!",
+
+  'skill.title': "Skill Rating",
+  'skill.calibrate': "Play a few rounds to calibrate.",
+  'skill.next': "Next riddle:",
+  'skill.distractors.distinct': "distinct choices",
+  'skill.distractors.plausible': "plausible choices",
+  'skill.distractors.close': "close choices",
+  'skill.change': "Change over the last 10 rounds",
+
+  'party.title': "Party Mode",
+  'party.players': "Players",
+  'party.needPlayers_one': "Add at least {count} player to start.",
+  'party.needPlayers_other': "Add at least {count} players to start.",
+  'party.include': "Add {name} to this game",
+  'party.sitOut': "Sit {name} out",
+  'party.confirmRemove': "Remove {name} and their collection?",
+  'party.remove': "Remove {name}",
+  'party.namePlaceholder': "Player name",
+  'party.add': "Add",
+  'party.nameTaken': "That name is already on the roster.",
+  'party.rounds': "Rounds",
+  'party.roundCount_one': "{count} round",
+  'party.roundCount_other': "{count} rounds",
+  'party.playerCount_one': "{count} player",
+  'party.playerCount_other': "{count} players",
+  'party.start': "Start {difficulty} Party ({players})",
+  'party.unknownPlayer': "Unknown",
+  'party.end': "End Party",
+  'party.finalScoreboard': "Final Scoreboard",
+  'party.roundOf': "Round {round} of {rounds}",
+  'party.wins': "{name} wins!",
+  'party.bestStreak': "Best streak",
+  'party.lastRound': "Last Round",
+  'party.nextRound': "Next Round: {name} starts",
+
+  'turnStyle.turns': "Take Turns",
+  'turnStyle.turnsHint': "Each player gets their own riddle.",
+  'turnStyle.race': "Race",
+  'turnStyle.raceHint': "Everyone answers the same riddle, one after another.",
+
+  'feed.url': "Feed URL",
+  'feed.urlPlaceholder': "Feed URL (RSS or Atom)",
+  'feed.load': "Load",
+  'feed.openFile': "Open a feed file",
+  'feed.unreadable': "Could not read this feed.",
+  'feed.stories_one': "{count} story",
+  'feed.stories_other': "{count} stories",
+  'feed.pick': "Pick for me",
+  'feed.pickHint': "Play the newest story you haven't seen",
+  'feed.close': "Close feed",
+
+  'import.preview': "Import preview",
+  'import.title': "Import Collection",
+  'import.cancel': "Cancel import",
+  'import.exportedOn': "Exported on {date}.",
+  'import.newRiddles_one': "{count} new riddle will be added.",
+  'import.newRiddles_other': "{count} new riddles will be added.",
+  'import.duplicates_one': "{count} already in your collection will be skipped.",
+  'import.duplicates_other': "{count} already in your collection will be skipped.",
+  'import.mergeNote': "Scores and streaks are merged, keeping the higher values.",
+  'import.importing': "Importing...",
+
+  'packs.title': "Riddle Packs",
+  'packs.load': "Load Pack",
+  'packs.empty': "No riddle packs yet.",
+  'packs.emptyHint': "Save a riddle from the result panel or select riddles in your collection to build a pack, or load a pack file.",
+  'packs.riddles_one': "{count} riddle",
+  'packs.riddles_other': "{count} riddles",
+  'packs.solved': "{solved}/{played} solved",
+  'packs.play': "Play",
+  'packs.continue': "Continue ({next}/{total})",
+  'packs.export': "Save pack to file",
+  'packs.delete': "Delete pack",
+  'packs.confirmDelete': "Delete the pack \"{name}\"?",
+  'packs.saveRiddles_one': "Save {count} riddle to a pack",
+  'packs.saveRiddles_other': "Save {count} riddles to a pack",
+  'packs.newName': "New pack name",
+  'packs.importedName': "Imported Pack",
+  'packs.untitled': "Untitled Pack",
+
+  'safety.title': "Content Safety",
+  'safety.close': "Close",
+  'safety.profile': "Sensitivity",
+  'safety.kids': "Kids",
+  'safety.kidsHint': "Skips violence, crime, disasters and other upsetting news.",
+  'safety.general': "General",
+  'safety.generalHint': "Skips graphic or distressing stories.",
+  'safety.adult': "Adult",
+  'safety.adultHint': "Only your own blocked words apply.",
+  'safety.blocklist': "Blocked words",
+  'safety.blocklistPlaceholder': "e.g. election, spiders",
+  'safety.blocklistHint': "Stories and riddles that mention these words or phrases are skipped. Separate them with commas or new lines.",
+  'safety.reports': "Reported riddles",
+  'safety.noReports': "Nothing reported yet.",
+  'safety.unreport': "Allow this story again",
+  'safety.save': "Save",
+  'safety.topicBlocked': "The story mentions \"{term}\", which your safety settings filter out.",
+  'safety.topicReported': "You reported a riddle about a similar story.",
+  'safety.riddleBlocked': "The riddle mentions \"{term}\", which your safety settings filter out.",
+
+  'duration.seconds': "{seconds}s",
+  'duration.minutes': "{minutes}m {seconds}s",
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,435 @@
+import type { Messages } from '../services/i18n';
+
+const es: Messages = {
+  'common.backToMenu': "Volver al menú",
+  'common.cancel': "Cancelar",
+  'common.close': "Cerrar",
+  'common.save': "Guardar",
+  'common.saving': "Guardando...",
+  'common.playAgain': "Jugar de nuevo",
+  'common.share': "Compartir",
+
+  'app.tagline': "Acertijo diario",
+  'app.footer': "Generado por Google Gemini 2.5 • Modelos Flash y Flash-Image",
+
+  'header.streak': "Racha de aciertos actual",
+  'header.score': "Puntos de la sesión (total: {total})",
+  'header.collection': "Colección",
+  'header.party': "Modo fiesta",
+  'header.packs': "Packs de acertijos",
+  'header.stats': "Estadísticas",
+  'header.mute': "Silenciar sonidos",
+  'header.unmute': "Activar sonidos",
+  'header.language': "Idioma",
+  'header.safety': "Seguridad del contenido",
+
+  'home.title': "El acertijo diario",
+  'home.intro': "Convierte los titulares del momento en enigmas visuales que retan la mente.",
+  'home.introCta': "Elige una dificultad y empieza tu aventura.",
+  'home.trending': "Explora temas de actualidad",
+  'home.manage': "Gestionar",
+  'home.createOwn': "O crea el tuyo",
+  'home.topicPlaceholder': "Escribe cualquier tema (p. ej., Marte, ramen, jazz...)",
+  'home.generate': "Generar acertijo",
+  'home.review_one': "Repasa tu {count} acertijo anterior",
+  'home.review_other': "Repasa tus {count} acertijos anteriores",
+
+  'daily.day': "Día n.º {number}",
+  'daily.best': "Mejor racha diaria: {best}",
+  'daily.streak_one': "{count} día seguido",
+  'daily.streak_other': "{count} días seguidos",
+  'daily.comeBack': "Vuelve mañana para un nuevo acertijo",
+  'daily.solved': "Resuelto hoy · Repasar",
+  'daily.missed': "Fallado hoy · Repasar",
+  'daily.play': "Jugar el acertijo de hoy",
+
+  'difficulty.easy': "Fácil",
+  'difficulty.medium': "Media",
+  'difficulty.hard': "Difícil",
+  'difficulty.adaptive': "Adaptativa",
+  'difficulty.adaptiveHint': "Ajusta cada acertijo a tu nivel de habilidad",
+
+  'timed.hint': "Contrarreloj: {seconds} s por acertijo, cada pista cuesta {cost} s",
+  'timed.on': "Contrarreloj activado",
+  'timed.off': "Contrarreloj desactivado",
+
+  'format.group': "Formato del acertijo",
+  'format.multiple_choice': "Opciones",
+  'format.true_false': "Verdadero/Falso",
+  'format.odd_one_out': "El intruso",
+  'format.free_text': "Escríbelo",
+  'format.anagram': "Descifra",
+
+  'prompt.multiple_choice': "Elige la respuesta correcta según la imagen y la noticia.",
+  'prompt.true_false': "¿Esta afirmación es verdadera o falsa?",
+  'prompt.odd_one_out': "Elige el que no encaja.",
+  'prompt.free_text': "Escribe tu respuesta. Se aceptan grafías parecidas y sinónimos.",
+  'prompt.anagram': "Ordena las letras para formar la respuesta.",
+
+  'style.group': "Estilo de imagen",
+  'style.auto': "A elección del modelo",
+  'style.watercolor': "Acuarela",
+  'style.pixel_art': "Pixel art",
+  'style.photoreal': "Fotorrealista",
+  'style.line_art': "Dibujo lineal",
+
+  'round.partyTurn': "Turno de {name} · Ronda {round}/{rounds}",
+  'round.run': "Partida {round}/{length} · {lives}",
+  'round.lives_one': "{count} vida",
+  'round.lives_other': "{count} vidas",
+  'next.runSummary': "Ver resumen de la partida",
+  'next.scoreboard': "Ver marcador",
+  'next.passTo': "Pasar a {name}",
+
+  'alert.exportFailed': "No se pudo exportar tu colección.",
+  'alert.archiveUnreadable': "No se pudo leer este archivo.",
+  'alert.importFailed': "No se pudo importar este archivo.",
+  'alert.packUnreadable': "No se pudo cargar este pack de acertijos.",
+  'alert.packSaveFailed': "No se pudo guardar el pack de acertijos.",
+
+  'error.quota': "El servicio de acertijos está ocupado.",
+  'error.safety': "Ese tema no se puede usar.",
+  'error.network': "Problema de conexión.",
+  'error.malformed': "El acertijo salió defectuoso.",
+  'error.timeout': "Ha tardado demasiado.",
+  'error.aborted': "Solicitud cancelada.",
+  'error.unknown': "¡Vaya! Algo ha salido mal.",
+  'error.tryAgain': "Reintentar",
+  'error.pickAnother': "Elegir otro tema",
+
+  'errorDetail.quota': "El servicio de acertijos está saturado o sin cuota. Espera un momento y vuelve a intentarlo.",
+  'errorDetail.safety': "Los filtros de seguridad bloquearon ese tema. Prueba con otro.",
+  'errorDetail.network': "No se pudo conectar con el servicio de acertijos. Revisa tu conexión y vuelve a intentarlo.",
+  'errorDetail.malformed': "El acertijo llegó desordenado. Intentemos generarlo de nuevo.",
+  'errorDetail.timeout': "El servicio de acertijos tardó demasiado en responder.",
+  'errorDetail.aborted': "Se canceló la solicitud.",
+  'errorDetail.unknown': "Se produjo un error inesperado.",
+  'errorDetail.noTrending': "No se pudieron obtener noticias de actualidad. Prueba con un tema propio.",
+  'errorDetail.noImage': "No se pudo generar la imagen del acertijo.",
+  'errorDetail.serverStatus': "El servidor de acertijos respondió {status} en {path}.",
+
+  'archiveError.invalid': "Este archivo no es una copia válida de NewsQuest.",
+  'archiveError.newerVersion': "Este archivo se creó con una versión más reciente de NewsQuest (v{version}). Actualiza la aplicación.",
+  'archiveError.noHistory': "El archivo no contiene ninguna colección de acertijos.",
+  'packError.missing': "Ese pack de acertijos ya no existe.",
+  'packError.invalid': "Este archivo no es un pack de acertijos válido.",
+  'packError.newerVersion': "Este pack se creó con una versión más reciente de NewsQuest (v{version}). Actualiza la aplicación.",
+  'packError.empty': "Este pack no contiene acertijos jugables.",
+  'feedError.empty': "El feed está vacío.",
+  'feedError.noStories': "No se pudo leer ninguna noticia de este feed.",
+  'feedError.status': "El feed respondió con {status}.",
+
+  'loading.searching': "Recorriendo el mundo en busca de noticias...",
+  'loading.riddle': "Creando un acertijo ingenioso...",
+  'loading.image': "Pintando las pistas...",
+  'loading.default': "Cargando...",
+  'loading.poweredBy': "Con la tecnología de Gemini 2.5 Flash",
+
+  'game.currentTopic': "Tema actual",
+  'game.roundTopic': "{round} · Tema actual",
+  'game.mysteryTopic': "Tema misterioso",
+  'game.secondsLeft_one': "Queda {count} segundo",
+  'game.secondsLeft_other': "Quedan {count} segundos",
+  'game.pauseTimer': "Pausar el reloj",
+  'game.resumeTimer': "Reanudar el reloj",
+  'game.pauseHint': "Pausa hasta que llegue la imagen",
+  'game.paused': "En pausa",
+  'game.resume': "Reanudar",
+  'game.newGame': "Nueva partida",
+  'game.imageAlt': "Pista visual del acertijo: {prompt}",
+  'game.imageAltLarge': "Pista visual ampliada: {prompt}",
+  'game.imageView': "Vista de la imagen",
+  'game.maximizeImage': "Ampliar imagen",
+  'game.closeImage': "Cerrar imagen",
+  'game.imageFailed': "Esta vez no se pudo pintar la imagen. ¡Resuélvelo solo con las palabras!",
+  'game.imageVariants': "Variantes de la imagen",
+  'game.showVariant': "Ver imagen {number} ({style})",
+  'game.regenerateStyle': "Estilo de la nueva imagen",
+  'game.regenerateImage': "Repintar",
+  'game.regenerationsLeft_one': "queda {count}",
+  'game.regenerationsLeft_other': "quedan {count}",
+  'game.hint': "Pista {number}: {hint}",
+  'game.revealHint': "Ver pista {number}",
+  'game.hintCost': "Cuesta {seconds} segundos",
+  'game.true': "Verdadero",
+  'game.false': "Falso",
+  'game.correctAnswer': "Respuesta correcta",
+  'game.incorrectAnswer': "Respuesta incorrecta",
+  'game.outOfTime': "¡Se acabó el tiempo!",
+  'game.lockedIn': "¡Respuesta registrada!",
+  'game.noPeeking': "Nada de mirar los resultados hasta que todos hayan jugado.",
+  'game.nextRiddle': "Siguiente acertijo",
+  'game.correct': "¡Correcto!",
+  'game.niceTry': "¡Buen intento!",
+  'game.timeLeft': "Quedaban {time} en el reloj",
+  'game.funFact': "Dato curioso",
+  'game.readStory': "Leer la noticia",
+  'game.relatedNews': "Leer noticias relacionadas",
+  'game.saveToPack': "Guardar en un pack de acertijos",
+  'game.report': "Denunciar este acertijo",
+  'game.reported': "Denunciado. Se omitirán noticias parecidas",
+
+  'answer.placeholder': "Escribe tu respuesta",
+  'answer.label': "Tu respuesta",
+  'answer.submit': "Responder",
+  'answer.was': "La respuesta era",
+  'letters.was': "La palabra era",
+  'letters.previous': "Intentos anteriores",
+  'letters.correct': "en su sitio",
+  'letters.present': "en la palabra, mal colocada",
+  'letters.absent': "no está en la palabra",
+  'letters.current': "Intento actual: {guess}",
+  'letters.empty': "vacío",
+  'letters.bank': "Letras",
+  'letters.remove': "Borrar la última letra",
+  'letters.guess': "Probar",
+  'letters.triesLeft_one': "Queda {count} intento",
+  'letters.triesLeft_other': "Quedan {count} intentos",
+
+  'score.base': "Puntos base",
+  'score.hints': "Pistas usadas",
+  'score.speed': "Bonus de velocidad",
+  'score.streak': "Multiplicador de racha",
+  'score.total': "Puntos obtenidos",
+
+  'share.title': "Acertijo diario de NewsQuest",
+  'share.text': "🕵️ ¡Reto NewsQuest!\n\nTema: {topic}\n\nAcertijo: {question}\n\n¿Sabes resolverlo? #NewsQuest #DailyRiddle",
+  'share.button': "Compartir acertijo",
+  'share.copiedHint': "Texto copiado, descargando imagen",
+  'share.copied': "¡Copiado!",
+  'share.shared': "¡Compartido!",
+
+  'history.title': "Colección ({count})",
+  'history.saveToPack': "Guardar {count} en un pack",
+  'history.select': "Seleccionar",
+  'history.selectHint': "Selecciona acertijos para un pack",
+  'history.export': "Exportar",
+  'history.exportHint': "Exportar colección",
+  'history.import': "Importar",
+  'history.importHint': "Importar colección",
+  'history.limitLabel': "Tamaño máximo de la colección",
+  'history.confirmLimit': "Solo se conservarán los {limit} acertijos más recientes. ¿Continuar?",
+  'history.keepAll': "Conservar todos",
+  'history.keep': "Conservar {limit}",
+  'history.seenLabel': "Omitir noticias vistas hace poco",
+  'history.seenHint': "Los acertijos de actualidad evitan las noticias que has visto en este periodo",
+  'history.noRepeats_one': "Sin repetir durante {count} día",
+  'history.noRepeats_other': "Sin repetir durante {count} días",
+  'history.confirmClear': "¿Seguro que quieres vaciar tu colección?",
+  'history.clear': "Vaciar",
+  'history.ownerLabel': "Colección de",
+  'history.mine': "Mi colección",
+  'history.playerCollection': "Colección de {name}",
+  'history.filterAll': "Todos",
+  'history.filterSolved': "Resueltos",
+  'history.filterFailed': "Fallados",
+  'history.empty': "Aún no has jugado ningún acertijo.",
+  'history.noMatch': "Ningún acertijo coincide con este filtro.",
+  'history.startPlaying': "Empezar a jugar",
+  'history.noImage': "Sin imagen",
+  'history.moreOptions': "Más opciones",
+  'history.solved': "Resuelto",
+  'history.missed': "Fallado",
+  'history.hintsRevealed': "Pistas reveladas",
+  'history.timeTaken': "Tiempo empleado",
+  'history.timed': "Contrarreloj",
+  'history.timeLeft': "Quedaban {time}",
+  'history.outOfTime': "Sin tiempo",
+  'history.yourAnswer': "Tu respuesta: {answer}",
+  'history.noAnswer': "Sin respuesta",
+  'history.answer': "Respuesta: {answer}",
+  'history.readStory': "Leer la noticia · {publisher}",
+  'history.saveForLater': "Guardar para después",
+  'history.viewRelated': "Ver noticias relacionadas",
+  'history.shareTitle': "Acertijo de NewsQuest",
+  'history.shareText': "{question}\n\nRespuesta: {answer}",
+  'history.shareUnsupported': "Este dispositivo no permite compartir. ¡Detalles copiados al portapapeles!",
+  'history.copyText': "Tema: {topic}\nP: {question}\nR: {answer}\nDato: {fact}",
+
+  'stats.title': "Estadísticas",
+  'stats.empty': "Juega algunos acertijos para ver tus estadísticas.",
+  'stats.played': "Jugados",
+  'stats.winRate': "Aciertos",
+  'stats.averageSolve': "Tiempo medio",
+  'stats.currentStreak': "Racha actual",
+  'stats.bestStreak': "Mejor racha",
+  'stats.byDifficulty': "Aciertos por dificultad",
+  'stats.byCategory': "Aciertos por categoría",
+  'stats.hintsPerRound': "Pistas usadas por ronda",
+  'stats.rateOf': "{rate} de {played}",
+  'stats.noGames': "Sin partidas",
+
+  'category.world': "Internacional",
+  'category.tech': "Tecnología",
+  'category.sports': "Deportes",
+  'category.entertainment': "Entretenimiento",
+  'category.daily': "Diario",
+  'category.custom': "Personalizado",
+
+  'categories.manage': "Gestionar categorías",
+  'categories.title': "Categorías de temas",
+  'categories.new': "Nueva categoría",
+  'categories.edit': "Editar categoría",
+  'categories.empty': "Aún no hay categorías. Las rondas de actualidad elegirán cualquier tema.",
+  'categories.moveUp': "Subir {name}",
+  'categories.moveDown': "Bajar {name}",
+  'categories.editNamed': "Editar {name}",
+  'categories.delete': "Eliminar {name}",
+  'categories.confirmDelete': "¿Eliminar la categoría «{name}»?",
+  'categories.add': "Añadir categoría",
+  'categories.name': "Nombre",
+  'categories.namePlaceholder': "Nombre, p. ej. Espacio",
+  'categories.icon': "Icono",
+  'categories.keywords': "Palabras clave",
+  'categories.keywordsPlaceholder': "Palabras clave de búsqueda, separadas por comas",
+  'categories.region': "Región",
+  'categories.regionPlaceholder': "Región, p. ej. Berlín",
+  'categories.language': "Idioma",
+  'categories.languagePlaceholder': "Idioma, p. ej. alemán",
+  'categories.exclude': "Exclusiones",
+  'categories.excludePlaceholder': "Dejar fuera, separado por comas",
+  'categories.nameMissing': "Ponle un nombre a la categoría.",
+  'categories.nameTooLong': "El nombre debe tener menos de {max} caracteres.",
+  'categories.nameTaken': "Ya hay otra categoría con ese nombre.",
+
+  'categoryIcon.globe': "Globo",
+  'categoryIcon.cpu': "Chip",
+  'categoryIcon.trophy': "Trofeo",
+  'categoryIcon.film': "Película",
+  'categoryIcon.rocket': "Cohete",
+  'categoryIcon.flask': "Matraz",
+  'categoryIcon.leaf': "Hoja",
+  'categoryIcon.music': "Música",
+  'categoryIcon.landmark': "Monumento",
+  'categoryIcon.heart': "Corazón",
+  'categoryIcon.map-pin': "Chincheta",
+  'categoryIcon.newspaper': "Periódico",
+
+  'run.title': "Partida de retos",
+  'run.livesPerRun_one': "{count} vida por partida",
+  'run.livesPerRun_other': "{count} vidas por partida",
+  'run.category': "Categoría de la partida",
+  'run.anyCategory': "Cualquiera",
+  'run.anyTopic': "Cualquier tema",
+  'run.length': "Duración de la partida",
+  'run.riddles_one': "{count} acertijo",
+  'run.riddles_other': "{count} acertijos",
+  'run.endless': "Hasta quedarse sin vidas",
+  'run.endlessShort': "Sin fin",
+  'run.start': "Empezar partida ({difficulty})",
+  'run.best': "Mejor partida:",
+  'run.bestDetail': "pts · {solved}/{played} resueltos",
+
+  'runSummary.title': "Partida terminada",
+  'runSummary.newBest': "¡Nueva mejor partida!",
+  'runSummary.points': "Puntos",
+  'runSummary.solved': "Resueltos",
+  'runSummary.livesLeft': "Vidas restantes",
+  'runSummary.rounds': "Rondas",
+  'runSummary.bestRuns': "Mejores partidas",
+  'runSummary.notRanked': "Esta partida no entró entre las {count} mejores. ¡Sigue intentándolo!",
+
+  'skill.title': "Nivel de habilidad",
+  'skill.calibrate': "Juega unas rondas para calibrarlo.",
+  'skill.next': "Próximo acertijo:",
+  'skill.distractors.distinct': "opciones muy distintas",
+  'skill.distractors.plausible': "opciones verosímiles",
+  'skill.distractors.close': "opciones muy parecidas",
+  'skill.change': "Cambio en las últimas 10 rondas",
+
+  'party.title': "Modo fiesta",
+  'party.players': "Jugadores",
+  'party.needPlayers_one': "Añade al menos {count} jugador para empezar.",
+  'party.needPlayers_other': "Añade al menos {count} jugadores para empezar.",
+  'party.include': "Añadir a {name} a esta partida",
+  'party.sitOut': "Dejar fuera a {name}",
+  'party.confirmRemove': "¿Eliminar a {name} y su colección?",
+  'party.remove': "Eliminar a {name}",
+  'party.namePlaceholder': "Nombre del jugador",
+  'party.add': "Añadir",
+  'party.nameTaken': "Ese nombre ya está en la lista.",
+  'party.rounds': "Rondas",
+  'party.roundCount_one': "{count} ronda",
+  'party.roundCount_other': "{count} rondas",
+  'party.playerCount_one': "{count} jugador",
+  'party.playerCount_other': "{count} jugadores",
+  'party.start': "Empezar fiesta ({difficulty}, {players})",
+  'party.unknownPlayer': "Desconocido",
+  'party.end': "Terminar fiesta",
+  'party.finalScoreboard': "Marcador final",
+  'party.roundOf': "Ronda {round} de {rounds}",
+  'party.wins': "¡Gana {name}!",
+  'party.bestStreak': "Mejor racha",
+  'party.lastRound': "Última ronda",
+  'party.nextRound': "Siguiente ronda: empieza {name}",
+
+  'turnStyle.turns': "Por turnos",
+  'turnStyle.turnsHint': "Cada jugador recibe su propio acertijo.",
+  'turnStyle.race': "Carrera",
+  'turnStyle.raceHint': "Todos responden el mismo acertijo, uno tras otro.",
+
+  'feed.url': "URL del feed",
+  'feed.urlPlaceholder': "URL del feed (RSS o Atom)",
+  'feed.load': "Cargar",
+  'feed.openFile': "Abrir un archivo de feed",
+  'feed.unreadable': "No se pudo leer este feed.",
+  'feed.stories_one': "{count} noticia",
+  'feed.stories_other': "{count} noticias",
+  'feed.pick': "Elige por mí",
+  'feed.pickHint': "Juega la noticia más reciente que no hayas visto",
+  'feed.close': "Cerrar feed",
+
+  'import.preview': "Vista previa de la importación",
+  'import.title': "Importar colección",
+  'import.cancel': "Cancelar importación",
+  'import.exportedOn': "Exportado el {date}.",
+  'import.newRiddles_one': "Se añadirá {count} acertijo nuevo.",
+  'import.newRiddles_other': "Se añadirán {count} acertijos nuevos.",
+  'import.duplicates_one': "Se omitirá {count} que ya está en tu colección.",
+  'import.duplicates_other': "Se omitirán {count} que ya están en tu colección.",
+  'import.mergeNote': "Las puntuaciones y rachas se combinan conservando los valores más altos.",
+  'import.importing': "Importando...",
+
+  'packs.title': "Packs de acertijos",
+  'packs.load': "Cargar pack",
+  'packs.empty': "Aún no hay packs de acertijos.",
+  'packs.emptyHint': "Guarda un acertijo desde el panel de resultados o selecciona acertijos de tu colección para crear un pack, o carga un archivo de pack.",
+  'packs.riddles_one': "{count} acertijo",
+  'packs.riddles_other': "{count} acertijos",
+  'packs.solved': "{solved}/{played} resueltos",
+  'packs.play': "Jugar",
+  'packs.continue': "Continuar ({next}/{total})",
+  'packs.export': "Guardar pack en un archivo",
+  'packs.delete': "Eliminar pack",
+  'packs.confirmDelete': "¿Eliminar el pack «{name}»?",
+  'packs.saveRiddles_one': "Guardar {count} acertijo en un pack",
+  'packs.saveRiddles_other': "Guardar {count} acertijos en un pack",
+  'packs.newName': "Nombre del nuevo pack",
+  'packs.importedName': "Pack importado",
+  'packs.untitled': "Pack sin título",
+
+  'safety.title': "Seguridad del contenido",
+  'safety.close': "Cerrar",
+  'safety.profile': "Sensibilidad",
+  'safety.kids': "Niños",
+  'safety.kidsHint': "Omite violencia, delitos, catástrofes y otras noticias inquietantes.",
+  'safety.general': "General",
+  'safety.generalHint': "Omite noticias explícitas o angustiosas.",
+  'safety.adult': "Adultos",
+  'safety.adultHint': "Solo se aplican tus palabras bloqueadas.",
+  'safety.blocklist': "Palabras bloqueadas",
+  'safety.blocklistPlaceholder': "p. ej., elecciones, arañas",
+  'safety.blocklistHint': "Se omiten las noticias y acertijos que mencionen estas palabras o frases. Sepáralas con comas o saltos de línea.",
+  'safety.reports': "Acertijos denunciados",
+  'safety.noReports': "Aún no has denunciado nada.",
+  'safety.unreport': "Volver a permitir esta noticia",
+  'safety.save': "Guardar",
+  'safety.topicBlocked': "La noticia menciona «{term}», que tus ajustes de seguridad filtran.",
+  'safety.topicReported': "Denunciaste un acertijo sobre una noticia parecida.",
+  'safety.riddleBlocked': "El acertijo menciona «{term}», que tus ajustes de seguridad filtran.",
+
+  'duration.seconds': "{seconds} s",
+  'duration.minutes': "{minutes} min {seconds} s",
+};
+
+export default es;
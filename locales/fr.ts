@@ -0,0 +1,435 @@
+import type { Messages } from '../services/i18n';
+
+const fr: Messages = {
+  'common.backToMenu': "Retour au menu",
+  'common.cancel': "Annuler",
+  'common.close': "Fermer",
+  'common.save': "Enregistrer",
+  'common.saving': "Enregistrement...",
+  'common.playAgain': "Rejouer",
+  'common.share': "Partager",
+
+  'app.tagline': "L'énigme du jour",
+  'app.footer': "Généré par Google Gemini 2.5 • Modèles Flash et Flash-Image",
+
+  'header.streak': "Série de victoires en cours",
+  'header.score': "Score de la session (total : {total})",
+  'header.collection': "Collection",
+  'header.party': "Mode fête",
+  'header.packs': "Packs d'énigmes",
+  'header.stats': "Statistiques",
+  'header.mute': "Couper le son",
+  'header.unmute': "Activer le son",
+  'header.language': "Langue",
+  'header.safety': "Sécurité du contenu",
+
+  'home.title': "L'énigme du jour",
+  'home.intro': "Transformez les gros titres du moment en casse-têtes visuels.",
+  'home.introCta': "Choisissez une difficulté et lancez votre quête.",
+  'home.trending': "Explorer l'actualité",
+  'home.manage': "Gérer",
+  'home.createOwn': "Ou créez la vôtre",
+  'home.topicPlaceholder': "Saisissez un sujet (ex. : Mars, ramen, jazz...)",
+  'home.generate': "Générer une énigme",
+  'home.review_one': "Revoir votre {count} énigme passée",
+  'home.review_other': "Revoir vos {count} énigmes passées",
+
+  'daily.day': "Jour n° {number}",
+  'daily.best': "Meilleure série quotidienne : {best}",
+  'daily.streak_one': "{count} jour d'affilée",
+  'daily.streak_other': "{count} jours d'affilée",
+  'daily.comeBack': "Revenez demain pour une nouvelle énigme",
+  'daily.solved': "Résolue aujourd'hui · Revoir",
+  'daily.missed': "Ratée aujourd'hui · Revoir",
+  'daily.play': "Jouer l'énigme du jour",
+
+  'difficulty.easy': "Facile",
+  'difficulty.medium': "Moyen",
+  'difficulty.hard': "Difficile",
+  'difficulty.adaptive': "Adaptatif",
+  'difficulty.adaptiveHint': "Adapte chaque énigme à votre niveau",
+
+  'timed.hint': "Course contre la montre : {seconds} s par énigme, chaque indice coûte {cost} s",
+  'timed.on': "Contre-la-montre activé",
+  'timed.off': "Contre-la-montre désactivé",
+
+  'format.group': "Format de l'énigme",
+  'format.multiple_choice': "Choix",
+  'format.true_false': "Vrai/Faux",
+  'format.odd_one_out': "L'intrus",
+  'format.free_text': "À taper",
+  'format.anagram': "Anagramme",
+
+  'prompt.multiple_choice': "Choisissez la bonne réponse d'après l'image et l'actualité.",
+  'prompt.true_false': "Cette affirmation est-elle vraie ou fausse ?",
+  'prompt.odd_one_out': "Trouvez l'intrus.",
+  'prompt.free_text': "Tapez votre réponse. Les orthographes proches et les synonymes comptent.",
+  'prompt.anagram': "Remettez les lettres dans l'ordre pour trouver la réponse.",
+
+  'style.group': "Style d'image",
+  'style.auto': "Au choix du modèle",
+  'style.watercolor': "Aquarelle",
+  'style.pixel_art': "Pixel art",
+  'style.photoreal': "Photoréaliste",
+  'style.line_art': "Dessin au trait",
+
+  'round.partyTurn': "Au tour de {name} · Manche {round}/{rounds}",
+  'round.run': "Partie {round}/{length} · {lives}",
+  'round.lives_one': "{count} vie",
+  'round.lives_other': "{count} vies",
+  'next.runSummary': "Voir le bilan de la partie",
+  'next.scoreboard': "Voir le tableau des scores",
+  'next.passTo': "Passer à {name}",
+
+  'alert.exportFailed': "Impossible d'exporter votre collection.",
+  'alert.archiveUnreadable': "Impossible de lire cette archive.",
+  'alert.importFailed': "Impossible d'importer cette archive.",
+  'alert.packUnreadable': "Impossible de charger ce pack d'énigmes.",
+  'alert.packSaveFailed': "Impossible d'enregistrer le pack d'énigmes.",
+
+  'error.quota': "Le service d'énigmes est saturé.",
+  'error.safety': "Ce sujet ne peut pas être utilisé.",
+  'error.network': "Problème de connexion.",
+  'error.malformed': "L'énigme est sortie illisible.",
+  'error.timeout': "Cela a pris trop de temps.",
+  'error.aborted': "Requête annulée.",
+  'error.unknown': "Oups ! Un problème est survenu.",
+  'error.tryAgain': "Réessayer",
+  'error.pickAnother': "Choisir un autre sujet",
+
+  'errorDetail.quota': "Le service d'énigmes est saturé ou a dépassé son quota. Patientez un instant puis réessayez.",
+  'errorDetail.safety': "Ce sujet a été bloqué par les filtres de sécurité. Essayez-en un autre.",
+  'errorDetail.network': "Impossible de joindre le service d'énigmes. Vérifiez votre connexion puis réessayez.",
+  'errorDetail.malformed': "L'énigme est arrivée illisible. Essayons de la générer à nouveau.",
+  'errorDetail.timeout': "Le service d'énigmes a mis trop de temps à répondre.",
+  'errorDetail.aborted': "La requête a été annulée.",
+  'errorDetail.unknown': "Une erreur inattendue s'est produite.",
+  'errorDetail.noTrending': "Impossible de récupérer l'actualité. Essayez un sujet de votre choix.",
+  'errorDetail.noImage': "Impossible de générer l'image de l'énigme.",
+  'errorDetail.serverStatus': "Le serveur d'énigmes a répondu {status} pour {path}.",
+
+  'archiveError.invalid': "Ce fichier n'est pas une archive NewsQuest valide.",
+  'archiveError.newerVersion': "Cette archive a été créée par une version plus récente de NewsQuest (v{version}). Veuillez mettre l'application à jour.",
+  'archiveError.noHistory': "L'archive ne contient aucune collection d'énigmes.",
+  'packError.missing': "Ce pack d'énigmes n'existe plus.",
+  'packError.invalid': "Ce fichier n'est pas un pack d'énigmes valide.",
+  'packError.newerVersion': "Ce pack a été créé par une version plus récente de NewsQuest (v{version}). Veuillez mettre l'application à jour.",
+  'packError.empty': "Ce pack ne contient aucune énigme jouable.",
+  'feedError.empty': "Le flux est vide.",
+  'feedError.noStories': "Aucun article n'a pu être lu dans ce flux.",
+  'feedError.status': "Le flux a répondu {status}.",
+
+  'loading.searching': "Recherche des actualités du moment...",
+  'loading.riddle': "Création d'une énigme astucieuse...",
+  'loading.image': "Peinture des indices...",
+  'loading.default': "Chargement...",
+  'loading.poweredBy': "Propulsé par Gemini 2.5 Flash",
+
+  'game.currentTopic': "Sujet actuel",
+  'game.roundTopic': "{round} · Sujet actuel",
+  'game.mysteryTopic': "Sujet mystère",
+  'game.secondsLeft_one': "{count} seconde restante",
+  'game.secondsLeft_other': "{count} secondes restantes",
+  'game.pauseTimer': "Mettre le chrono en pause",
+  'game.resumeTimer': "Reprendre le chrono",
+  'game.pauseHint': "Pause jusqu'à l'arrivée de l'image",
+  'game.paused': "En pause",
+  'game.resume': "Reprendre",
+  'game.newGame': "Nouvelle partie",
+  'game.imageAlt': "Indice visuel de l'énigme : {prompt}",
+  'game.imageAltLarge': "Indice visuel agrandi : {prompt}",
+  'game.imageView': "Vue de l'image",
+  'game.maximizeImage': "Agrandir l'image",
+  'game.closeImage': "Fermer l'image",
+  'game.imageFailed': "L'image n'a pas pu être peinte cette fois. Résolvez l'énigme avec les mots seuls !",
+  'game.imageVariants': "Variantes de l'image",
+  'game.showVariant': "Afficher l'image {number} ({style})",
+  'game.regenerateStyle': "Style de la nouvelle image",
+  'game.regenerateImage': "Repeindre",
+  'game.regenerationsLeft_one': "{count} restante",
+  'game.regenerationsLeft_other': "{count} restantes",
+  'game.hint': "Indice {number} : {hint}",
+  'game.revealHint': "Révéler l'indice {number}",
+  'game.hintCost': "Coûte {seconds} secondes",
+  'game.true': "Vrai",
+  'game.false': "Faux",
+  'game.correctAnswer': "Bonne réponse",
+  'game.incorrectAnswer': "Mauvaise réponse",
+  'game.outOfTime': "Temps écoulé !",
+  'game.lockedIn': "Réponse enregistrée !",
+  'game.noPeeking': "Pas question de regarder les résultats avant que tout le monde ait joué.",
+  'game.nextRiddle': "Énigme suivante",
+  'game.correct': "Bravo !",
+  'game.niceTry': "Bien essayé !",
+  'game.timeLeft': "Il restait {time} au chrono",
+  'game.funFact': "Le saviez-vous ?",
+  'game.readStory': "Lire l'article",
+  'game.relatedNews': "Lire les actualités liées",
+  'game.saveToPack': "Enregistrer dans un pack d'énigmes",
+  'game.report': "Signaler cette énigme",
+  'game.reported': "Signalée. Les sujets similaires seront ignorés",
+
+  'answer.placeholder': "Tapez votre réponse",
+  'answer.label': "Votre réponse",
+  'answer.submit': "Répondre",
+  'answer.was': "La réponse était",
+  'letters.was': "Le mot était",
+  'letters.previous': "Essais précédents",
+  'letters.correct': "bien placée",
+  'letters.present': "dans le mot, mal placée",
+  'letters.absent': "absente du mot",
+  'letters.current': "Essai en cours : {guess}",
+  'letters.empty': "vide",
+  'letters.bank': "Lettres",
+  'letters.remove': "Effacer la dernière lettre",
+  'letters.guess': "Valider",
+  'letters.triesLeft_one': "{count} essai restant",
+  'letters.triesLeft_other': "{count} essais restants",
+
+  'score.base': "Points de base",
+  'score.hints': "Indices utilisés",
+  'score.speed': "Bonus de rapidité",
+  'score.streak': "Multiplicateur de série",
+  'score.total': "Points gagnés",
+
+  'share.title': "L'énigme du jour NewsQuest",
+  'share.text': "🕵️ Défi NewsQuest !\n\nSujet : {topic}\n\nÉnigme : {question}\n\nSaurez-vous la résoudre ? #NewsQuest #DailyRiddle",
+  'share.button': "Partager l'énigme",
+  'share.copiedHint': "Texte copié, image en téléchargement",
+  'share.copied': "Copié !",
+  'share.shared': "Partagé !",
+
+  'history.title': "Collection ({count})",
+  'history.saveToPack': "Enregistrer {count} dans un pack",
+  'history.select': "Sélectionner",
+  'history.selectHint': "Sélectionner des énigmes pour un pack",
+  'history.export': "Exporter",
+  'history.exportHint': "Exporter la collection",
+  'history.import': "Importer",
+  'history.importHint': "Importer une collection",
+  'history.limitLabel': "Taille maximale de la collection",
+  'history.confirmLimit': "Seules les {limit} énigmes les plus récentes seront conservées. Continuer ?",
+  'history.keepAll': "Tout conserver",
+  'history.keep': "Conserver {limit}",
+  'history.seenLabel': "Ignorer les sujets vus récemment",
+  'history.seenHint': "Les énigmes d'actualité évitent les sujets vus pendant cette période",
+  'history.noRepeats_one': "Pas de répétition pendant {count} jour",
+  'history.noRepeats_other': "Pas de répétition pendant {count} jours",
+  'history.confirmClear': "Voulez-vous vraiment vider votre collection ?",
+  'history.clear': "Vider",
+  'history.ownerLabel': "Collection de",
+  'history.mine': "Ma collection",
+  'history.playerCollection': "Collection de {name}",
+  'history.filterAll': "Toutes",
+  'history.filterSolved': "Résolues",
+  'history.filterFailed': "Ratées",
+  'history.empty': "Aucune énigme jouée pour l'instant.",
+  'history.noMatch': "Aucune énigme ne correspond à ce filtre.",
+  'history.startPlaying': "Commencer à jouer",
+  'history.noImage': "Pas d'image",
+  'history.moreOptions': "Plus d'options",
+  'history.solved': "Résolue",
+  'history.missed': "Ratée",
+  'history.hintsRevealed': "Indices révélés",
+  'history.timeTaken': "Temps passé",
+  'history.timed': "Contre-la-montre",
+  'history.timeLeft': "{time} restantes",
+  'history.outOfTime': "Temps écoulé",
+  'history.yourAnswer': "Votre réponse : {answer}",
+  'history.noAnswer': "Pas de réponse",
+  'history.answer': "Réponse : {answer}",
+  'history.readStory': "Lire l'article · {publisher}",
+  'history.saveForLater': "Garder pour plus tard",
+  'history.viewRelated': "Voir les actualités liées",
+  'history.shareTitle': "Énigme NewsQuest",
+  'history.shareText': "{question}\n\nRéponse : {answer}",
+  'history.shareUnsupported': "Le partage n'est pas pris en charge sur cet appareil. Détails copiés dans le presse-papiers !",
+  'history.copyText': "Sujet : {topic}\nQ : {question}\nR : {answer}\nAnecdote : {fact}",
+
+  'stats.title': "Statistiques",
+  'stats.empty': "Jouez quelques énigmes pour voir vos statistiques.",
+  'stats.played': "Jouées",
+  'stats.winRate': "Réussite",
+  'stats.averageSolve': "Temps moyen",
+  'stats.currentStreak': "Série en cours",
+  'stats.bestStreak': "Meilleure série",
+  'stats.byDifficulty': "Réussite par difficulté",
+  'stats.byCategory': "Réussite par catégorie",
+  'stats.hintsPerRound': "Indices utilisés par manche",
+  'stats.rateOf': "{rate} sur {played}",
+  'stats.noGames': "Aucune partie",
+
+  'category.world': "Monde",
+  'category.tech': "Technologie",
+  'category.sports': "Sports",
+  'category.entertainment': "Divertissement",
+  'category.daily': "Quotidienne",
+  'category.custom': "Personnalisé",
+
+  'categories.manage': "Gérer les catégories",
+  'categories.title': "Catégories de sujets",
+  'categories.new': "Nouvelle catégorie",
+  'categories.edit': "Modifier la catégorie",
+  'categories.empty': "Aucune catégorie pour l'instant. Les manches d'actualité choisiront n'importe quel sujet.",
+  'categories.moveUp': "Monter {name}",
+  'categories.moveDown': "Descendre {name}",
+  'categories.editNamed': "Modifier {name}",
+  'categories.delete': "Supprimer {name}",
+  'categories.confirmDelete': "Supprimer la catégorie « {name} » ?",
+  'categories.add': "Ajouter une catégorie",
+  'categories.name': "Nom",
+  'categories.namePlaceholder': "Nom, p. ex. Espace",
+  'categories.icon': "Icône",
+  'categories.keywords': "Mots-clés",
+  'categories.keywordsPlaceholder': "Mots-clés de recherche, séparés par des virgules",
+  'categories.region': "Région",
+  'categories.regionPlaceholder': "Région, p. ex. Berlin",
+  'categories.language': "Langue",
+  'categories.languagePlaceholder': "Langue, p. ex. allemand",
+  'categories.exclude': "Exclusions",
+  'categories.excludePlaceholder': "À écarter, séparés par des virgules",
+  'categories.nameMissing': "Donnez un nom à la catégorie.",
+  'categories.nameTooLong': "Le nom doit faire moins de {max} caractères.",
+  'categories.nameTaken': "Une autre catégorie porte déjà ce nom.",
+
+  'categoryIcon.globe': "Globe",
+  'categoryIcon.cpu': "Puce",
+  'categoryIcon.trophy': "Trophée",
+  'categoryIcon.film': "Film",
+  'categoryIcon.rocket': "Fusée",
+  'categoryIcon.flask': "Fiole",
+  'categoryIcon.leaf': "Feuille",
+  'categoryIcon.music': "Musique",
+  'categoryIcon.landmark': "Monument",
+  'categoryIcon.heart': "Cœur",
+  'categoryIcon.map-pin': "Repère",
+  'categoryIcon.newspaper': "Journal",
+
+  'run.title': "Partie défi",
+  'run.livesPerRun_one': "{count} vie par partie",
+  'run.livesPerRun_other': "{count} vies par partie",
+  'run.category': "Catégorie de la partie",
+  'run.anyCategory': "Toutes",
+  'run.anyTopic': "Tous sujets",
+  'run.length': "Durée de la partie",
+  'run.riddles_one': "{count} énigme",
+  'run.riddles_other': "{count} énigmes",
+  'run.endless': "Jusqu'à épuisement des vies",
+  'run.endlessShort': "Sans fin",
+  'run.start': "Lancer la partie ({difficulty})",
+  'run.best': "Meilleure partie :",
+  'run.bestDetail': "pts · {solved}/{played} résolues",
+
+  'runSummary.title': "Partie terminée",
+  'runSummary.newBest': "Nouvelle meilleure partie !",
+  'runSummary.points': "Points",
+  'runSummary.solved': "Résolues",
+  'runSummary.livesLeft': "Vies restantes",
+  'runSummary.rounds': "Manches",
+  'runSummary.bestRuns': "Meilleures parties",
+  'runSummary.notRanked': "Cette partie n'entre pas dans le top {count}. Persévérez !",
+
+  'skill.title': "Niveau",
+  'skill.calibrate': "Jouez quelques manches pour l'étalonner.",
+  'skill.next': "Prochaine énigme :",
+  'skill.distractors.distinct': "choix bien distincts",
+  'skill.distractors.plausible': "choix plausibles",
+  'skill.distractors.close': "choix très proches",
+  'skill.change': "Évolution sur les 10 dernières manches",
+
+  'party.title': "Mode fête",
+  'party.players': "Joueurs",
+  'party.needPlayers_one': "Ajoutez au moins {count} joueur pour commencer.",
+  'party.needPlayers_other': "Ajoutez au moins {count} joueurs pour commencer.",
+  'party.include': "Ajouter {name} à cette partie",
+  'party.sitOut': "Laisser {name} de côté",
+  'party.confirmRemove': "Retirer {name} et sa collection ?",
+  'party.remove': "Retirer {name}",
+  'party.namePlaceholder': "Nom du joueur",
+  'party.add': "Ajouter",
+  'party.nameTaken': "Ce nom figure déjà dans la liste.",
+  'party.rounds': "Manches",
+  'party.roundCount_one': "{count} manche",
+  'party.roundCount_other': "{count} manches",
+  'party.playerCount_one': "{count} joueur",
+  'party.playerCount_other': "{count} joueurs",
+  'party.start': "Lancer la fête ({difficulty}, {players})",
+  'party.unknownPlayer': "Inconnu",
+  'party.end': "Terminer la fête",
+  'party.finalScoreboard': "Classement final",
+  'party.roundOf': "Manche {round} sur {rounds}",
+  'party.wins': "{name} gagne !",
+  'party.bestStreak': "Meilleure série",
+  'party.lastRound': "Dernière manche",
+  'party.nextRound': "Manche suivante : {name} commence",
+
+  'turnStyle.turns': "Chacun son tour",
+  'turnStyle.turnsHint': "Chaque joueur reçoit sa propre énigme.",
+  'turnStyle.race': "Course",
+  'turnStyle.raceHint': "Tout le monde répond à la même énigme, l'un après l'autre.",
+
+  'feed.url': "URL du flux",
+  'feed.urlPlaceholder': "URL du flux (RSS ou Atom)",
+  'feed.load': "Charger",
+  'feed.openFile': "Ouvrir un fichier de flux",
+  'feed.unreadable': "Impossible de lire ce flux.",
+  'feed.stories_one': "{count} article",
+  'feed.stories_other': "{count} articles",
+  'feed.pick': "Choisir pour moi",
+  'feed.pickHint': "Jouer l'article le plus récent que vous n'avez pas vu",
+  'feed.close': "Fermer le flux",
+
+  'import.preview': "Aperçu de l'importation",
+  'import.title': "Importer une collection",
+  'import.cancel': "Annuler l'importation",
+  'import.exportedOn': "Exportée le {date}.",
+  'import.newRiddles_one': "{count} nouvelle énigme sera ajoutée.",
+  'import.newRiddles_other': "{count} nouvelles énigmes seront ajoutées.",
+  'import.duplicates_one': "{count} déjà dans votre collection sera ignorée.",
+  'import.duplicates_other': "{count} déjà dans votre collection seront ignorées.",
+  'import.mergeNote': "Les scores et les séries sont fusionnés en gardant les valeurs les plus élevées.",
+  'import.importing': "Importation...",
+
+  'packs.title': "Packs d'énigmes",
+  'packs.load': "Charger un pack",
+  'packs.empty': "Aucun pack d'énigmes pour l'instant.",
+  'packs.emptyHint': "Enregistrez une énigme depuis le panneau de résultat ou sélectionnez des énigmes de votre collection pour créer un pack, ou chargez un fichier de pack.",
+  'packs.riddles_one': "{count} énigme",
+  'packs.riddles_other': "{count} énigmes",
+  'packs.solved': "{solved}/{played} résolues",
+  'packs.play': "Jouer",
+  'packs.continue': "Continuer ({next}/{total})",
+  'packs.export': "Enregistrer le pack dans un fichier",
+  'packs.delete': "Supprimer le pack",
+  'packs.confirmDelete': "Supprimer le pack « {name} » ?",
+  'packs.saveRiddles_one': "Enregistrer {count} énigme dans un pack",
+  'packs.saveRiddles_other': "Enregistrer {count} énigmes dans un pack",
+  'packs.newName': "Nom du nouveau pack",
+  'packs.importedName': "Pack importé",
+  'packs.untitled': "Pack sans titre",
+
+  'safety.title': "Sécurité du contenu",
+  'safety.close': "Fermer",
+  'safety.profile': "Sensibilité",
+  'safety.kids': "Enfants",
+  'safety.kidsHint': "Ignore la violence, la criminalité, les catastrophes et autres actualités pénibles.",
+  'safety.general': "Tout public",
+  'safety.generalHint': "Ignore les sujets choquants ou bouleversants.",
+  'safety.adult': "Adultes",
+  'safety.adultHint': "Seuls vos mots bloqués s'appliquent.",
+  'safety.blocklist': "Mots bloqués",
+  'safety.blocklistPlaceholder': "ex. : élections, araignées",
+  'safety.blocklistHint': "Les sujets et énigmes qui mentionnent ces mots ou expressions sont ignorés. Séparez-les par des virgules ou des retours à la ligne.",
+  'safety.reports': "Énigmes signalées",
+  'safety.noReports': "Rien n'a encore été signalé.",
+  'safety.unreport': "Autoriser de nouveau ce sujet",
+  'safety.save': "Enregistrer",
+  'safety.topicBlocked': "Le sujet mentionne « {term} », que vos réglages de sécurité filtrent.",
+  'safety.topicReported': "Vous avez signalé une énigme sur un sujet similaire.",
+  'safety.riddleBlocked': "L'énigme mentionne « {term} », que vos réglages de sécurité filtrent.",
+
+  'duration.seconds': "{seconds} s",
+  'duration.minutes': "{minutes} min {seconds} s",
+};
+
+export default fr;
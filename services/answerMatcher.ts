@@ -0,0 +1,52 @@
+// Lenient comparison for typed answers: case, accents, punctuation, articles, word order and small typos are forgiven.
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+export const normalizeAnswer = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !ARTICLES.has(word))
+    .join(' ');
+
+// Edit distance counting swapped neighbours as one typo (optimal string alignment)
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        next[j] = Math.min(next[j], previous[j - 2] + 1);
+      }
+    }
+    previous = row;
+    row = next;
+  }
+  return row[b.length];
+};
+
+// Short answers must be exact; longer ones may carry a typo or two
+const allowedTypos = (length: number): number => (length <= 4 ? 0 : length <= 8 ? 1 : 2);
+
+const sortedWords = (value: string) => value.split(' ').sort().join(' ');
+
+export const matchesAnswer = (guess: string, answers: string[]): boolean => {
+  const normalizedGuess = normalizeAnswer(guess);
+  if (!normalizedGuess) return false;
+  return answers.some(answer => {
+    const target = normalizeAnswer(answer);
+    if (!target) return false;
+    if (sortedWords(normalizedGuess) === sortedWords(target)) return true;
+    return editDistance(normalizedGuess, target) <= allowedTypos(target.length);
+  });
+};
@@ -0,0 +1,146 @@
+import { HistoryItem, DailyStreak } from '../types';
+import { storageService } from './storageService';
+import { dailyService } from './dailyService';
+import { t } from './i18n';
+
+export const ARCHIVE_FORMAT = 'newsquest-archive';
+export const ARCHIVE_VERSION = 1;
+
+// Portable snapshot of the collection; images are embedded as data URIs in `image_url`
+export interface CollectionArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  history: HistoryItem[];
+  scores?: { allTime: number };
+  streaks?: { win: number; daily?: DailyStreak }; // absent or partial in hand-edited files
+}
+
+export interface ImportPreview {
+  archive: CollectionArchive;
+  newItems: HistoryItem[];
+  duplicateCount: number;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const embedImage = async (imageUrl: string): Promise<string> => {
+  if (!imageUrl || imageUrl.startsWith('data:')) return imageUrl;
+  try {
+    return await blobToDataUrl(await (await fetch(imageUrl)).blob());
+  } catch (e) {
+    console.warn("Could not embed image, keeping its URL", e);
+    return imageUrl;
+  }
+};
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Only the fields every entry has always carried are required; normalizeRecord fills in the rest
+const isHistoryItem = (value: unknown): value is HistoryItem =>
+  isObject(value) && typeof value.id === 'string' && typeof value.question === 'string' && typeof value.answer === 'string';
+
+const isDailyStreak = (value: unknown): value is DailyStreak =>
+  isObject(value) && typeof value.current === 'number' && typeof value.best === 'number'
+  && (value.lastPlayed === null || typeof value.lastPlayed === 'string');
+
+// Upgrades older archive versions in place; add a step here whenever ARCHIVE_VERSION is bumped
+const migrateArchive = (archive: CollectionArchive): CollectionArchive => archive;
+
+export const createArchive = async (): Promise<CollectionArchive> => {
+  const history = await storageService.getHistory();
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    history: await Promise.all(history.map(async item => ({ ...item, image_url: await embedImage(item.image_url) }))),
+    scores: { allTime: storageService.getScoreTotals().allTime },
+    streaks: { win: storageService.getWinStreak(), daily: dailyService.getStreak() },
+  };
+};
+
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadArchive = async () => {
+  const archive = await createArchive();
+  downloadJson(`newsquest-collection-${new Date(archive.exportedAt).toISOString().slice(0, 10)}.json`, archive);
+};
+
+export const parseArchive = (text: string): CollectionArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ArchiveError(t('archiveError.invalid'));
+  }
+  if (!isObject(data) || data.format !== ARCHIVE_FORMAT || typeof data.version !== 'number') {
+    throw new ArchiveError(t('archiveError.invalid'));
+  }
+  if (data.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(t('archiveError.newerVersion', { version: data.version }));
+  }
+  if (!Array.isArray(data.history)) {
+    throw new ArchiveError(t('archiveError.noHistory'));
+  }
+
+  const { scores, streaks } = data;
+  return migrateArchive({
+    format: ARCHIVE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    history: data.history.filter(isHistoryItem),
+    scores: { allTime: isObject(scores) && typeof scores.allTime === 'number' ? scores.allTime : 0 },
+    streaks: isObject(streaks) ? {
+      win: typeof streaks.win === 'number' ? streaks.win : 0,
+      daily: isDailyStreak(streaks.daily) ? streaks.daily : undefined,
+    } : undefined,
+  });
+};
+
+// Works out which rounds are new, de-duplicating by entry id against the local collection.
+// Replays of the same riddle are separate entries and all come across.
+export const previewImport = (archive: CollectionArchive, existing: HistoryItem[]): ImportPreview => {
+  const known = new Set(existing.map(item => item.id));
+  const newItems: HistoryItem[] = [];
+  archive.history.forEach(item => {
+    if (known.has(item.id)) return;
+    known.add(item.id);
+    newItems.push(item);
+  });
+  return { archive, newItems, duplicateCount: archive.history.length - newItems.length };
+};
+
+export const applyImport = async (preview: ImportPreview): Promise<HistoryItem[]> => {
+  const { archive } = preview;
+  const history = await storageService.importHistory(preview.newItems);
+  storageService.mergeAllTimeScore(archive.scores?.allTime ?? 0);
+  if (archive.streaks) {
+    storageService.setWinStreak(Math.max(storageService.getWinStreak(), archive.streaks.win));
+    if (archive.streaks.daily) dailyService.mergeStreak(archive.streaks.daily);
+  }
+  return history;
+};
@@ -0,0 +1,118 @@
+import { CategoryIcon, NewsCategory } from '../types';
+import { MessageKey } from '../locales/en';
+import { t } from './i18n';
+import { UNCATEGORIZED } from './statsService';
+import { DAILY_CATEGORY } from './dailyService';
+
+const CATEGORIES_KEY = 'newsquest_categories';
+
+export const MAX_CATEGORIES = 12;
+export const MAX_LIST_ITEMS = 10; // keywords and exclusions per category
+export const MAX_NAME_LENGTH = 32;
+
+export const CATEGORY_ICONS: CategoryIcon[] = ['globe', 'cpu', 'trophy', 'film', 'rocket', 'flask', 'leaf', 'music', 'landmark', 'heart', 'map-pin', 'newspaper'];
+
+// The original four topic buttons; names are kept so existing history and stats still line up
+export const DEFAULT_CATEGORIES: NewsCategory[] = [
+  { id: 'world', name: 'World News', icon: 'globe', keywords: [], exclude: [] },
+  { id: 'tech', name: 'Technology', icon: 'cpu', keywords: [], exclude: [] },
+  { id: 'sports', name: 'Sports', icon: 'trophy', keywords: [], exclude: [] },
+  { id: 'entertainment', name: 'Entertainment', icon: 'film', keywords: [], exclude: [] },
+];
+
+// Built-in names stay in English in storage and history; they are only translated on screen
+const BUILT_IN_LABELS = new Map<string, MessageKey>([
+  ['World News', 'category.world'],
+  ['Technology', 'category.tech'],
+  ['Sports', 'category.sports'],
+  ['Entertainment', 'category.entertainment'],
+  [DAILY_CATEGORY, 'category.daily'],
+  [UNCATEGORIZED, 'category.custom'],
+]);
+
+export const categoryLabel = (name: string): string => {
+  const key = BUILT_IN_LABELS.get(name);
+  return key ? t(key) : name;
+};
+
+export type CategoryDraft = Omit<NewsCategory, 'id'>;
+
+// Comma or newline separated input from the editor
+export const parseList = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split(/[,\n]/)
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_LIST_ITEMS);
+};
+
+export const cleanDraft = (draft: CategoryDraft): CategoryDraft => {
+  const cleaned: CategoryDraft = {
+    name: draft.name.trim(),
+    icon: CATEGORY_ICONS.includes(draft.icon) ? draft.icon : 'newspaper',
+    keywords: parseList(draft.keywords.join(',')),
+    exclude: parseList(draft.exclude.join(',')),
+  };
+  if (draft.region?.trim()) cleaned.region = draft.region.trim();
+  if (draft.language?.trim()) cleaned.language = draft.language.trim();
+  return cleaned;
+};
+
+export const createCategory = (draft: CategoryDraft): NewsCategory => ({
+  ...cleanDraft(draft),
+  id: Date.now().toString() + Math.random().toString(36).substring(2),
+});
+
+export const validateCategory = (draft: CategoryDraft, others: NewsCategory[]): string | null => {
+  const name = draft.name.trim();
+  if (!name) return t('categories.nameMissing');
+  if (name.length > MAX_NAME_LENGTH) return t('categories.nameTooLong', { max: MAX_NAME_LENGTH });
+  if (others.some(c => c.name.toLowerCase() === name.toLowerCase())) return t('categories.nameTaken');
+  return null;
+};
+
+// Swaps a category with its neighbour; moves past either end are ignored
+export const moveCategory = (categories: NewsCategory[], id: string, offset: -1 | 1): NewsCategory[] => {
+  const from = categories.findIndex(c => c.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= categories.length) return categories;
+  const next = [...categories];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+// Everything beyond the name, phrased as search constraints for a news backend
+export const describeCategoryFilters = (category: NewsCategory): string[] => {
+  const filters: string[] = [];
+  if (category.keywords.length > 0) filters.push(`It should involve at least one of: ${category.keywords.join(', ')}.`);
+  if (category.region) filters.push(`Focus on news from or about ${category.region}.`);
+  if (category.language) filters.push(`Prefer sources published in ${category.language}.`);
+  if (category.exclude.length > 0) filters.push(`Do not pick stories about: ${category.exclude.join(', ')}.`);
+  return filters;
+};
+
+export const categoryService = {
+  getCategories: (): NewsCategory[] => {
+    try {
+      const stored = localStorage.getItem(CATEGORIES_KEY);
+      return stored ? JSON.parse(stored) : DEFAULT_CATEGORIES;
+    } catch (e) {
+      console.error("Failed to load categories", e);
+      return DEFAULT_CATEGORIES;
+    }
+  },
+
+  saveCategories: (categories: NewsCategory[]) => {
+    try {
+      localStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories.slice(0, MAX_CATEGORIES)));
+    } catch (e) {
+      console.error("Failed to save categories", e);
+    }
+  },
+};
@@ -0,0 +1,152 @@
+import { DailyPuzzle, DailyStreak, Difficulty, Language } from '../types';
+import { storageService } from './storageService';
+
+const PUZZLE_KEY = 'newsquest_daily_puzzle';
+const STREAK_KEY = 'newsquest_daily_streak';
+const EPOCH = '2025-01-01'; // Day #1
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Evergreen seeds so every player starts the day from the same topic
+const DAILY_TOPICS = [
+  "Space exploration",
+  "Ocean conservation",
+  "Renewable energy",
+  "Ancient archaeology",
+  "Olympic sports",
+  "Animated films",
+  "Artificial intelligence",
+  "Rainforest wildlife",
+  "World cuisine",
+  "Classical music",
+  "Volcanoes and earthquakes",
+  "Electric vehicles",
+  "Famous landmarks",
+  "Board games",
+];
+
+export const DAILY_CATEGORY = 'Daily';
+
+const DAILY_DIFFICULTY: Difficulty[] = ['hard', 'easy', 'easy', 'medium', 'medium', 'medium', 'hard']; // Sun..Sat
+
+// Everyone plays the daily in one language, so a pinned seed can give everyone the same text
+export const DAILY_LANGUAGE: Language = 'en';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const getDateKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Compare calendar dates in UTC so daylight saving shifts never skip or repeat a day
+const dateKeyToUtc = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((dateKeyToUtc(to) - dateKeyToUtc(from)) / DAY_MS);
+
+export const getDayNumber = (dateKey: string): number => daysBetween(EPOCH, dateKey) + 1;
+
+// `samplingSeed` is the day number, handed to the provider so the generated riddle is shared too
+export const getDailySeed = (dateKey: string): { topic: string; difficulty: Difficulty; samplingSeed: number } => {
+  const day = Math.max(0, getDayNumber(dateKey));
+  const weekday = new Date(dateKeyToUtc(dateKey)).getUTCDay();
+  return {
+    topic: DAILY_TOPICS[day % DAILY_TOPICS.length],
+    difficulty: DAILY_DIFFICULTY[weekday],
+    samplingSeed: day,
+  };
+};
+
+const imageKey = (dateKey: string) => `daily-${dateKey}`;
+
+const readPuzzle = (): DailyPuzzle | null => {
+  const stored = localStorage.getItem(PUZZLE_KEY);
+  if (!stored) return null;
+  // Puzzles cached before pictures moved to IndexedDB carry a data URI; it is dropped and redrawn
+  const { imageUrl: _legacyImage, ...puzzle } = JSON.parse(stored);
+  return puzzle;
+};
+
+export const dailyService = {
+  // Only the current day's puzzle is kept, with its picture as a Blob in IndexedDB
+  getPuzzle: (dateKey: string): DailyPuzzle | null => {
+    try {
+      const puzzle = readPuzzle();
+      return puzzle && puzzle.date === dateKey ? puzzle : null;
+    } catch (e) {
+      console.error("Failed to load daily puzzle", e);
+      return null;
+    }
+  },
+
+  savePuzzle: (puzzle: DailyPuzzle) => {
+    try {
+      const previous = readPuzzle();
+      localStorage.setItem(PUZZLE_KEY, JSON.stringify(puzzle));
+      if (previous && previous.date !== puzzle.date) {
+        storageService.deleteImage(imageKey(previous.date)).catch(e => console.error("Failed to drop old daily image", e));
+      }
+    } catch (e) {
+      console.error("Failed to cache daily puzzle", e);
+    }
+  },
+
+  getPuzzleImage: (dateKey: string): Promise<string | null> => storageService.getImage(imageKey(dateKey)),
+
+  setPuzzleImage: async (dateKey: string, imageUrl: string) => {
+    try {
+      await storageService.saveImage(imageKey(dateKey), imageUrl);
+    } catch (e) {
+      console.error("Failed to cache daily image", e);
+    }
+  },
+
+  getStreak: (today: string = getDateKey()): DailyStreak => {
+    try {
+      const stored = localStorage.getItem(STREAK_KEY);
+      const streak: DailyStreak = stored ? JSON.parse(stored) : { current: 0, best: 0, lastPlayed: null };
+      // A missed day breaks the run even though nothing was written
+      if (streak.lastPlayed && daysBetween(streak.lastPlayed, today) > 1) {
+        return { ...streak, current: 0 };
+      }
+      return streak;
+    } catch (e) {
+      console.error("Failed to load daily streak", e);
+      return { current: 0, best: 0, lastPlayed: null };
+    }
+  },
+
+  // Records the single attempt for the day; later calls for the same date are ignored
+  recordResult: (dateKey: string, selectedAnswer: number | null, isCorrect: boolean): DailyStreak => {
+    const puzzle = dailyService.getPuzzle(dateKey);
+    if (puzzle && !puzzle.result) {
+      dailyService.savePuzzle({ ...puzzle, result: { selectedAnswer, isCorrect, completedAt: Date.now() } });
+    }
+
+    const streak = dailyService.getStreak(dateKey);
+    if (streak.lastPlayed === dateKey) return streak;
+
+    const current = streak.lastPlayed && daysBetween(streak.lastPlayed, dateKey) === 1 ? streak.current + 1 : 1;
+    const updated: DailyStreak = { current, best: Math.max(streak.best, current), lastPlayed: dateKey };
+    try {
+      localStorage.setItem(STREAK_KEY, JSON.stringify(updated));
+    } catch (e) {
+      console.error("Failed to save daily streak", e);
+    }
+    return updated;
+  },
+
+  // Keeps whichever streak was played more recently, and the better best
+  mergeStreak: (incoming: DailyStreak): DailyStreak => {
+    const local = dailyService.getStreak();
+    const newer = !local.lastPlayed || (incoming.lastPlayed && incoming.lastPlayed > local.lastPlayed) ? incoming : local;
+    const merged: DailyStreak = { ...newer, best: Math.max(local.best, incoming.best) };
+    try {
+      localStorage.setItem(STREAK_KEY, JSON.stringify(merged));
+    } catch (e) {
+      console.error("Failed to save daily streak", e);
+    }
+    return dailyService.getStreak();
+  },
+};
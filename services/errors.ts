@@ -0,0 +1,50 @@
+import { GenerationErrorKind } from '../types';
+import { t } from './i18n';
+
+// Transient failures are worth retrying automatically
+const TRANSIENT: GenerationErrorKind[] = ['network', 'timeout', 'quota'];
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  cause?: unknown;
+
+  // Messages are shown to the player, so the default is read from the catalog in the current language
+  constructor(kind: GenerationErrorKind, message: string = t(`errorDetail.${kind}`), cause?: unknown) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT.includes(this.kind);
+  }
+}
+
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+export const isSafetyReason = (reason: string | undefined): boolean => !!reason && SAFETY_REASONS.includes(reason);
+
+// Maps an HTTP status from any backend onto the error taxonomy
+export const kindFromStatus = (status: number): GenerationErrorKind => {
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'network';
+  if (status === 400 || status === 422) return 'malformed';
+  return 'unknown';
+};
+
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const err = error as { name?: string; status?: number; message?: string } | null;
+  if (err?.name === 'AbortError') return new GenerationError('aborted', undefined, error);
+  if (typeof err?.status === 'number') return new GenerationError(kindFromStatus(err.status), undefined, error);
+  if (err instanceof TypeError) return new GenerationError('network', undefined, error);
+  if (err instanceof SyntaxError) return new GenerationError('malformed', undefined, error);
+
+  const message = err?.message ?? '';
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new GenerationError('quota', undefined, error);
+  if (/failed to fetch|network|ECONN|ETIMEDOUT/i.test(message)) return new GenerationError('network', undefined, error);
+  return new GenerationError('unknown', undefined, error);
+};
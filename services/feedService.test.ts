@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { FeedError, parseFeed } from './feedService';
+
+const SOURCE = 'https://example.com/feed';
+
+const RSS = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Example News</title>
+    <item>
+      <title>Older story</title>
+      <link>https://example.com/older</link>
+      <description>Something happened yesterday.</description>
+      <pubDate>Mon, 12 Oct 2026 08:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Newer story</title>
+      <guid isPermaLink="true">https://example.com/newer</guid>
+      <description>Something happened today.</description>
+      <pubDate>Tue, 13 Oct 2026 08:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+const RDF = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://example.org/">
+    <title>RDF Wire</title>
+  </channel>
+  <item rdf:about="https://example.org/story">
+    <title>RDF story</title>
+    <link>https://example.org/story</link>
+    <description>Published the old way.</description>
+    <dc:date>2026-10-13T09:30:00Z</dc:date>
+  </item>
+</rdf:RDF>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Daily</title>
+  <entry>
+    <title>Atom story</title>
+    <id>urn:uuid:1</id>
+    <link rel="self" href="https://example.net/self/1"/>
+    <link rel="alternate" href="https://example.net/story/1"/>
+    <summary type="html">&lt;p&gt;An &lt;b&gt;escaped&lt;/b&gt; summary.&lt;/p&gt;</summary>
+    <updated>2026-10-13T10:00:00Z</updated>
+  </entry>
+</feed>`;
+
+describe('parseFeed', () => {
+  it('reads RSS 2.0 items newest first, falling back to a permalink guid', () => {
+    const feed = parseFeed(RSS, SOURCE);
+    expect(feed.title).toBe('Example News');
+    expect(feed.format).toBe('rss');
+    expect(feed.items.map(item => item.headline)).toEqual(['Newer story', 'Older story']);
+    expect(feed.items[0]).toMatchObject({
+      link: 'https://example.com/newer',
+      summary: 'Something happened today.',
+      publishedAt: '2026-10-13T08:00:00.000Z',
+    });
+    expect(feed.items[1].link).toBe('https://example.com/older');
+  });
+
+  it('reads RDF items with namespaced dates', () => {
+    const feed = parseFeed(RDF, SOURCE);
+    expect(feed.title).toBe('RDF Wire');
+    expect(feed.format).toBe('rss');
+    expect(feed.items).toEqual([{
+      id: 'https://example.org/story',
+      headline: 'RDF story',
+      summary: 'Published the old way.',
+      link: 'https://example.org/story',
+      publishedAt: '2026-10-13T09:30:00.000Z',
+    }]);
+  });
+
+  it('reads Atom entries, preferring the alternate link and flattening HTML summaries', () => {
+    const feed = parseFeed(ATOM, SOURCE);
+    expect(feed.title).toBe('Atom Daily');
+    expect(feed.format).toBe('atom');
+    expect(feed.items[0]).toMatchObject({
+      headline: 'Atom story',
+      summary: 'An escaped summary.',
+      link: 'https://example.net/story/1',
+    });
+  });
+
+  it('skips a leading BOM and junk before the prolog', () => {
+    const feed = parseFeed(`\uFEFF\n  garbage from a proxy\n${RSS}`, SOURCE);
+    expect(feed.items).toHaveLength(2);
+  });
+
+  it('survives bare ampersands', () => {
+    const feed = parseFeed(RSS.replace('Older story', 'Salt & pepper').replace('yesterday.', 'yesterday & today.'), SOURCE);
+    expect(feed.items[1].headline).toBe('Salt & pepper');
+    expect(feed.items[1].summary).toBe('Something happened yesterday & today.');
+  });
+
+  it('reads CDATA descriptions as plain text', () => {
+    const feed = parseFeed(RSS.replace('<description>Something happened today.</description>',
+      '<description><![CDATA[<p>Markets <em>rallied</em> & closed high.</p>]]></description>'), SOURCE);
+    expect(feed.items[0].summary).toBe('Markets rallied & closed high.');
+  });
+
+  it('recovers links and CDATA summaries from a truncated document', () => {
+    const truncated = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Cut Off</title>
+<item><title>Whole story</title><link>https://example.com/whole</link>
+<description><![CDATA[<p>Fully <b>delivered</b>.</p>]]></description>
+<pubDate>Tue, 13 Oct 2026 08:00:00 GMT</pubDate></item>
+<item><title>Partial story</title><link>https://example.com/partial</link><description><![CDATA[Cut off mid`;
+    const feed = parseFeed(truncated, SOURCE);
+    const whole = feed.items.find(item => item.headline === 'Whole story');
+    const partial = feed.items.find(item => item.headline === 'Partial story');
+    expect(whole).toMatchObject({ link: 'https://example.com/whole', summary: 'Fully delivered.' });
+    expect(partial).toMatchObject({ link: 'https://example.com/partial', summary: 'Cut off mid' });
+  });
+
+  it('throws a FeedError when nothing can be read', () => {
+    expect(() => parseFeed('   ', SOURCE)).toThrow(FeedError);
+    expect(() => parseFeed('<html><body><p>Not a feed</p></body></html>', SOURCE)).toThrow(FeedError);
+  });
+});
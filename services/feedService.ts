@@ -0,0 +1,192 @@
+import { FeedItem, NewsFeed, NewsSource, RequestOptions, TrendingTopic } from '../types';
+import { GenerationError } from './errors';
+import { withRequestPolicy, DEFAULT_TIMEOUT_MS } from './requestPolicy';
+import { toNewsSource } from './newsSources';
+import { topicIndexService } from './topicIndex';
+import { t } from './i18n';
+
+const FEED_URL_KEY = 'newsquest_feed_url';
+
+export const MAX_FEED_ITEMS = 50;
+export const MAX_SUMMARY_LENGTH = 280;
+
+export class FeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedError';
+  }
+}
+
+// Common damage in hand-made or truncated feeds: a BOM or junk before the prolog, bare ampersands, control characters
+const repairXml = (text: string): string =>
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/^[^<]+/, '')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&(?!#\d+;|#x[0-9a-f]+;|[a-z][a-z0-9]*;)/gi, '&amp;');
+
+const escapeMarkup = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The HTML parser turns CDATA into comments, so unwrap it into escaped text first (an unterminated one runs to the end)
+const unwrapCdata = (text: string): string =>
+  text.replace(/<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)/g, (_, content: string) => escapeMarkup(content));
+
+// Strict XML first; the HTML parser is forgiving enough to recover items from broken markup
+const parseDocument = (text: string): Document => {
+  const parser = new DOMParser();
+  const repaired = repairXml(text);
+  const xml = parser.parseFromString(repaired, 'application/xml');
+  if (!xml.getElementsByTagName('parsererror').length) return xml;
+  return parser.parseFromString(unwrapCdata(repaired), 'text/html');
+};
+
+// Matches by local name so namespaced tags (dc:date, atom:link) and HTML-parsed lowercase tags both work
+const childrenNamed = (parent: Element, ...names: string[]): Element[] =>
+  Array.from(parent.children).filter(child => names.includes((child.localName || child.nodeName).toLowerCase().replace(/^.*:/, '')));
+
+const childText = (parent: Element, ...names: string[]): string => {
+  for (const child of childrenNamed(parent, ...names)) {
+    const text = child.textContent?.trim();
+    if (text) return text;
+  }
+  return '';
+};
+
+// Summaries are often escaped HTML; reduce them to plain text
+const toPlainText = (value: string): string => {
+  const text = /[<&]/.test(value)
+    ? new DOMParser().parseFromString(value, 'text/html').body.textContent ?? ''
+    : value;
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).replace(/\s+\S*$/, '')}…` : text;
+
+const toIsoDate = (value: string): string | undefined => {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+const isHttpLink = (value: string) => /^https?:\/\//i.test(value);
+
+// HTML treats <link> as a void element, so there the URL ends up in the text node right after it
+const linkText = (item: Element): string => {
+  for (const link of childrenNamed(item, 'link')) {
+    const sibling = link.nextSibling;
+    const text = link.textContent?.trim() || (sibling?.nodeType === Node.TEXT_NODE ? sibling.textContent?.trim() : '');
+    if (text) return text;
+  }
+  return '';
+};
+
+const rssLink = (item: Element): string => {
+  const link = linkText(item);
+  if (isHttpLink(link)) return link;
+  // <guid isPermaLink="true"> doubles as the article URL
+  const guid = childText(item, 'guid');
+  return isHttpLink(guid) ? guid : '';
+};
+
+const atomLink = (entry: Element): string => {
+  const links = childrenNamed(entry, 'link');
+  const preferred = links.find(l => !l.getAttribute('rel') || l.getAttribute('rel') === 'alternate') ?? links[0];
+  const href = preferred?.getAttribute('href')?.trim() ?? '';
+  return isHttpLink(href) ? href : '';
+};
+
+const toFeedItem = (headline: string, summary: string, link: string, date: string, fallbackId: string): FeedItem | null => {
+  const cleanHeadline = truncate(toPlainText(headline), 200);
+  if (!cleanHeadline) return null;
+  const item: FeedItem = {
+    id: link || fallbackId,
+    headline: cleanHeadline,
+    summary: truncate(toPlainText(summary), MAX_SUMMARY_LENGTH),
+  };
+  if (link) item.link = link;
+  const publishedAt = toIsoDate(date);
+  if (publishedAt) item.publishedAt = publishedAt;
+  return item;
+};
+
+/**
+ * Parses an RSS 2.0 (or RDF 1.0) or Atom document into a normalized feed, newest items first.
+ * Items without a headline are dropped; a document with no usable items throws a FeedError.
+ */
+export const parseFeed = (text: string, source: string): NewsFeed => {
+  if (!text.trim()) throw new FeedError(t('feedError.empty'));
+  const doc = parseDocument(text);
+  const all = (tag: string) => Array.from(doc.getElementsByTagName(tag)).concat(Array.from(doc.getElementsByTagNameNS('*', tag)));
+  const unique = (elements: Element[]) => Array.from(new Set(elements));
+
+  const entries = unique(all('entry'));
+  const isAtom = entries.length > 0 && unique(all('item')).length === 0;
+  const rawItems: (FeedItem | null)[] = isAtom
+    ? entries.map((entry, i) => toFeedItem(
+        childText(entry, 'title'),
+        childText(entry, 'summary', 'content'),
+        atomLink(entry),
+        childText(entry, 'published', 'updated'),
+        childText(entry, 'id') || `${source}#${i}`
+      ))
+    : unique(all('item')).map((item, i) => toFeedItem(
+        childText(item, 'title'),
+        childText(item, 'description', 'encoded', 'summary'),
+        rssLink(item),
+        childText(item, 'pubdate', 'date', 'published', 'updated'),
+        childText(item, 'guid') || `${source}#${i}`
+      ));
+
+  // The same story can appear twice when a feed is re-published with a new date
+  const seen = new Set<string>();
+  const items = rawItems.filter((item): item is FeedItem => {
+    if (!item) return false;
+    const key = (item.link || item.headline).toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (items.length === 0) throw new FeedError(t('feedError.noStories'));
+
+  items.sort((a, b) => (b.publishedAt ? Date.parse(b.publishedAt) : 0) - (a.publishedAt ? Date.parse(a.publishedAt) : 0));
+
+  const container = isAtom ? doc.getElementsByTagName('feed')[0] ?? doc.getElementsByTagNameNS('*', 'feed')[0] : doc.getElementsByTagName('channel')[0];
+  const title = (container && toPlainText(childText(container, 'title'))) || source;
+  return { title, format: isAtom ? 'atom' : 'rss', source, items: items.slice(0, MAX_FEED_ITEMS) };
+};
+
+// The topic text mirrors what trending search returns: a headline and a one-line summary
+export const feedItemToTopic = (item: FeedItem, feed: NewsFeed): TrendingTopic => {
+  const source = item.link ? toNewsSource({ url: item.link, title: item.headline, publisher: feed.title, publishedAt: item.publishedAt }) : null;
+  const sources: NewsSource[] = source ? [source] : [];
+  return { headline: item.summary ? `${item.headline} - ${item.summary}` : item.headline, sources };
+};
+
+// Newest story not played within the seen-topics window, or the newest overall when all have been
+export const autoPickItem = (feed: NewsFeed): FeedItem | null =>
+  feed.items.find(item => !topicIndexService.isSeen(item.headline, item.link ? [item.link] : [])) ?? feed.items[0] ?? null;
+
+export const feedService = {
+  // The player's last URL wins over the one configured for the build
+  getFeedUrl: (): string => localStorage.getItem(FEED_URL_KEY) || process.env.NEWS_FEED_URL || '',
+
+  setFeedUrl: (url: string) => {
+    if (url.trim()) {
+      localStorage.setItem(FEED_URL_KEY, url.trim());
+    } else {
+      localStorage.removeItem(FEED_URL_KEY);
+    }
+  },
+
+  loadFromUrl: async (url: string, options?: RequestOptions): Promise<NewsFeed> => {
+    const text = await withRequestPolicy(async (signal) => {
+      const response = await fetch(url, { signal });
+      if (!response.ok) throw new GenerationError('network', t('feedError.status', { status: response.status }));
+      return response.text();
+    }, DEFAULT_TIMEOUT_MS.news, options);
+    return parseFeed(text, url);
+  },
+
+  loadFromFile: async (file: File): Promise<NewsFeed> => parseFeed(await file.text(), file.name),
+};
@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameActionType, GameState, RiddleData, ScoreBreakdown } from '../types';
+import { createInitialGameState, gameReducer } from './gameReducer';
+import { HINT_TIME_COST_MS } from './roundTimer';
+
+const riddle = (overrides: Partial<RiddleData> = {}): RiddleData => ({
+  image_prompt: 'A lighthouse at dusk',
+  riddle_question: 'I shine but never sleep. What am I?',
+  choices: ['A lighthouse', 'The moon', 'A lamp'],
+  answerIndex: 0,
+  hints: ['I stand by the sea', 'Ships look for me'],
+  fun_fact: '',
+  difficulty: 'medium',
+  ...overrides,
+});
+
+const award = (total: number): ScoreBreakdown => ({ base: total, hintPenalty: 0, timeBonus: 0, multiplier: 1, total });
+
+const run = (state: GameState, ...actions: GameAction[]): GameState => actions.reduce(gameReducer, state);
+
+const playing = (current = riddle(), score = 0): GameState => run(
+  createInitialGameState(score),
+  { type: GameActionType.START_GEN_RIDDLE },
+  { type: GameActionType.RIDDLE_READY, payload: current },
+);
+
+describe('gameReducer', () => {
+  it('returns the same state for an action its status does not allow', () => {
+    const idle = createInitialGameState(0);
+    expect(gameReducer(idle, { type: GameActionType.ANSWER_SELECTED, payload: 0 })).toBe(idle);
+    expect(gameReducer(idle, { type: GameActionType.REVEAL_HINT })).toBe(idle);
+
+    const state = playing();
+    expect(gameReducer(state, { type: GameActionType.OPEN_HISTORY })).toBe(state);
+    expect(gameReducer(state, { type: GameActionType.SCORE_AWARDED, payload: award(100) })).toBe(state);
+  });
+
+  it('ignores image results for a riddle that is no longer on show', () => {
+    const stale = riddle({ riddle_question: 'An older riddle' });
+    const state = playing();
+    expect(gameReducer(state, { type: GameActionType.IMAGE_READY, payload: { riddle: stale, imageUrl: 'blob:old' } })).toBe(state);
+    expect(gameReducer(state, { type: GameActionType.IMAGE_FAILED, payload: { riddle: stale } })).toBe(state);
+
+    const ready = gameReducer(state, { type: GameActionType.IMAGE_READY, payload: { riddle: state.riddle!, imageUrl: 'blob:new' } });
+    expect(ready).toMatchObject({ imageUrl: 'blob:new', imageStatus: 'ready' });
+  });
+
+  it('charges each hint against the clock on a timed round', () => {
+    const timed = run(playing(), { type: GameActionType.TIMER_STARTED, payload: { difficulty: 'medium', now: 0 } });
+    const hinted = run(timed, { type: GameActionType.REVEAL_HINT }, { type: GameActionType.REVEAL_HINT });
+    expect(hinted.hintsRevealed).toBe(2);
+    expect(hinted.timer?.penaltyMs).toBe(2 * HINT_TIME_COST_MS);
+
+    // Both hints are out, so a third request changes nothing
+    expect(gameReducer(hinted, { type: GameActionType.REVEAL_HINT })).toBe(hinted);
+  });
+
+  it('refuses hints while the clock is paused', () => {
+    const paused = run(
+      playing(),
+      { type: GameActionType.TIMER_STARTED, payload: { difficulty: 'medium', now: 0 } },
+      { type: GameActionType.TIMER_PAUSED, payload: { now: 1000 } },
+    );
+    expect(paused.timer?.runningSince).toBeNull();
+    expect(gameReducer(paused, { type: GameActionType.REVEAL_HINT })).toBe(paused);
+  });
+
+  it('adds only the first award of a round to the session score', () => {
+    const solved = run(playing(riddle(), 50), { type: GameActionType.ANSWER_SELECTED, payload: 0 });
+    const scored = run(
+      solved,
+      { type: GameActionType.SCORE_AWARDED, payload: award(100) },
+      { type: GameActionType.SCORE_AWARDED, payload: award(100) },
+    );
+    expect(scored.score).toBe(150);
+    expect(scored.lastScore?.total).toBe(100);
+  });
+
+  it('keeps party points out of the session score', () => {
+    const party = run(
+      createInitialGameState(50),
+      { type: GameActionType.START_GEN_RIDDLE, payload: { mode: 'party' } },
+      { type: GameActionType.RIDDLE_READY, payload: riddle() },
+      { type: GameActionType.ANSWER_SELECTED, payload: 1 },
+      { type: GameActionType.SCORE_AWARDED, payload: award(40) },
+    );
+    expect(party.status).toBe('failed');
+    expect(party.score).toBe(50);
+    expect(party.lastScore?.total).toBe(40);
+  });
+
+  it('hands the same riddle to the next player with a fresh clock', () => {
+    const finished = run(
+      createInitialGameState(0),
+      { type: GameActionType.START_GEN_RIDDLE, payload: { mode: 'party' } },
+      { type: GameActionType.RIDDLE_READY, payload: riddle() },
+      { type: GameActionType.TIMER_STARTED, payload: { difficulty: 'medium', now: 0 } },
+      { type: GameActionType.REVEAL_HINT },
+      { type: GameActionType.ANSWER_SELECTED, payload: 0 },
+      { type: GameActionType.TIMER_STOPPED, payload: { now: 5000 } },
+      { type: GameActionType.SCORE_AWARDED, payload: award(80) },
+    );
+    const next = gameReducer(finished, { type: GameActionType.PASS_TURN });
+    expect(next).toMatchObject({ status: 'playing', selectedAnswer: null, hintsRevealed: 0, timer: null, lastScore: null });
+    expect(next.riddle).toBe(finished.riddle);
+
+    const restarted = gameReducer(next, { type: GameActionType.TIMER_STARTED, payload: { difficulty: 'medium', now: 9000 } });
+    expect(restarted.timer).toMatchObject({ penaltyMs: 0, elapsedMs: 0, runningSince: 9000, expired: false });
+  });
+});
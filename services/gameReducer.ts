@@ -0,0 +1,227 @@
+import { GameState, GameStatus, GameAction, GameActionType, ImageStyle } from '../types';
+import { getFormat, isAnswerCorrect, isTypedFormat } from './riddleFormats';
+import { createRoundTimer, pauseTimer, resumeTimer, HINT_TIME_COST_MS } from './roundTimer';
+import { MAX_IMAGE_REGENERATIONS } from './imageStyles';
+
+export const initialGameState: GameState = {
+  status: 'idle',
+  mode: 'classic',
+  riddle: null,
+  imageUrl: null,
+  imageStatus: 'none',
+  imageVariants: [],
+  imageRegenerationsLeft: 0,
+  isRegeneratingImage: false,
+  selectedAnswer: null,
+  answerText: null,
+  hintsRevealed: 0,
+  timer: null,
+  score: 0,
+  lastScore: null
+};
+
+export const createInitialGameState = (score: number): GameState => ({ ...initialGameState, score });
+
+const ROUND_START: GameStatus[] = ['idle', 'error', 'solved', 'failed', 'run_summary', 'party', 'party_scoreboard'];
+const LOADING: GameStatus[] = ['searching', 'generating_riddle'];
+
+// Statuses each action may be dispatched from; anything else is ignored by the reducer
+export const ALLOWED_TRANSITIONS: Record<GameActionType, GameStatus[]> = {
+  [GameActionType.START_SEARCH]: ROUND_START,
+  [GameActionType.START_GEN_RIDDLE]: [...ROUND_START, 'searching', 'packs'],
+  [GameActionType.RIDDLE_READY]: ['generating_riddle'],
+  // The round is playable from RIDDLE_READY on; the image can arrive at any point during it
+  [GameActionType.IMAGE_READY]: ['playing', 'solved', 'failed'],
+  [GameActionType.IMAGE_FAILED]: ['playing', 'solved', 'failed'],
+  // Swapping pictures after answering would no longer change what gets recorded, so only mid-round
+  [GameActionType.IMAGE_REGENERATING]: ['playing'],
+  [GameActionType.IMAGE_VARIANT_SELECTED]: ['playing'],
+  [GameActionType.ANSWER_SELECTED]: ['playing'],
+  [GameActionType.ANSWER_SUBMITTED]: ['playing'],
+  [GameActionType.REVEAL_HINT]: ['playing'],
+  [GameActionType.SCORE_AWARDED]: ['solved', 'failed'],
+  [GameActionType.RESET]: ['idle', 'searching', 'generating_riddle', 'playing', 'solved', 'failed', 'error', 'history', 'stats', 'packs', 'run_summary', 'party', 'party_scoreboard'],
+  [GameActionType.ERROR]: LOADING,
+  [GameActionType.OPEN_HISTORY]: ['idle'],
+  [GameActionType.CLOSE_HISTORY]: ['history'],
+  [GameActionType.OPEN_STATS]: ['idle'],
+  [GameActionType.CLOSE_STATS]: ['stats'],
+  [GameActionType.OPEN_PACKS]: ['idle', 'solved', 'failed'],
+  [GameActionType.CLOSE_PACKS]: ['packs'],
+  [GameActionType.TIMER_STARTED]: ['playing'],
+  [GameActionType.TIMER_PAUSED]: ['playing'],
+  [GameActionType.TIMER_RESUMED]: ['playing'],
+  [GameActionType.TIMER_STOPPED]: ['solved', 'failed'],
+  [GameActionType.TIME_EXPIRED]: ['playing'],
+  [GameActionType.SHOW_RUN_SUMMARY]: ['solved', 'failed'],
+  [GameActionType.CLOSE_RUN_SUMMARY]: ['run_summary'],
+  [GameActionType.OPEN_PARTY]: ['idle'],
+  [GameActionType.CLOSE_PARTY]: ['party'],
+  [GameActionType.PASS_TURN]: ['solved', 'failed'],
+  [GameActionType.SHOW_PARTY_SCOREBOARD]: ['solved', 'failed'],
+};
+
+export const canTransition = (status: GameStatus, type: GameActionType): boolean =>
+  ALLOWED_TRANSITIONS[type].includes(status);
+
+// Style of the picture currently on show, recorded with the riddle when the round is saved
+export const shownImageStyle = (state: GameState): ImageStyle | undefined =>
+  state.imageVariants.find(variant => variant.url === state.imageUrl)?.style;
+
+const clearRound = (state: GameState): GameState => ({
+  ...state,
+  riddle: null,
+  imageUrl: null,
+  imageStatus: 'none',
+  imageVariants: [],
+  imageRegenerationsLeft: 0,
+  isRegeneratingImage: false,
+  selectedAnswer: null,
+  answerText: null,
+  hintsRevealed: 0,
+  timer: null,
+  lastScore: null,
+  error: undefined,
+  errorKind: undefined
+});
+
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  if (!canTransition(state.status, action.type)) return state;
+
+  switch (action.type) {
+    case GameActionType.START_SEARCH:
+      return { ...clearRound(state), status: 'searching', mode: action.payload?.mode ?? 'classic' };
+    case GameActionType.START_GEN_RIDDLE: {
+      // A search step already chose the mode for this round
+      const mode = action.payload?.mode ?? (state.status === 'searching' ? state.mode : 'classic');
+      return { ...clearRound(state), status: 'generating_riddle', mode };
+    }
+    case GameActionType.RIDDLE_READY:
+      return {
+        ...state,
+        status: 'playing',
+        riddle: action.payload,
+        imageUrl: null,
+        imageStatus: 'pending',
+        imageVariants: [],
+        imageRegenerationsLeft: MAX_IMAGE_REGENERATIONS,
+        isRegeneratingImage: false
+      };
+    case GameActionType.IMAGE_READY: {
+      if (action.payload.riddle !== state.riddle) return state;
+      const variant = { url: action.payload.imageUrl, style: action.payload.style ?? 'auto' };
+      return {
+        ...state,
+        // A regenerated picture that lands after the answer is kept for comparison but not swapped in
+        imageUrl: state.imageUrl && state.status !== 'playing' ? state.imageUrl : variant.url,
+        imageStatus: 'ready',
+        imageVariants: [...state.imageVariants, variant],
+        isRegeneratingImage: false
+      };
+    }
+    case GameActionType.IMAGE_FAILED:
+      if (action.payload.riddle !== state.riddle) return state;
+      // A failed regeneration leaves the pictures already painted in place
+      if (state.imageVariants.length > 0) return { ...state, isRegeneratingImage: false };
+      return { ...state, imageStatus: 'failed', isRegeneratingImage: false };
+    case GameActionType.IMAGE_REGENERATING:
+      // The first picture has to settle before another is asked for, and each round has a budget
+      if (action.payload.riddle !== state.riddle || state.imageStatus === 'pending') return state;
+      if (state.isRegeneratingImage || state.imageRegenerationsLeft <= 0) return state;
+      return { ...state, isRegeneratingImage: true, imageRegenerationsLeft: state.imageRegenerationsLeft - 1 };
+    case GameActionType.IMAGE_VARIANT_SELECTED: {
+      const variant = state.imageVariants[action.payload];
+      if (!variant) return state;
+      return { ...state, imageUrl: variant.url };
+    }
+    case GameActionType.ANSWER_SELECTED: {
+      const choices = state.riddle?.choices ?? [];
+      if (!state.riddle || action.payload < 0 || action.payload >= choices.length) return state;
+      if (isTypedFormat(getFormat(state.riddle))) return state;
+      if (state.timer && state.timer.runningSince === null) return state;
+      const isCorrect = action.payload === state.riddle.answerIndex;
+      return { ...state, status: isCorrect ? 'solved' : 'failed', selectedAnswer: action.payload };
+    }
+    case GameActionType.ANSWER_SUBMITTED: {
+      if (!state.riddle || !isTypedFormat(getFormat(state.riddle)) || !action.payload.trim()) return state;
+      if (state.timer && state.timer.runningSince === null) return state;
+      const isCorrect = isAnswerCorrect(state.riddle, null, action.payload);
+      return { ...state, status: isCorrect ? 'solved' : 'failed', answerText: action.payload.trim() };
+    }
+    case GameActionType.REVEAL_HINT:
+      if (!state.riddle || state.hintsRevealed >= state.riddle.hints.length) return state;
+      // Hints are locked while the clock is paused, and cost seconds on a timed round
+      if (state.timer && state.timer.runningSince === null) return state;
+      return {
+        ...state,
+        hintsRevealed: state.hintsRevealed + 1,
+        timer: state.timer && { ...state.timer, penaltyMs: state.timer.penaltyMs + HINT_TIME_COST_MS }
+      };
+    case GameActionType.SCORE_AWARDED:
+      // Only the first award of a round counts; party points belong to the players, not the session
+      if (state.lastScore) return state;
+      if (state.mode === 'party') return { ...state, lastScore: action.payload };
+      return { ...state, score: state.score + action.payload.total, lastScore: action.payload };
+    case GameActionType.RESET:
+      return { ...clearRound(state), status: 'idle', mode: 'classic' };
+    case GameActionType.ERROR:
+      return { ...state, status: 'error', error: action.payload.message, errorKind: action.payload.kind };
+    case GameActionType.OPEN_HISTORY:
+      return { ...state, status: 'history' };
+    case GameActionType.CLOSE_HISTORY:
+      return { ...state, status: 'idle' };
+    case GameActionType.OPEN_STATS:
+      return { ...state, status: 'stats' };
+    case GameActionType.CLOSE_STATS:
+      return { ...state, status: 'idle' };
+    case GameActionType.OPEN_PACKS:
+      return { ...clearRound(state), status: 'packs', mode: 'classic' };
+    case GameActionType.CLOSE_PACKS:
+      return { ...state, status: 'idle' };
+    case GameActionType.SHOW_RUN_SUMMARY:
+      return { ...clearRound(state), status: 'run_summary' };
+    case GameActionType.CLOSE_RUN_SUMMARY:
+      return { ...state, status: 'idle', mode: 'classic' };
+    case GameActionType.OPEN_PARTY:
+      return { ...state, status: 'party' };
+    case GameActionType.CLOSE_PARTY:
+      return { ...state, status: 'idle' };
+    case GameActionType.PASS_TURN:
+      if (!state.riddle) return state;
+      return {
+        ...state,
+        status: 'playing',
+        selectedAnswer: null,
+        answerText: null,
+        hintsRevealed: 0,
+        timer: null,
+        lastScore: null
+      };
+    case GameActionType.SHOW_PARTY_SCOREBOARD:
+      return { ...clearRound(state), status: 'party_scoreboard' };
+    case GameActionType.TIMER_STARTED:
+      if (state.timer) return state;
+      return { ...state, timer: createRoundTimer(action.payload.difficulty, action.payload.now) };
+    case GameActionType.TIMER_PAUSED:
+      // Pausing is only fair while the picture is still on its way
+      if (!state.timer || state.imageStatus !== 'pending') return state;
+      return { ...state, timer: pauseTimer(state.timer, action.payload.now) };
+    case GameActionType.TIMER_RESUMED:
+      if (!state.timer) return state;
+      return { ...state, timer: resumeTimer(state.timer, action.payload.now) };
+    case GameActionType.TIMER_STOPPED:
+      if (!state.timer) return state;
+      return { ...state, timer: pauseTimer(state.timer, action.payload.now) };
+    case GameActionType.TIME_EXPIRED:
+      if (!state.timer) return state;
+      return {
+        ...state,
+        status: 'failed',
+        selectedAnswer: null,
+        answerText: null,
+        timer: { ...pauseTimer(state.timer, action.payload.now), expired: true }
+      };
+    default:
+      return state;
+  }
+};
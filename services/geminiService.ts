@@ -1,9 +1,27 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { RiddleData, Difficulty } from "../types";
+import { GoogleGenAI, Type, Schema, GenerateContentResponse } from "@google/genai";
+import { RiddleData, Difficulty, RiddleProvider, ImageOptions, RiddleOptions, RiddleConstraints, RiddleFormat, TrendingTopic, NewsOptions, NewsCategory, Language } from "../types";
+import { validateRiddle, RiddleValidationError, CHOICE_COUNT, MIN_HINTS, MAX_HINTS, MAX_ACCEPTED_ANSWERS } from "./riddleValidator";
+import { FORMAT_CHOICE_COUNT } from "./riddleFormats";
+import { normalizeSources, looksLikeDomain } from "./newsSources";
+import { describeCategoryFilters } from "./categoryService";
+import { LANGUAGES, t } from "./i18n";
+import { composeImagePrompt } from "./imageStyles";
+import { GenerationError, isSafetyReason } from "./errors";
+import { withRequestPolicy, DEFAULT_TIMEOUT_MS } from "./requestPolicy";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const MAX_RIDDLE_ATTEMPTS = 3;
 
-// System instruction from the user prompt
+// Created lazily so the app can boot without an API key when another provider is selected
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+// System instruction from the user prompt; the answer fields depend on the riddle format
 const RIDDLE_MAKER_INSTRUCTION = `
 You are an AI that generates short, safe, visually-clear image riddles based on the context of real news articles or topics.
 
@@ -16,53 +34,149 @@ Your role:
 For the input topic, generate:
 1) image_prompt: A detailed visual description for text-to-image generation (NO text inside image). The image must reflect the theme.
 2) riddle_question: A clever, short riddle inspired by the news topic.
-3) choices: 4 variants.
-4) answerIndex: 0–3.
-5) hints: 2 subtle clues.
-6) fun_fact: Interesting fact related to the topic.
 `;
 
-const riddleResponseSchema: Schema = {
+const ANSWER_INSTRUCTIONS: Record<RiddleFormat, string> = {
+  multiple_choice: `3) choices: exactly ${CHOICE_COUNT} distinct variants.
+4) answerIndex: 0–${CHOICE_COUNT - 1}, the index of the correct choice.`,
+  true_false: `The riddle_question must be a statement about the topic that is either true or false.
+3) is_true: true when the statement is correct, false when it is not.`,
+  odd_one_out: `The riddle_question asks which item does not belong with the others.
+3) choices: exactly ${FORMAT_CHOICE_COUNT.odd_one_out} items; all but one share a link to the topic.
+4) answerIndex: the index of the item that does not belong.`,
+  free_text: `The answer is typed by the player, so it must be short (one to three words).
+3) answer: the correct answer.
+4) accepted_answers: up to ${MAX_ACCEPTED_ANSWERS} synonyms or alternative spellings that should also count.`,
+  anagram: `The answer is a single word the player unscrambles from its letters.
+3) answer: one word of 3-12 letters, no spaces, hyphens or digits.`
+};
+
+// The image model works best from English prompts, so only the player-facing text is translated
+const languageInstruction = (language: Language): string => language === 'en' ? "" : `
+Write riddle_question, the answer fields, hints and fun_fact in ${LANGUAGES[language].englishName}. Keep image_prompt in English.
+`;
+
+const riddleMakerInstruction = (format: RiddleFormat, language: Language): string => `${RIDDLE_MAKER_INSTRUCTION}${ANSWER_INSTRUCTIONS[format]}
+5) hints: 2 subtle clues (never more than 3).
+6) fun_fact: Interesting fact related to the topic.
+${languageInstruction(language)}`;
+
+const stringList = (count: number): Schema => ({
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+  minItems: String(count),
+  maxItems: String(count),
+});
+
+const ANSWER_SCHEMAS: Record<RiddleFormat, { properties: Record<string, Schema>; required: string[] }> = {
+  multiple_choice: {
+    properties: { choices: stringList(CHOICE_COUNT), answerIndex: { type: Type.INTEGER } },
+    required: ["choices", "answerIndex"],
+  },
+  true_false: {
+    properties: { is_true: { type: Type.BOOLEAN } },
+    required: ["is_true"],
+  },
+  odd_one_out: {
+    properties: { choices: stringList(FORMAT_CHOICE_COUNT.odd_one_out), answerIndex: { type: Type.INTEGER } },
+    required: ["choices", "answerIndex"],
+  },
+  free_text: {
+    properties: {
+      answer: { type: Type.STRING },
+      accepted_answers: { type: Type.ARRAY, items: { type: Type.STRING }, maxItems: String(MAX_ACCEPTED_ANSWERS) },
+    },
+    required: ["answer"],
+  },
+  anagram: {
+    properties: { answer: { type: Type.STRING } },
+    required: ["answer"],
+  },
+};
+
+const riddleResponseSchema = (format: RiddleFormat): Schema => ({
   type: Type.OBJECT,
   properties: {
     image_prompt: { type: Type.STRING },
     riddle_question: { type: Type.STRING },
-    choices: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-    },
-    answerIndex: { type: Type.INTEGER },
+    ...ANSWER_SCHEMAS[format].properties,
     hints: {
       type: Type.ARRAY,
       items: { type: Type.STRING },
+      minItems: String(MIN_HINTS),
+      maxItems: String(MAX_HINTS),
     },
     fun_fact: { type: Type.STRING },
   },
-  required: ["image_prompt", "riddle_question", "choices", "answerIndex", "hints", "fun_fact"],
+  required: ["image_prompt", "riddle_question", ...ANSWER_SCHEMAS[format].required, "hints", "fun_fact"],
+});
+
+// Safety blocks come back as a successful response with no usable content
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (isSafetyReason(blockReason) || isSafetyReason(finishReason)) {
+    throw new GenerationError('safety');
+  }
 };
 
-export const fetchTrendingNews = async (category?: string): Promise<string> => {
+// Search grounding lists the pages the answer was built from; chunks without a web link are skipped.
+// Chunk titles are often just the site's domain, in which case the headline names the story better.
+const groundingSources = (response: GenerateContentResponse, headline: string) =>
+  normalizeSources((response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []).map(chunk => {
+    const title = chunk.web?.title ?? "";
+    return {
+      url: chunk.web?.uri,
+      title: looksLikeDomain(title) ? headline.split(/\n| - /)[0].replace(/[*#]/g, "") : title,
+      publisher: chunk.web?.domain ?? (looksLikeDomain(title) ? title : undefined),
+    };
+  }));
+
+export const fetchTrendingNews = async (category?: NewsCategory, options?: NewsOptions): Promise<TrendingTopic> => {
+  const categoryPrompt = category
+    ? ` specifically related to the category "${category.name}".${describeCategoryFilters(category).map(f => ` ${f}`).join("")}`
+    : ".";
+  const avoidPrompt = options?.avoid?.length
+    ? `\n\nThe player has already seen these stories, so pick a different one:\n- ${options.avoid.join("\n- ")}`
+    : "";
   try {
-    const categoryPrompt = category ? ` specifically related to the category "${category}"` : "";
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Find a trending, interesting, family-friendly news headline from today or this week${categoryPrompt}. Return only the headline and a 1-sentence summary.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-
-    // Check for grounding chunks to verify search worked, though we just need the text
-    const text = response.text;
-    if (!text) throw new Error("Failed to find trending news.");
-    return text;
+    return await withRequestPolicy(async (abortSignal) => {
+      const response = await getClient().models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: `Find a trending, interesting, family-friendly news headline from today or this week${categoryPrompt} Return only the headline and a 1-sentence summary.${avoidPrompt}`,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal,
+        },
+      });
+      assertNotBlocked(response);
+
+      const text = response.text;
+      if (!text) throw new GenerationError('malformed', t('errorDetail.noTrending'));
+      return { headline: text, sources: groundingSources(response, text) };
+    }, DEFAULT_TIMEOUT_MS.news, options);
   } catch (error) {
     console.error("Error fetching news:", error);
-    throw new Error("Could not fetch trending news. Please try a manual topic.");
+    throw error;
   }
 };
 
-export const generateRiddleFromTopic = async (topic: string, difficulty: Difficulty): Promise<RiddleData> => {
+const DISTRACTOR_INSTRUCTIONS: Record<RiddleConstraints['distractors'], string> = {
+  distinct: "The wrong choices should be clearly different from the answer.",
+  plausible: "The wrong choices should be plausible and belong to the same theme as the answer.",
+  close: "The wrong choices should be close calls that only careful reasoning rules out."
+};
+
+const HINT_INSTRUCTIONS: Record<RiddleConstraints['hints'], string> = {
+  generous: "Hints should point strongly towards the answer.",
+  balanced: "Hints should narrow the choices without giving the answer away.",
+  sparing: "Hints should be oblique nudges rather than giveaways."
+};
+
+const constraintInstruction = (constraints?: RiddleConstraints): string =>
+  constraints ? `\n\nFine-tuning: ${DISTRACTOR_INSTRUCTIONS[constraints.distractors]} ${HINT_INSTRUCTIONS[constraints.hints]}` : "";
+
+export const generateRiddleFromTopic = async (topic: string, difficulty: Difficulty, options?: RiddleOptions): Promise<RiddleData> => {
   try {
     const difficultyInstruction = {
       easy: "Target Audience: Kids/Beginners. The riddle should be simple, direct, and use easy vocabulary. The image_prompt should act as a literal, very helpful visual clue.",
@@ -70,62 +184,111 @@ export const generateRiddleFromTopic = async (topic: string, difficulty: Difficu
       hard: "Target Audience: Puzzle Experts. The riddle should be abstract, cryptic, or use complex lateral thinking. The image_prompt should be subtle, artistic, symbolic, or tangential—making the user think deeply to find the connection."
     }[difficulty];
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a riddle based on this topic: ${topic}. \n\nConstraint: ${difficultyInstruction}`,
-      config: {
-        systemInstruction: RIDDLE_MAKER_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: riddleResponseSchema,
-      },
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No data returned from Gemini.");
-    
-    const data = JSON.parse(text) as RiddleData;
-    // Inject the topic back into the data for reference
-    data.news_topic = topic; 
-    data.difficulty = difficulty;
-    return data;
+    const format = options?.format ?? 'multiple_choice';
+    const language = options?.language ?? 'en';
+    const basePrompt = `Generate a riddle based on this topic: ${topic}. \n\nConstraint: ${difficultyInstruction}${constraintInstruction(options?.constraints)}`;
+    let lastErrors: string[] = [];
+
+    // Re-prompt with the validation errors until the output is playable or the budget runs out
+    for (let attempt = 0; attempt < MAX_RIDDLE_ATTEMPTS; attempt++) {
+      const correction = lastErrors.length > 0
+        ? `\n\nYour previous answer was rejected for these reasons:\n- ${lastErrors.join("\n- ")}\nFix every issue.`
+        : "";
+
+      const response = await withRequestPolicy(async (abortSignal) => {
+        const result = await getClient().models.generateContent({
+          model: "gemini-2.5-flash",
+          contents: basePrompt + correction,
+          config: {
+            systemInstruction: riddleMakerInstruction(format, language),
+            responseMimeType: "application/json",
+            responseSchema: riddleResponseSchema(format),
+            ...(options?.seed !== undefined && { seed: options.seed, temperature: 0 }),
+            abortSignal,
+          },
+        });
+        assertNotBlocked(result);
+        return result;
+      }, DEFAULT_TIMEOUT_MS.riddle, options);
+
+      const text = response.text;
+      if (!text) {
+        lastErrors = ["The response was empty."];
+        continue;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        lastErrors = ["The response was not valid JSON."];
+        continue;
+      }
+
+      const { riddle, errors, repairs } = validateRiddle(parsed, format);
+      if (!riddle) {
+        lastErrors = errors;
+        continue;
+      }
+      if (repairs.length > 0) console.warn("Repaired generated riddle:", repairs);
+
+      // Inject the topic back into the data for reference
+      riddle.news_topic = topic;
+      riddle.difficulty = difficulty;
+      if (language !== 'en') riddle.language = language;
+      return riddle;
+    }
+
+    throw new RiddleValidationError(lastErrors);
   } catch (error) {
     console.error("Error generating riddle text:", error);
-    throw new Error("Failed to generate riddle logic.");
+    throw error;
   }
 };
 
-export const generateRiddleImage = async (prompt: string): Promise<string> => {
+export const generateRiddleImage = async (prompt: string, options?: ImageOptions): Promise<string> => {
   try {
-    // Using gemini-2.5-flash-image for standard generation
-    // We could upgrade to 'gemini-3-pro-image-preview' if higher quality is needed,
-    // but Flash Image is fast and efficient for this game loop.
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
-      contents: {
-        parts: [{ text: prompt }],
-      },
-      config: {
-        // No responseMimeType for image generation models in this mode
-      }
-    });
-
-    // Iterate through parts to find the image
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          const base64Data = part.inlineData.data;
-          // Assuming PNG as it's common, but the API usually returns JPEG or PNG. 
-          // The mimeType field in inlineData should be used.
-          const mimeType = part.inlineData.mimeType || "image/png";
-          return `data:${mimeType};base64,${base64Data}`;
+    return await withRequestPolicy(async (abortSignal) => {
+      // Using gemini-2.5-flash-image for standard generation
+      // We could upgrade to 'gemini-3-pro-image-preview' if higher quality is needed,
+      // but Flash Image is fast and efficient for this game loop.
+      const response = await getClient().models.generateContent({
+        model: "gemini-2.5-flash-image",
+        contents: {
+          parts: [{ text: composeImagePrompt(prompt, options?.style) }],
+        },
+        config: {
+          // No responseMimeType for image generation models in this mode
+          abortSignal,
+        }
+      });
+      assertNotBlocked(response);
+
+      // Iterate through parts to find the image
+      const parts = response.candidates?.[0]?.content?.parts;
+      if (parts) {
+        for (const part of parts) {
+          if (part.inlineData && part.inlineData.data) {
+            const base64Data = part.inlineData.data;
+            // Assuming PNG as it's common, but the API usually returns JPEG or PNG. 
+            // The mimeType field in inlineData should be used.
+            const mimeType = part.inlineData.mimeType || "image/png";
+            return `data:${mimeType};base64,${base64Data}`;
+          }
         }
       }
-    }
-    
-    throw new Error("No image data found in response.");
+
+      throw new GenerationError('malformed', t('errorDetail.noImage'));
+    }, DEFAULT_TIMEOUT_MS.image, options);
   } catch (error) {
     console.error("Error generating image:", error);
-    throw new Error("Failed to generate the riddle image.");
+    throw error;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: RiddleProvider = {
+  kind: 'gemini',
+  fetchTrendingNews,
+  generateRiddleFromTopic,
+  generateRiddleImage,
+};
@@ -0,0 +1,61 @@
+import { RiddleData, Difficulty, RiddleProvider, RequestOptions, ImageOptions, RiddleOptions, TrendingTopic, NewsOptions, NewsCategory } from "../types";
+import { assertValidRiddle } from "./riddleValidator";
+import { GenerationError, kindFromStatus } from "./errors";
+import { withRequestPolicy, DEFAULT_TIMEOUT_MS } from "./requestPolicy";
+import { normalizeSources } from "./newsSources";
+import { composeImagePrompt } from "./imageStyles";
+import { t } from "./i18n";
+
+// Talks to a local stand-in server exposing POST /news, /riddle and /image with JSON bodies.
+// /news receives the category's name, keywords, region, language and exclusions plus recently seen headlines as `avoid`,
+// and may list the articles behind its headline as `sources: [{ title, url, publisher?, publishedAt? }]`.
+
+const postJson = <T>(baseUrl: string, path: string, body: unknown, timeoutMs: number, options?: RequestOptions): Promise<T> =>
+  withRequestPolicy(async (signal) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new GenerationError(kindFromStatus(response.status), t('errorDetail.serverStatus', { status: response.status, path }));
+    }
+    return response.json() as Promise<T>;
+  }, timeoutMs, options);
+
+export const createHttpProvider = (baseUrl: string): RiddleProvider => ({
+  kind: 'http',
+
+  fetchTrendingNews: async (category?: NewsCategory, options?: NewsOptions): Promise<TrendingTopic> => {
+    const body = {
+      category: category?.name,
+      keywords: category?.keywords ?? [],
+      region: category?.region,
+      language: category?.language,
+      exclude: category?.exclude ?? [],
+      avoid: options?.avoid ?? [],
+    };
+    const { headline, sources } = await postJson<{ headline: string; sources?: unknown }>(baseUrl, "/news", body, DEFAULT_TIMEOUT_MS.news, options);
+    if (!headline) throw new GenerationError('malformed', t('errorDetail.noTrending'));
+    return { headline, sources: normalizeSources(sources) };
+  },
+
+  generateRiddleFromTopic: async (topic: string, difficulty: Difficulty, options?: RiddleOptions): Promise<RiddleData> => {
+    const format = options?.format ?? 'multiple_choice';
+    const language = options?.language ?? 'en';
+    const body = { topic, difficulty, format, language, constraints: options?.constraints, seed: options?.seed };
+    const data = assertValidRiddle(await postJson<unknown>(baseUrl, "/riddle", body, DEFAULT_TIMEOUT_MS.riddle, options), format);
+    data.news_topic = topic;
+    data.difficulty = difficulty;
+    if (language !== 'en') data.language = language;
+    return data;
+  },
+
+  generateRiddleImage: async (prompt: string, options?: ImageOptions): Promise<string> => {
+    const body = { prompt: composeImagePrompt(prompt, options?.style), style: options?.style ?? 'auto' };
+    const { imageUrl } = await postJson<{ imageUrl: string }>(baseUrl, "/image", body, DEFAULT_TIMEOUT_MS.image, options);
+    if (!imageUrl) throw new GenerationError('malformed', t('errorDetail.noImage'));
+    return imageUrl;
+  },
+});
@@ -0,0 +1,98 @@
+import { Language } from '../types';
+import en, { MessageKey } from '../locales/en';
+import es from '../locales/es';
+import fr from '../locales/fr';
+import ar from '../locales/ar';
+
+const LANGUAGE_KEY = 'newsquest_language';
+
+type MessageParams = Record<string, string | number>;
+
+// Count-dependent messages come as `<key>_one`, `<key>_other` (and `_zero`, `_two`, `_few`, `_many` where a language needs them)
+export type PluralKey = MessageKey extends infer K ? K extends `${infer Base}_other` ? Base : never : never;
+
+export type Messages = Record<MessageKey, string> & Partial<Record<`${PluralKey}_${Intl.LDMLPluralRule}`, string>>;
+
+export interface LanguageInfo {
+  nativeName: string;
+  englishName: string; // how the riddle model is told which language to write in
+  locale: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { nativeName: 'English', englishName: 'English', locale: 'en-US', dir: 'ltr' },
+  es: { nativeName: 'Español', englishName: 'Spanish', locale: 'es-ES', dir: 'ltr' },
+  fr: { nativeName: 'Français', englishName: 'French', locale: 'fr-FR', dir: 'ltr' },
+  ar: { nativeName: 'العربية', englishName: 'Arabic', locale: 'ar', dir: 'rtl' },
+};
+
+const CATALOGS: Record<Language, Messages> = { en, es, fr, ar };
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && value in LANGUAGES;
+
+// First browser language with a catalog, so new players don't start in the wrong one
+const detectLanguage = (): Language => {
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const tag of preferred) {
+    const code = tag?.split('-')[0].toLowerCase();
+    if (isLanguage(code)) return code;
+  }
+  return 'en';
+};
+
+const loadLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    return isLanguage(saved) ? saved : detectLanguage();
+  } catch (e) {
+    console.error("Failed to load language", e);
+    return 'en';
+  }
+};
+
+let current: Language = loadLanguage();
+
+const interpolate = (message: string, params?: MessageParams): string =>
+  params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+
+export const t = (key: MessageKey, params?: MessageParams): string =>
+  interpolate(CATALOGS[current][key] ?? en[key] ?? key, params);
+
+// Picks the plural form for `count` by the current language's rules, falling back to `_other`
+export const tn = (key: PluralKey, count: number, params?: MessageParams): string => {
+  const form = new Intl.PluralRules(LANGUAGES[current].locale).select(count);
+  const catalog = CATALOGS[current] as Record<string, string>;
+  const message = catalog[`${key}_${form}`] ?? catalog[`${key}_other`];
+  return interpolate(message, { count: formatNumber(count), ...params });
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(LANGUAGES[current].locale, options).format(value);
+
+export const formatDate = (value: number | string | Date, options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' }): string =>
+  new Intl.DateTimeFormat(LANGUAGES[current].locale, options).format(new Date(value));
+
+// Mirrors the whole page for right-to-left languages; Tailwind's rtl: variants key off this
+const applyToDocument = (language: Language) => {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = language;
+  document.documentElement.dir = LANGUAGES[language].dir;
+};
+
+applyToDocument(current);
+
+export const i18n = {
+  getLanguage: (): Language => current,
+
+  setLanguage: (language: Language) => {
+    current = language;
+    applyToDocument(language);
+    try {
+      localStorage.setItem(LANGUAGE_KEY, language);
+    } catch (e) {
+      console.error("Failed to save language", e);
+    }
+  },
+};
@@ -0,0 +1,50 @@
+// Minimal promise wrapper around IndexedDB for the app's local stores.
+
+const DB_NAME = 'newsquest';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const IMAGE_STORE = 'images';
+export const PACK_STORE = 'packs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          history.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE);
+        }
+        if (!db.objectStoreNames.contains(PACK_STORE)) {
+          db.createObjectStore(PACK_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
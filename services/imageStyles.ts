@@ -0,0 +1,36 @@
+import { ImageStyle, RiddleData } from '../types';
+
+const IMAGE_STYLE_KEY = 'newsquest_image_style';
+
+export const IMAGE_STYLES: ImageStyle[] = ['auto', 'watercolor', 'pixel_art', 'photoreal', 'line_art'];
+export const MAX_IMAGE_REGENERATIONS = 2; // extra pictures a player may ask for in one round
+
+// Style directions lead the prompt so the model settles the look before the subject
+const STYLE_DIRECTIONS: Record<Exclude<ImageStyle, 'auto'>, string> = {
+  watercolor: "A soft watercolor painting with loose washes, visible paper texture and gently bleeding colors",
+  pixel_art: "Retro 16-bit pixel art with a limited palette, crisp square pixels and no anti-aliasing",
+  photoreal: "A photorealistic photograph with natural lighting, true-to-life textures and a shallow depth of field",
+  line_art: "Clean black ink line art on a plain white background, with no shading or color fill",
+};
+
+export const isImageStyle = (value: unknown): value is ImageStyle => IMAGE_STYLES.includes(value as ImageStyle);
+
+export const composeImagePrompt = (prompt: string, style: ImageStyle = 'auto'): string =>
+  style === 'auto' ? prompt : `${STYLE_DIRECTIONS[style]}. Subject: ${prompt}`;
+
+// The riddle as it should be kept, labelled with the style of the picture the player settled on
+export const withImageStyle = (riddle: RiddleData, style: ImageStyle | undefined): RiddleData => {
+  const { image_style, ...rest } = riddle;
+  return style && style !== 'auto' ? { ...rest, image_style: style } : rest;
+};
+
+export const imageStyleService = {
+  getStyle: (): ImageStyle => {
+    const stored = localStorage.getItem(IMAGE_STYLE_KEY);
+    return isImageStyle(stored) ? stored : 'auto';
+  },
+
+  setStyle: (style: ImageStyle) => {
+    localStorage.setItem(IMAGE_STYLE_KEY, style);
+  },
+};
@@ -0,0 +1,196 @@
+import { RiddleData, Difficulty, RiddleProvider, RequestOptions, ImageOptions, RiddleOptions, RiddleFormat, TrendingTopic, NewsOptions, NewsCategory } from "../types";
+import { TRUE_FALSE_CHOICES } from "./riddleFormats";
+import { headlineOf } from "./topicIndex";
+import { GenerationError } from "./errors";
+import { composeImagePrompt } from "./imageStyles";
+
+// Offline backend: canned riddles and placeholder images, fully deterministic for a given input.
+
+const CANNED_HEADLINES: Record<string, string[]> = {
+  "World News": [
+    "Nations agree on new ocean protection treaty - Delegates signed a pact to safeguard marine life in international waters.",
+    "Ancient city uncovered beneath desert sands - Archaeologists revealed streets and temples hidden for 3,000 years.",
+  ],
+  "Technology": [
+    "New battery chemistry doubles phone life - Researchers unveiled a sodium-based cell that charges in minutes.",
+    "Robot lands gently on a distant asteroid - The probe will collect dust samples and return them to Earth.",
+  ],
+  "Sports": [
+    "Underdog team wins championship in overtime - A last-second goal sealed a historic first title.",
+    "Marathon record falls on a rainy morning - The runner shaved 20 seconds off the previous best.",
+  ],
+  "Entertainment": [
+    "Animated film breaks opening weekend record - Families flocked to see the story of a brave little lighthouse.",
+    "Classic board game returns with a twist - The reboot adds a cooperative mode for the whole family.",
+  ],
+};
+
+const DEFAULT_HEADLINES = Object.values(CANNED_HEADLINES).flat();
+
+const CANNED_RIDDLES: Omit<RiddleData, 'news_topic' | 'difficulty'>[] = [
+  {
+    image_prompt: "A glowing jellyfish drifting above a coral reef under a calm blue sea, sunbeams piercing the water",
+    riddle_question: "I have no borders on the map, yet many now promise to guard me. What am I?",
+    choices: ["The high seas", "The Arctic ice", "The Amazon", "The Moon"],
+    answerIndex: 0,
+    hints: ["Ships cross me but no flag owns me.", "Whales call me home."],
+    fun_fact: "About two thirds of the ocean lies outside any single country's jurisdiction.",
+  },
+  {
+    image_prompt: "A tiny spacecraft hovering over a rocky grey asteroid against a field of stars",
+    riddle_question: "I travel far to take a pinch of dust, then carry it home across the dark. What am I?",
+    choices: ["A satellite dish", "A sample-return probe", "A comet", "A space station"],
+    answerIndex: 1,
+    hints: ["I touch down only briefly.", "My cargo is measured in grams."],
+    fun_fact: "Asteroid samples can hold material older than the Earth itself.",
+  },
+  {
+    image_prompt: "A football spinning into a net at dusk while confetti rains over a cheering crowd",
+    riddle_question: "I come after the final whistle, yet the game is not done. What am I?",
+    choices: ["Half-time", "A penalty card", "Overtime", "The kickoff"],
+    answerIndex: 2,
+    hints: ["I only appear when scores are level.", "Some call me extra time."],
+    fun_fact: "Golden-goal rules once ended matches the instant a team scored in extra time.",
+  },
+  {
+    image_prompt: "A small lighthouse with big cartoon eyes shining its beam over a stormy sea",
+    riddle_question: "I stand alone on the rocks and speak only in light. What am I?",
+    choices: ["A buoy", "A harbour crane", "A sailboat", "A lighthouse"],
+    answerIndex: 3,
+    hints: ["Sailors trust my blink.", "I am tall and often striped."],
+    fun_fact: "Each lighthouse flashes in its own pattern so sailors can tell them apart.",
+  },
+];
+
+// The same four riddles re-cut for the other formats, matched to CANNED_RIDDLES by index
+interface CannedVariant {
+  statement: string;
+  isTrue: boolean;
+  odd: { question: string; choices: string[]; answerIndex: number };
+  word: string; // anagram answer, also the free-text answer
+  synonyms: string[];
+}
+
+const CANNED_VARIANTS: CannedVariant[] = [
+  {
+    statement: "Most of the ocean belongs to no single country.",
+    isTrue: true,
+    odd: { question: "Which of these is not found in the open ocean?", choices: ["Whales", "Plankton", "Cacti", "Jellyfish"], answerIndex: 2 },
+    word: "OCEAN",
+    synonyms: ["sea", "high seas", "the deep"],
+  },
+  {
+    statement: "Asteroid samples are always younger than the Earth.",
+    isTrue: false,
+    odd: { question: "Which of these never leaves the ground?", choices: ["Probe", "Rocket", "Lander", "Tractor"], answerIndex: 3 },
+    word: "PROBE",
+    synonyms: ["space probe", "spacecraft", "sample-return probe"],
+  },
+  {
+    statement: "Overtime is only played when the scores are level.",
+    isTrue: true,
+    odd: { question: "Which of these is not part of a football match?", choices: ["Kickoff", "Half-time", "Checkmate", "Penalty"], answerIndex: 2 },
+    word: "OVERTIME",
+    synonyms: ["extra time", "over time"],
+  },
+  {
+    statement: "Every lighthouse flashes in exactly the same pattern.",
+    isTrue: false,
+    odd: { question: "Which of these does not help ships find their way?", choices: ["Lighthouse", "Buoy", "Compass", "Anchor"], answerIndex: 3 },
+    word: "BEACON",
+    synonyms: ["lighthouse", "light house", "signal light"],
+  },
+];
+
+const applyFormat = (base: RiddleData, variant: CannedVariant, format: RiddleFormat): RiddleData => {
+  switch (format) {
+    case 'true_false':
+      return { ...base, format, riddle_question: variant.statement, choices: [...TRUE_FALSE_CHOICES], answerIndex: variant.isTrue ? 0 : 1 };
+    case 'odd_one_out':
+      return { ...base, format, riddle_question: variant.odd.question, choices: [...variant.odd.choices], answerIndex: variant.odd.answerIndex };
+    case 'free_text':
+      return { ...base, format, choices: [variant.word.toLowerCase()], answerIndex: 0, accepted_answers: [...variant.synonyms] };
+    case 'anagram':
+      return { ...base, format, choices: [variant.word], answerIndex: 0 };
+    default:
+      return base;
+  }
+};
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const PLACEHOLDER_COLORS = ["#1e3a8a", "#4c1d95", "#065f46", "#9d174d", "#7c2d12"];
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c] as string));
+
+export const buildPlaceholderImage = (prompt: string): string => {
+  const color = PLACEHOLDER_COLORS[hashString(prompt) % PLACEHOLDER_COLORS.length];
+  const label = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600" viewBox="0 0 800 600">` +
+    `<rect width="800" height="600" fill="${color}"/>` +
+    `<circle cx="400" cy="260" r="120" fill="#ffffff" fill-opacity="0.12"/>` +
+    `<text x="400" y="480" font-family="sans-serif" font-size="22" fill="#e2e8f0" text-anchor="middle">${label}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+const assertNotAborted = (options?: RequestOptions) => {
+  if (options?.signal?.aborted) throw new GenerationError('aborted');
+};
+
+const mentionsAny = (headline: string, words: string[]) =>
+  words.some(word => headline.toLowerCase().includes(word.toLowerCase()));
+
+// Custom categories draw from every canned headline, narrowed by their keywords and exclusions where that leaves any
+const headlinePool = (category?: NewsCategory): string[] => {
+  if (!category) return DEFAULT_HEADLINES;
+  const base = CANNED_HEADLINES[category.name] ?? DEFAULT_HEADLINES;
+  const matching = category.keywords.length > 0 ? base.filter(h => mentionsAny(h, category.keywords)) : base;
+  const allowed = (matching.length > 0 ? matching : base).filter(h => !mentionsAny(h, category.exclude));
+  return allowed.length > 0 ? allowed : base;
+};
+
+export const fetchTrendingNews = async (category?: NewsCategory, options?: NewsOptions): Promise<TrendingTopic> => {
+  assertNotAborted(options);
+  const pool = headlinePool(category);
+  const start = hashString(category?.name || "") % pool.length;
+  // Rotate past headlines the caller has already seen, wrapping round when all of them have been
+  const rotated = [...pool.slice(start), ...pool.slice(0, start)];
+  const avoid = new Set(options?.avoid ?? []);
+  const headline = rotated.find(item => !avoid.has(headlineOf(item))) ?? rotated[0];
+  // Canned headlines are made up, so they come without sources
+  return { headline, sources: [] };
+};
+
+export const generateRiddleFromTopic = async (topic: string, difficulty: Difficulty, options?: RiddleOptions): Promise<RiddleData> => {
+  assertNotAborted(options);
+  const index = hashString(`${topic}|${difficulty}`) % CANNED_RIDDLES.length;
+  const template = CANNED_RIDDLES[index];
+  const riddle: RiddleData = {
+    ...template,
+    choices: [...template.choices],
+    hints: [...template.hints],
+    news_topic: topic,
+    difficulty,
+  };
+  return applyFormat(riddle, CANNED_VARIANTS[index], options?.format ?? 'multiple_choice');
+};
+
+export const generateRiddleImage = async (prompt: string, options?: ImageOptions): Promise<string> => {
+  assertNotAborted(options);
+  return buildPlaceholderImage(composeImagePrompt(prompt, options?.style));
+};
+
+export const mockProvider: RiddleProvider = {
+  kind: 'mock',
+  fetchTrendingNews,
+  generateRiddleFromTopic,
+  generateRiddleImage,
+};
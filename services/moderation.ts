@@ -0,0 +1,177 @@
+import { RiddleData, RiddleReport, SafetySettings, SensitivityProfile } from '../types';
+import { GenerationError } from './errors';
+import { t } from './i18n';
+import { SIMILARITY_THRESHOLD, headlineOf, normalizeTopic, topicSimilarity } from './topicIndex';
+
+const SAFETY_SETTINGS_KEY = 'newsquest_safety';
+const REPORTS_KEY = 'newsquest_reports';
+
+export const SENSITIVITY_PROFILES: SensitivityProfile[] = ['kids', 'general', 'adult'];
+export const DEFAULT_SAFETY_SETTINGS: SafetySettings = { profile: 'general', blocklist: [] };
+export const MAX_BLOCKLIST_ITEMS = 50;
+const MAX_REPORTS = 200;
+
+// Graphic or distressing subjects nobody asked to be quizzed on
+const GENERAL_TERMS = [
+  'massacre', 'beheading', 'beheaded', 'decapitated', 'torture', 'tortured', 'genocide', 'suicide', 'self harm',
+  'rape', 'raped', 'sexual assault', 'child abuse', 'pornography', 'porn', 'mass shooting', 'school shooting',
+  'terror attack', 'suicide bomber', 'mutilated', 'dismembered', 'lynching', 'death penalty',
+];
+
+// Kids also skip the everyday violence, crime and tragedy that fills the front page
+const KIDS_TERMS = [
+  ...GENERAL_TERMS,
+  'war', 'attack', 'airstrike', 'bomb', 'bombing', 'explosion', 'missile', 'gun', 'shooting', 'gunman', 'weapon',
+  'kill', 'killed', 'killing', 'killer', 'murder', 'murdered', 'stabbing', 'stabbed', 'dead', 'death', 'dies', 'died',
+  'funeral', 'corpse', 'execution', 'victim', 'casualty', 'casualties', 'injured', 'wounded', 'hostage', 'kidnap',
+  'kidnapped', 'terror', 'terrorist', 'terrorism', 'violence', 'violent', 'riot', 'crime', 'criminal', 'arrest',
+  'arrested', 'prison', 'police', 'abuse', 'assault', 'drug', 'overdose', 'cocaine', 'alcohol', 'sex', 'sexual', 'nude',
+  'crash', 'disaster', 'tragedy', 'earthquake', 'tsunami', 'famine', 'refugee', 'epidemic', 'pandemic', 'cancer', 'scandal',
+];
+
+const PROFILE_TERMS: Record<SensitivityProfile, string[]> = {
+  kids: KIDS_TERMS,
+  general: GENERAL_TERMS,
+  adult: [],
+};
+
+// Accent-folded words separated by single spaces, padded so terms only match whole words
+const toWords = (text: string): string =>
+  ` ${text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean).join(' ')} `;
+
+// Simple plurals count too, so blocking "protest" also blocks "protests"
+const containsTerm = (words: string, term: string): boolean => {
+  const phrase = toWords(term).trim();
+  if (!phrase) return false;
+  return [phrase, `${phrase}s`, `${phrase}es`].some(form => words.includes(` ${form} `));
+};
+
+/** The first profile or blocklist term found in the text, or null when it is fine to show. */
+export const findBlockedTerm = (text: string, settings: SafetySettings): string | null => {
+  const words = toWords(text);
+  return [...settings.blocklist, ...PROFILE_TERMS[settings.profile]].find(term => containsTerm(words, term)) ?? null;
+};
+
+// Everything the player reads or the image model is asked to draw
+const riddleTexts = (riddle: RiddleData): string[] => [
+  riddle.news_topic ?? '',
+  riddle.riddle_question,
+  ...riddle.choices,
+  ...(riddle.accepted_answers ?? []),
+  ...riddle.hints,
+  riddle.fun_fact,
+  riddle.image_prompt,
+];
+
+export const parseBlocklist = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split(/[,\n]/)
+    .map(item => item.trim())
+    .filter(item => {
+      const key = toWords(item).trim();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_BLOCKLIST_ITEMS);
+};
+
+const isProfile = (value: unknown): value is SensitivityProfile => SENSITIVITY_PROFILES.includes(value as SensitivityProfile);
+
+const readReports = (): RiddleReport[] => {
+  try {
+    const stored = localStorage.getItem(REPORTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load reported riddles", e);
+    return [];
+  }
+};
+
+const writeReports = (reports: RiddleReport[]) => {
+  try {
+    localStorage.setItem(REPORTS_KEY, JSON.stringify(reports.slice(0, MAX_REPORTS)));
+  } catch (e) {
+    console.error("Failed to save reported riddles", e);
+  }
+};
+
+export const moderationService = {
+  getSettings: (): SafetySettings => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SAFETY_SETTINGS_KEY) || 'null');
+      if (!stored) return DEFAULT_SAFETY_SETTINGS;
+      return {
+        profile: isProfile(stored.profile) ? stored.profile : DEFAULT_SAFETY_SETTINGS.profile,
+        blocklist: Array.isArray(stored.blocklist) ? parseBlocklist(stored.blocklist.join('\n')) : [],
+      };
+    } catch (e) {
+      console.error("Failed to load safety settings", e);
+      return DEFAULT_SAFETY_SETTINGS;
+    }
+  },
+
+  saveSettings: (settings: SafetySettings) => {
+    try {
+      localStorage.setItem(SAFETY_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.error("Failed to save safety settings", e);
+    }
+  },
+
+  // Newest first
+  getReports: (): RiddleReport[] => readReports(),
+
+  report: (riddle: RiddleData): RiddleReport[] => {
+    const topic = riddle.news_topic || riddle.riddle_question;
+    const entry: RiddleReport = {
+      id: Date.now().toString() + Math.random().toString(36).substring(2),
+      key: normalizeTopic(topic),
+      topic: headlineOf(topic),
+      question: riddle.riddle_question,
+      reportedAt: Date.now(),
+    };
+    const reports = [entry, ...readReports().filter(r => r.question !== riddle.riddle_question)];
+    writeReports(reports);
+    return reports;
+  },
+
+  unreport: (id: string): RiddleReport[] => {
+    const reports = readReports().filter(r => r.id !== id);
+    writeReports(reports);
+    return reports;
+  },
+
+  isReported: (topic: string): boolean => {
+    const key = normalizeTopic(topic);
+    return !!key && readReports().some(r => topicSimilarity(r.key, key) >= SIMILARITY_THRESHOLD);
+  },
+
+  // Reported headlines, fed to trending searches as stories to stay away from
+  getReportedHeadlines: (): string[] => readReports().map(r => r.topic),
+
+  /** Why a topic may not be played, or null when it passes the profile, blocklist and past reports. */
+  checkTopic: (topic: string, settings: SafetySettings = moderationService.getSettings()): string | null => {
+    const term = findBlockedTerm(topic, settings);
+    if (term) return t('safety.topicBlocked', { term });
+    if (moderationService.isReported(topic)) return t('safety.topicReported');
+    return null;
+  },
+
+  checkRiddle: (riddle: RiddleData, settings: SafetySettings = moderationService.getSettings()): string | null => {
+    const term = riddleTexts(riddle).map(text => findBlockedTerm(text, settings)).find(Boolean);
+    return term ? t('safety.riddleBlocked', { term }) : null;
+  },
+
+  assertTopicAllowed: (topic: string) => {
+    const reason = moderationService.checkTopic(topic);
+    if (reason) throw new GenerationError('safety', reason);
+  },
+
+  // Runs on the generated text before anything is shown or the image prompt is sent
+  assertRiddleAllowed: (riddle: RiddleData) => {
+    const reason = moderationService.checkRiddle(riddle);
+    if (reason) throw new GenerationError('safety', reason);
+  },
+};
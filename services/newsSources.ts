@@ -0,0 +1,80 @@
+import { NewsSource } from '../types';
+import { formatDate } from './i18n';
+
+export const MAX_SOURCES = 3;
+
+// Gemini grounding links go through a Google redirect, so the host says nothing about the publisher
+const REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com', 'www.google.com', 'google.com'];
+
+const hostOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+export const looksLikeDomain = (value: string) => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(value.trim());
+
+// Many news URLs carry their publication date, e.g. /2024/05/17/ or /2024-05-17-
+export const dateFromUrl = (url: string): string | undefined => {
+  const match = url.match(/\/(20\d{2})[/-](0[1-9]|1[0-2])[/-](0[1-9]|[12]\d|3[01])(?:[/-]|$)/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+export const isHttpUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^https?:\/\//i.test(value);
+
+/**
+ * Builds a source record from loosely shaped input (grounding chunks, server JSON, stored history).
+ * Returns null when there is no usable http(s) link.
+ */
+export const toNewsSource = (raw: { url?: unknown; title?: unknown; publisher?: unknown; publishedAt?: unknown }): NewsSource | null => {
+  if (!isHttpUrl(raw.url)) return null;
+  const url = raw.url;
+  const title = typeof raw.title === 'string' ? raw.title.trim() : '';
+  const host = hostOf(url);
+  const publisher = typeof raw.publisher === 'string' && raw.publisher.trim()
+    ? raw.publisher.trim()
+    : looksLikeDomain(title)
+      ? title.replace(/^www\./, '')
+      : host && !REDIRECT_HOSTS.includes(host) ? host : 'Unknown publisher';
+  const source: NewsSource = {
+    title: title && !looksLikeDomain(title) ? title : publisher,
+    url,
+    publisher,
+  };
+  const publishedAt = typeof raw.publishedAt === 'string' && !Number.isNaN(Date.parse(raw.publishedAt))
+    ? raw.publishedAt
+    : dateFromUrl(url);
+  if (publishedAt) source.publishedAt = publishedAt;
+  return source;
+};
+
+// Keeps the first valid record per link and publisher, up to MAX_SOURCES
+export const normalizeSources = (raw: unknown): NewsSource[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const sources: NewsSource[] = [];
+  for (const item of raw) {
+    const source = item && typeof item === 'object' ? toNewsSource(item) : null;
+    if (!source) continue;
+    const key = source.publisher === 'Unknown publisher' ? source.url : source.publisher.toLowerCase();
+    if (seen.has(key) || seen.has(source.url)) continue;
+    seen.add(key);
+    seen.add(source.url);
+    sources.push(source);
+    if (sources.length === MAX_SOURCES) break;
+  }
+  return sources;
+};
+
+export const formatSourceDate = (publishedAt?: string): string | null => {
+  if (!publishedAt) return null;
+  const time = Date.parse(publishedAt);
+  return Number.isNaN(time) ? null : formatDate(time);
+};
+
+// Secondary line for a source link: publisher (unless it is already the title) and date
+export const describeSource = (source: NewsSource): string =>
+  [source.publisher !== source.title ? source.publisher : null, formatSourceDate(source.publishedAt)].filter(Boolean).join(' · ');
@@ -0,0 +1,184 @@
+import { HistoryItem, PackEntry, PackProgress, RiddleData, RiddlePack } from '../types';
+import { openDatabase, requestToPromise, transactionDone, PACK_STORE } from './idb';
+import { embedImage, downloadJson, isObject } from './archiveService';
+import { validateRiddle } from './riddleValidator';
+import { isImageStyle } from './imageStyles';
+import { isLanguage, t } from './i18n';
+
+export const PACK_FORMAT = 'newsquest-pack';
+export const PACK_VERSION = 1;
+
+const PROGRESS_KEY = 'newsquest_pack_progress';
+
+// On-disk shape of a pack file
+export interface PackFile {
+  format: typeof PACK_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  createdAt: number;
+  entries: PackEntry[];
+}
+
+export class PackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PackError';
+  }
+}
+
+const newPackId = () => Date.now().toString() + Math.random().toString(36).substring(2);
+
+const putPack = async (pack: RiddlePack) => {
+  const db = await openDatabase();
+  const tx = db.transaction(PACK_STORE, 'readwrite');
+  tx.objectStore(PACK_STORE).put(pack);
+  await transactionDone(tx);
+};
+
+// History keeps everything needed to replay a riddle. Entries saved before image prompts were
+// kept have none, so a fresh picture for them is drawn from the headline instead.
+export const historyItemToRiddle = (item: HistoryItem): RiddleData | null => {
+  const { riddle } = validateRiddle({
+    image_prompt: item.image_prompt || item.topic,
+    riddle_question: item.question,
+    choices: item.choices,
+    answerIndex: item.answerIndex,
+    hints: item.hints.length > 0 ? item.hints : [item.topic],
+    fun_fact: item.fun_fact,
+    accepted_answers: item.accepted_answers,
+    sources: item.sources,
+  }, item.format);
+  if (!riddle) return null;
+  return { ...riddle, news_topic: item.topic, difficulty: item.difficulty, category: item.category, language: item.language, image_style: item.image_style };
+};
+
+// validateRiddle only keeps what a model produces, so the pack's own metadata is carried over here
+const readPackEntry = (raw: unknown): PackEntry | null => {
+  if (!isObject(raw) || typeof raw.image_url !== 'string') return null;
+  const { riddle } = validateRiddle(raw.riddle);
+  if (!riddle || !isObject(raw.riddle)) return null;
+  const { language, category, image_style } = raw.riddle;
+  if (isLanguage(language)) riddle.language = language;
+  if (typeof category === 'string') riddle.category = category;
+  if (isImageStyle(image_style)) riddle.image_style = image_style;
+  return { riddle, image_url: raw.image_url };
+};
+
+export const toPackEntry = async (riddle: RiddleData, imageUrl: string): Promise<PackEntry> => ({
+  riddle,
+  image_url: await embedImage(imageUrl),
+});
+
+export const packService = {
+  listPacks: async (): Promise<RiddlePack[]> => {
+    try {
+      const db = await openDatabase();
+      const packs = await requestToPromise<RiddlePack[]>(db.transaction(PACK_STORE).objectStore(PACK_STORE).getAll());
+      return packs.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+      console.error("Failed to load riddle packs", e);
+      return [];
+    }
+  },
+
+  getPack: async (id: string): Promise<RiddlePack | null> => {
+    const db = await openDatabase();
+    const pack = await requestToPromise<RiddlePack | undefined>(db.transaction(PACK_STORE).objectStore(PACK_STORE).get(id));
+    return pack ?? null;
+  },
+
+  createPack: async (name: string, entries: PackEntry[], description?: string): Promise<RiddlePack> => {
+    const now = Date.now();
+    const pack: RiddlePack = { id: newPackId(), name: name.trim() || t('packs.untitled'), description, createdAt: now, updatedAt: now, entries };
+    await putPack(pack);
+    return pack;
+  },
+
+  // Appends riddles to a pack, skipping questions it already holds
+  addToPack: async (id: string, entries: PackEntry[]): Promise<RiddlePack> => {
+    const pack = await packService.getPack(id);
+    if (!pack) throw new PackError(t('packError.missing'));
+    const known = new Set(pack.entries.map(e => e.riddle.riddle_question));
+    const updated: RiddlePack = {
+      ...pack,
+      updatedAt: Date.now(),
+      entries: [...pack.entries, ...entries.filter(e => !known.has(e.riddle.riddle_question))],
+    };
+    await putPack(updated);
+    return updated;
+  },
+
+  deletePack: async (id: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction(PACK_STORE, 'readwrite');
+    tx.objectStore(PACK_STORE).delete(id);
+    await transactionDone(tx);
+    packService.resetProgress(id);
+  },
+
+  exportPack: (pack: RiddlePack) => {
+    const file: PackFile = {
+      format: PACK_FORMAT,
+      version: PACK_VERSION,
+      name: pack.name,
+      description: pack.description,
+      createdAt: pack.createdAt,
+      entries: pack.entries,
+    };
+    const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack';
+    downloadJson(`newsquest-pack-${slug}.json`, file);
+  },
+
+  // Parses and validates a pack file, then adds it to the local library
+  importPack: async (text: string): Promise<RiddlePack> => {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new PackError(t('packError.invalid'));
+    }
+    if (!isObject(data) || data.format !== PACK_FORMAT || typeof data.version !== 'number' || !Array.isArray(data.entries)) {
+      throw new PackError(t('packError.invalid'));
+    }
+    if (data.version > PACK_VERSION) {
+      throw new PackError(t('packError.newerVersion', { version: data.version }));
+    }
+
+    const entries = data.entries.map(readPackEntry).filter((entry): entry is PackEntry => entry !== null);
+    if (entries.length === 0) throw new PackError(t('packError.empty'));
+
+    const name = typeof data.name === 'string' ? data.name : t('packs.importedName');
+    return packService.createPack(name, entries, typeof data.description === 'string' ? data.description : undefined);
+  },
+
+  getAllProgress: (): Record<string, PackProgress> => {
+    try {
+      const stored = localStorage.getItem(PROGRESS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (e) {
+      console.error("Failed to load pack progress", e);
+      return {};
+    }
+  },
+
+  getProgress: (id: string): PackProgress =>
+    packService.getAllProgress()[id] ?? { nextIndex: 0, solved: 0, played: 0 },
+
+  recordProgress: (id: string, index: number, isCorrect: boolean): PackProgress => {
+    const all = packService.getAllProgress();
+    const current = all[id] ?? { nextIndex: 0, solved: 0, played: 0 };
+    const updated: PackProgress = {
+      nextIndex: Math.max(current.nextIndex, index + 1),
+      solved: current.solved + (isCorrect ? 1 : 0),
+      played: current.played + 1,
+    };
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify({ ...all, [id]: updated }));
+    return updated;
+  },
+
+  resetProgress: (id: string) => {
+    const { [id]: _removed, ...rest } = packService.getAllProgress();
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(rest));
+  },
+};
@@ -0,0 +1,89 @@
+import { Difficulty, PartyMatch, PartyTurn, Player, PlayerStanding, TurnStyle } from '../types';
+
+const ROSTER_KEY = 'newsquest_party_roster';
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const PARTY_ROUNDS = [3, 5, 10];
+
+const newId = () => Date.now().toString() + Math.random().toString(36).substring(2);
+
+const emptyStanding = (): PlayerStanding => ({ score: 0, streak: 0, bestStreak: 0, hintsUsed: 0, played: 0, solved: 0 });
+
+export const createPlayer = (name: string): Player => ({ id: newId(), name: name.trim() });
+
+export const createMatch = (players: Player[], turnStyle: TurnStyle, rounds: number, difficulty: Difficulty): PartyMatch => ({
+  id: newId(),
+  players,
+  turnStyle,
+  rounds,
+  difficulty,
+  round: 0,
+  turn: 0,
+  standings: Object.fromEntries(players.map(p => [p.id, emptyStanding()])),
+  turns: [],
+});
+
+export const currentPlayer = (match: PartyMatch): Player => match.players[match.turn];
+
+export const isLastTurnOfRound = (match: PartyMatch): boolean => match.turn >= match.players.length - 1;
+
+export const isMatchOver = (match: PartyMatch): boolean => match.round >= match.rounds;
+
+// Scores the current player's turn; streaks and hints are tracked per player, just like the solo ones
+export const recordTurn = (match: PartyMatch, turn: Omit<PartyTurn, 'playerId' | 'round'>): PartyMatch => {
+  const player = currentPlayer(match);
+  const standing = match.standings[player.id] ?? emptyStanding();
+  const solved = turn.outcome === 'solved';
+  const streak = solved ? standing.streak + 1 : 0;
+  return {
+    ...match,
+    standings: {
+      ...match.standings,
+      [player.id]: {
+        score: standing.score + turn.score,
+        streak,
+        bestStreak: Math.max(standing.bestStreak, streak),
+        hintsUsed: standing.hintsUsed + turn.hintsRevealed,
+        played: standing.played + 1,
+        solved: standing.solved + (solved ? 1 : 0),
+      },
+    },
+    turns: [...match.turns, { ...turn, playerId: player.id, round: match.round }],
+  };
+};
+
+// Hands the device to the next player, wrapping into the next round after the last one
+export const advanceTurn = (match: PartyMatch): PartyMatch =>
+  isLastTurnOfRound(match)
+    ? { ...match, round: match.round + 1, turn: 0 }
+    : { ...match, turn: match.turn + 1 };
+
+// Highest score first; ties go to more riddles solved, then fewer hints
+export const rankPlayers = (match: PartyMatch): { player: Player; standing: PlayerStanding }[] =>
+  match.players
+    .map(player => ({ player, standing: match.standings[player.id] ?? emptyStanding() }))
+    .sort((a, b) =>
+      b.standing.score - a.standing.score ||
+      b.standing.solved - a.standing.solved ||
+      a.standing.hintsUsed - b.standing.hintsUsed);
+
+export const partyService = {
+  getRoster: (): Player[] => {
+    try {
+      const stored = localStorage.getItem(ROSTER_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error("Failed to load party roster", e);
+      return [];
+    }
+  },
+
+  saveRoster: (players: Player[]) => {
+    try {
+      localStorage.setItem(ROSTER_KEY, JSON.stringify(players));
+    } catch (e) {
+      console.error("Failed to save party roster", e);
+    }
+  },
+};
@@ -0,0 +1,111 @@
+import { Difficulty, ImageStyle, Language, NewsCategory, RiddleData, RiddleFormat, RiddleProvider } from '../types';
+import { fetchFreshTopic, headlineOf, topicIndexService } from './topicIndex';
+import { moderationService } from './moderation';
+
+export interface PrefetchParams {
+  category?: NewsCategory;
+  difficulty: Difficulty;
+  format: RiddleFormat;
+  language: Language;
+  imageStyle: ImageStyle;
+}
+
+export interface PreparedRiddle {
+  riddle: RiddleData;
+  imageUrl: string;
+  preparedAt: number;
+}
+
+const DEFAULT_DEPTH = 2;
+const MAX_AGE_MS = 15 * 60 * 1000; // trending news goes stale quickly
+
+// Editing a category changes what it searches for, so the whole definition is part of the key
+const keyOf = ({ category, difficulty, format, language, imageStyle }: PrefetchParams) =>
+  `${category ? JSON.stringify(category) : ''}|${difficulty}|${format}|${language}|${imageStyle}`;
+
+// Prepares upcoming trending riddles in the background so the next round starts instantly
+export class PrefetchQueue {
+  private key: string | null = null;
+  private ready: PreparedRiddle[] = [];
+  private inFlight = 0;
+  // Bumped on every cancel so late results from an older batch are discarded
+  private generation = 0;
+  private controller = new AbortController();
+
+  constructor(private depth: number = DEFAULT_DEPTH) {}
+
+  public fill(provider: RiddleProvider, params: PrefetchParams) {
+    const key = keyOf(params);
+    if (key !== this.key) {
+      this.cancel();
+      this.key = key;
+    }
+    this.dropStale();
+    while (this.ready.length + this.inFlight < this.depth) {
+      this.prepare(provider, params, this.generation);
+    }
+  }
+
+  // Returns a prepared riddle for these params, if one is waiting and its story hasn't been played,
+  // reported or filtered out by changed safety settings since
+  public take(params: PrefetchParams): PreparedRiddle | null {
+    if (keyOf(params) !== this.key) return null;
+    this.dropStale();
+    let item = this.ready.shift();
+    while (item && !this.isStillPlayable(item.riddle)) {
+      item = this.ready.shift();
+    }
+    return item ?? null;
+  }
+
+  public cancel() {
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.generation++;
+    this.key = null;
+    this.ready = [];
+    this.inFlight = 0;
+  }
+
+  private isStillPlayable(riddle: RiddleData): boolean {
+    const topic = riddle.news_topic ?? '';
+    return !topicIndexService.isSeen(topic, (riddle.sources ?? []).map(s => s.url)) &&
+      !moderationService.checkTopic(topic) &&
+      !moderationService.checkRiddle(riddle);
+  }
+
+  private dropStale() {
+    const cutoff = Date.now() - MAX_AGE_MS;
+    this.ready = this.ready.filter(item => item.preparedAt >= cutoff);
+  }
+
+  private async prepare(provider: RiddleProvider, params: PrefetchParams, generation: number) {
+    this.inFlight++;
+    const { signal } = this.controller;
+    try {
+      // Steer away from stories already waiting in the queue as well as recently played ones
+      const avoid = this.ready.map(item => headlineOf(item.riddle.news_topic ?? ''));
+      const news = await fetchFreshTopic(provider, params.category, { signal, avoid });
+      if (generation !== this.generation) return;
+      const riddle = await provider.generateRiddleFromTopic(news.headline, params.difficulty, { signal, format: params.format, language: params.language });
+      riddle.category = params.category?.name;
+      if (news.sources.length > 0) riddle.sources = news.sources;
+      if (generation !== this.generation) return;
+      moderationService.assertRiddleAllowed(riddle);
+      if (params.imageStyle !== 'auto') riddle.image_style = params.imageStyle;
+      const imageUrl = await provider.generateRiddleImage(riddle.image_prompt, { signal, style: params.imageStyle });
+      if (generation !== this.generation) return;
+
+      // Trending searches often repeat; keep only distinct riddles
+      if (!this.ready.some(item => item.riddle.riddle_question === riddle.riddle_question)) {
+        this.ready.push({ riddle, imageUrl, preparedAt: Date.now() });
+      }
+    } catch (e) {
+      if (!signal.aborted) console.warn("Prefetch failed", e);
+    } finally {
+      if (generation === this.generation) this.inFlight--;
+    }
+  }
+}
+
+export const prefetchQueue = new PrefetchQueue();
@@ -0,0 +1,77 @@
+import { RequestOptions } from '../types';
+import { GenerationError, toGenerationError } from './errors';
+
+export const DEFAULT_TIMEOUT_MS = {
+  news: 30_000,
+  riddle: 30_000,
+  image: 60_000,
+};
+export const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new GenerationError('aborted'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationError('aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one attempt with its own AbortSignal that fires on the caller's signal or after
+ * `timeoutMs`, and reports which of the two it was.
+ */
+const attempt = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await Promise.race([
+      task(controller.signal),
+      // Backends that ignore the signal still settle promptly on abort
+      new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () =>
+          reject(new GenerationError(timedOut ? 'timeout' : 'aborted')), { once: true });
+      }),
+    ]);
+  } catch (error) {
+    if (timedOut) throw new GenerationError('timeout', undefined, error);
+    if (outer?.aborted) throw new GenerationError('aborted', undefined, error);
+    throw toGenerationError(error);
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Retries transient failures with exponential backoff and jitter
+export const withRequestPolicy = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  defaultTimeoutMs: number,
+  { signal, timeoutMs = defaultTimeoutMs, retries = DEFAULT_RETRIES }: RequestOptions = {}
+): Promise<T> => {
+  for (let tryIndex = 0; ; tryIndex++) {
+    if (signal?.aborted) throw new GenerationError('aborted');
+    try {
+      return await attempt(task, timeoutMs, signal);
+    } catch (error) {
+      const genError = toGenerationError(error);
+      if (!genError.isTransient || tryIndex >= retries) throw genError;
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** tryIndex) * (0.5 + Math.random() / 2);
+      await sleep(delay, signal);
+    }
+  }
+};
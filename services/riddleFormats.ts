@@ -0,0 +1,77 @@
+import { RiddleData, RiddleFormat } from '../types';
+import { matchesAnswer } from './answerMatcher';
+import { t } from './i18n';
+
+export const RIDDLE_FORMATS: RiddleFormat[] = ['multiple_choice', 'true_false', 'odd_one_out', 'free_text', 'anagram'];
+
+// How many entries each format keeps in `choices`; typed formats store only the answer there
+export const FORMAT_CHOICE_COUNT: Record<RiddleFormat, number> = {
+  multiple_choice: 4,
+  true_false: 2,
+  odd_one_out: 4,
+  free_text: 1,
+  anagram: 1
+};
+
+export const TRUE_FALSE_CHOICES = ['True', 'False'];
+export const MAX_LETTER_GUESSES = 5;
+export const ANAGRAM_PATTERN = /^\p{L}{3,12}$/u;
+
+export type LetterState = 'correct' | 'present' | 'absent';
+
+export const isRiddleFormat = (value: unknown): value is RiddleFormat =>
+  RIDDLE_FORMATS.includes(value as RiddleFormat);
+
+// Riddles made before formats existed are all multiple choice
+export const getFormat = (riddle: Pick<RiddleData, 'format'>): RiddleFormat => riddle.format ?? 'multiple_choice';
+
+export const isTypedFormat = (format: RiddleFormat): boolean => format === 'free_text' || format === 'anagram';
+
+// True/false riddles store the fixed English labels; show them in the player's language
+export const choiceLabel = (format: RiddleFormat, choice: string): string => {
+  if (format !== 'true_false') return choice;
+  if (choice === TRUE_FALSE_CHOICES[0]) return t('game.true');
+  if (choice === TRUE_FALSE_CHOICES[1]) return t('game.false');
+  return choice;
+};
+
+export const getAnswerText = (riddle: Pick<RiddleData, 'choices' | 'answerIndex'>): string => riddle.choices[riddle.answerIndex];
+
+export const isAnswerCorrect = (riddle: RiddleData, selectedAnswer: number | null, answerText: string | null): boolean => {
+  const format = getFormat(riddle);
+  if (format === 'anagram') return answerText?.trim().toUpperCase() === getAnswerText(riddle).toUpperCase();
+  if (format === 'free_text') return answerText !== null && matchesAnswer(answerText, [getAnswerText(riddle), ...(riddle.accepted_answers ?? [])]);
+  return selectedAnswer === riddle.answerIndex;
+};
+
+// Deterministic shuffle so the same riddle always shows the same tiles, never in solved order
+export const scrambleLetters = (word: string): string[] => {
+  const letters = word.toUpperCase().split('');
+  let seed = 0;
+  for (let i = 0; i < word.length; i++) seed = (seed * 31 + word.charCodeAt(i)) | 0;
+  for (let i = letters.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) | 0;
+    const j = Math.abs(seed) % (i + 1);
+    [letters[i], letters[j]] = [letters[j], letters[i]];
+  }
+  if (letters.join('') === word.toUpperCase() && letters.length > 1) letters.push(letters.shift() as string);
+  return letters;
+};
+
+// Wordle-style marks: exact letters first, then misplaced ones limited by how often they occur
+export const letterFeedback = (guess: string, answer: string): LetterState[] => {
+  const g = guess.toUpperCase();
+  const a = answer.toUpperCase();
+  const states: LetterState[] = g.split('').map(() => 'absent');
+  const remaining: Record<string, number> = {};
+  for (let i = 0; i < a.length; i++) {
+    if (g[i] === a[i]) states[i] = 'correct';
+    else remaining[a[i]] = (remaining[a[i]] ?? 0) + 1;
+  }
+  for (let i = 0; i < g.length; i++) {
+    if (states[i] === 'correct' || !remaining[g[i]]) continue;
+    states[i] = 'present';
+    remaining[g[i]]--;
+  }
+  return states;
+};
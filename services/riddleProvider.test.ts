@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { GameActionType, RiddleProvider } from '../types';
+import { createInitialGameState, gameReducer } from './gameReducer';
+import { mockProvider } from './mockProvider';
+import { getRiddleProvider, setRiddleProvider } from './riddleProvider';
+import { calculateScore } from './scoring';
+
+afterEach(() => setRiddleProvider(null));
+
+describe('setRiddleProvider', () => {
+  it('drives a whole round through the offline backend', async () => {
+    setRiddleProvider(mockProvider);
+    const provider = getRiddleProvider();
+    expect(provider).toBe(mockProvider);
+
+    let state = gameReducer(createInitialGameState(0), { type: GameActionType.START_SEARCH });
+    const { headline } = await provider.fetchTrendingNews();
+    state = gameReducer(state, { type: GameActionType.START_GEN_RIDDLE });
+    const riddle = await provider.generateRiddleFromTopic(headline, 'medium');
+    expect(riddle.news_topic).toBe(headline);
+    state = gameReducer(state, { type: GameActionType.RIDDLE_READY, payload: riddle });
+
+    const imageUrl = await provider.generateRiddleImage(riddle.image_prompt);
+    expect(imageUrl).toMatch(/^data:image\/svg\+xml;base64,/);
+    state = gameReducer(state, { type: GameActionType.IMAGE_READY, payload: { riddle, imageUrl } });
+
+    state = gameReducer(state, { type: GameActionType.REVEAL_HINT });
+    state = gameReducer(state, { type: GameActionType.ANSWER_SELECTED, payload: riddle.answerIndex });
+    expect(state.status).toBe('solved');
+
+    const award = calculateScore({ isCorrect: true, difficulty: 'medium', format: riddle.format, hintsRevealed: state.hintsRevealed, elapsedMs: 0, streak: 0 });
+    state = gameReducer(state, { type: GameActionType.SCORE_AWARDED, payload: award });
+    expect(state).toMatchObject({ imageStatus: 'ready', imageUrl, hintsRevealed: 1, score: award.total });
+    expect(award.hintPenalty).toBeGreaterThan(0);
+  });
+
+  it('hands back the configured backend once the override is cleared', () => {
+    const stub: RiddleProvider = { ...mockProvider, kind: 'http' };
+    setRiddleProvider(stub);
+    expect(getRiddleProvider()).toBe(stub);
+    setRiddleProvider(null);
+    expect(getRiddleProvider()).not.toBe(stub);
+  });
+});
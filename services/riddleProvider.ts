@@ -0,0 +1,41 @@
+import { RiddleProvider, RiddleProviderKind } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { createHttpProvider } from "./httpProvider";
+
+const DEFAULT_HTTP_URL = "http://localhost:8787";
+
+let activeProvider: RiddleProvider | null = null;
+
+const resolveKind = (): RiddleProviderKind => {
+  const configured = (process.env.RIDDLE_PROVIDER || "").toLowerCase();
+  if (configured === 'gemini' || configured === 'mock' || configured === 'http') {
+    return configured;
+  }
+  // Without an explicit choice, fall back to the offline backend when no key is configured
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const createRiddleProvider = (kind: RiddleProviderKind): RiddleProvider => {
+  switch (kind) {
+    case 'mock':
+      return mockProvider;
+    case 'http':
+      return createHttpProvider(process.env.RIDDLE_PROVIDER_URL || DEFAULT_HTTP_URL);
+    case 'gemini':
+    default:
+      return geminiProvider;
+  }
+};
+
+export const getRiddleProvider = (): RiddleProvider => {
+  if (!activeProvider) {
+    activeProvider = createRiddleProvider(resolveKind());
+  }
+  return activeProvider;
+};
+
+// Override the configured backend, e.g. to drive the game loop from tests
+export const setRiddleProvider = (provider: RiddleProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,158 @@
+import { RiddleData, RiddleFormat } from "../types";
+import { GenerationError } from "./errors";
+import { normalizeSources } from "./newsSources";
+import { ANAGRAM_PATTERN, FORMAT_CHOICE_COUNT, TRUE_FALSE_CHOICES, isRiddleFormat } from "./riddleFormats";
+
+export const CHOICE_COUNT = FORMAT_CHOICE_COUNT.multiple_choice;
+export const MAX_ACCEPTED_ANSWERS = 8;
+export const MIN_HINTS = 1;
+export const MAX_HINTS = 3;
+
+export interface RiddleValidationResult {
+  riddle: RiddleData | null;
+  errors: string[];
+  repairs: string[];
+}
+
+export class RiddleValidationError extends GenerationError {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    // The details are for the logs and re-prompts; the player gets the general message
+    super('malformed');
+    this.name = "RiddleValidationError";
+    this.errors = errors;
+  }
+}
+
+const asText = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const dedupe = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(v => {
+    const key = v.toLowerCase();
+    if (!v || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Format-specific answer fields (is_true, answer) are folded into choices/answerIndex
+const readAnswerFields = (input: Record<string, unknown>, format: RiddleFormat): { choices: unknown; answerIndex: unknown } => {
+  if (Array.isArray(input.choices)) return { choices: input.choices, answerIndex: input.answerIndex };
+  if (format === 'true_false' && typeof input.is_true === "boolean") {
+    return { choices: TRUE_FALSE_CHOICES, answerIndex: input.is_true ? 0 : 1 };
+  }
+  if ((format === 'free_text' || format === 'anagram') && typeof input.answer === "string") {
+    return { choices: [input.answer], answerIndex: 0 };
+  }
+  return { choices: input.choices, answerIndex: input.answerIndex };
+};
+
+/**
+ * Checks model output against the game's invariants, repairing what it safely can
+ * (whitespace, duplicate or surplus choices, too many hints). Returns `riddle: null`
+ * with the remaining errors when the data cannot be played. The format comes from
+ * the caller or the data itself, defaulting to multiple choice.
+ */
+export const validateRiddle = (raw: unknown, expectedFormat?: RiddleFormat): RiddleValidationResult => {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { riddle: null, errors: ["Response must be a JSON object."], repairs };
+  }
+  const input = raw as Record<string, unknown>;
+  const format: RiddleFormat = expectedFormat ?? (isRiddleFormat(input.format) ? input.format : 'multiple_choice');
+  const choiceCount = FORMAT_CHOICE_COUNT[format];
+  const answerFields = readAnswerFields(input, format);
+
+  const image_prompt = asText(input.image_prompt);
+  if (!image_prompt) errors.push("image_prompt must be a non-empty string.");
+
+  const riddle_question = asText(input.riddle_question);
+  if (!riddle_question) errors.push("riddle_question must be a non-empty string.");
+
+  const fun_fact = asText(input.fun_fact);
+  if (!fun_fact) errors.push("fun_fact must be a non-empty string.");
+
+  // Choices: resolve the answer text first so reordering never changes the correct option
+  let choices: string[] = [];
+  let answerIndex = -1;
+  if (!Array.isArray(answerFields.choices)) {
+    errors.push(`choices must be an array of ${choiceCount} strings.`);
+  } else {
+    let rawChoices = answerFields.choices.map(asText);
+    if (format === 'anagram') {
+      const letters = rawChoices.map(c => c.toUpperCase().replace(/[^\p{L}]/gu, ""));
+      if (letters.some((l, i) => l !== rawChoices[i])) repairs.push("Reduced the anagram answer to capital letters.");
+      rawChoices = letters;
+    }
+    const rawIndex = Number(answerFields.answerIndex);
+    const answer = Number.isInteger(rawIndex) ? rawChoices[rawIndex] : undefined;
+
+    choices = dedupe(rawChoices);
+    if (choices.length !== rawChoices.length) {
+      repairs.push("Removed empty or duplicate choices.");
+    }
+
+    if (!answer) {
+      errors.push(`answerIndex must point to one of the choices (0-${choiceCount - 1}).`);
+    } else {
+      if (choices.length > choiceCount) {
+        const others = choices.filter(c => c.toLowerCase() !== answer.toLowerCase()).slice(0, choiceCount - 1);
+        const keptAt = Math.min(choices.findIndex(c => c.toLowerCase() === answer.toLowerCase()), choiceCount - 1);
+        others.splice(keptAt, 0, answer);
+        choices = others;
+        repairs.push(`Trimmed choices to ${choiceCount}.`);
+      }
+      answerIndex = choices.findIndex(c => c.toLowerCase() === answer.toLowerCase());
+      if (answerIndex !== rawIndex) repairs.push("Re-aligned answerIndex with the correct choice.");
+    }
+
+    if (choices.length < choiceCount) {
+      errors.push(`choices must contain ${choiceCount} distinct, non-empty options (got ${choices.length}).`);
+    }
+    if (format === 'anagram' && choices[0] && !ANAGRAM_PATTERN.test(choices[0])) {
+      errors.push("answer must be a single word of 3-12 letters for anagram riddles.");
+    }
+  }
+
+  let hints: string[] = [];
+  if (!Array.isArray(input.hints)) {
+    errors.push(`hints must be an array of ${MIN_HINTS}-${MAX_HINTS} strings.`);
+  } else {
+    hints = dedupe(input.hints.map(asText));
+    if (hints.length > MAX_HINTS) {
+      hints = hints.slice(0, MAX_HINTS);
+      repairs.push(`Clamped hints to ${MAX_HINTS}.`);
+    }
+    if (hints.length < MIN_HINTS) {
+      errors.push(`hints must contain at least ${MIN_HINTS} non-empty clue.`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { riddle: null, errors, repairs };
+  }
+
+  const riddle: RiddleData = { image_prompt, riddle_question, choices, answerIndex, hints, fun_fact };
+  if (format !== 'multiple_choice') riddle.format = format;
+  if (format === 'free_text' && Array.isArray(input.accepted_answers)) {
+    const answer = choices[0].toLowerCase();
+    const accepted = dedupe(input.accepted_answers.map(asText)).filter(a => a.toLowerCase() !== answer);
+    if (accepted.length > 0) riddle.accepted_answers = accepted.slice(0, MAX_ACCEPTED_ANSWERS);
+  }
+  if (typeof input.news_topic === "string") riddle.news_topic = input.news_topic;
+  if (typeof input.difficulty === "string") riddle.difficulty = input.difficulty;
+  const sources = normalizeSources(input.sources);
+  if (sources.length > 0) riddle.sources = sources;
+  return { riddle, errors, repairs };
+};
+
+// Throws a RiddleValidationError when the data cannot be repaired
+export const assertValidRiddle = (raw: unknown, format?: RiddleFormat): RiddleData => {
+  const { riddle, errors } = validateRiddle(raw, format);
+  if (!riddle) throw new RiddleValidationError(errors);
+  return riddle;
+};
@@ -0,0 +1,36 @@
+import { Difficulty, RoundTimer } from '../types';
+
+// Tuning knobs for timed challenge rounds
+export const TIME_LIMIT_MS: Record<Difficulty, number> = {
+  easy: 90_000,
+  medium: 60_000,
+  hard: 45_000
+};
+export const HINT_TIME_COST_MS = 10_000;
+
+export const createRoundTimer = (difficulty: Difficulty, now: number): RoundTimer => ({
+  limitMs: TIME_LIMIT_MS[difficulty],
+  penaltyMs: 0,
+  elapsedMs: 0,
+  runningSince: now,
+  expired: false
+});
+
+// Banks the running span so the clock reads the same until it is resumed
+export const pauseTimer = (timer: RoundTimer, now: number): RoundTimer =>
+  timer.runningSince === null
+    ? timer
+    : { ...timer, elapsedMs: timer.elapsedMs + Math.max(0, now - timer.runningSince), runningSince: null };
+
+export const resumeTimer = (timer: RoundTimer, now: number): RoundTimer =>
+  timer.runningSince === null && !timer.expired ? { ...timer, runningSince: now } : timer;
+
+export const getRemainingMs = (timer: RoundTimer, now: number): number => {
+  const running = timer.runningSince === null ? 0 : Math.max(0, now - timer.runningSince);
+  return Math.max(0, timer.limitMs - timer.penaltyMs - timer.elapsedMs - running);
+};
+
+export const formatCountdown = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
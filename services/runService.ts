@@ -0,0 +1,68 @@
+import { QuestRun, RunConfig, RunRecord, RunRound } from '../types';
+
+const LEADERBOARD_KEY = 'newsquest_run_leaderboard';
+const LEADERBOARD_SIZE = 10;
+
+export const MAX_LIVES = 3;
+export const RUN_LENGTHS: (number | null)[] = [5, 10, null];
+
+const newRunId = () => Date.now().toString() + Math.random().toString(36).substring(2);
+
+export const createRun = (config: RunConfig): QuestRun => ({
+  id: newRunId(),
+  config,
+  startedAt: Date.now(),
+  lives: MAX_LIVES,
+  rounds: [],
+  score: 0,
+});
+
+// Each missed riddle costs a life
+export const recordRunRound = (run: QuestRun, round: RunRound): QuestRun => ({
+  ...run,
+  lives: round.outcome === 'failed' ? Math.max(0, run.lives - 1) : run.lives,
+  rounds: [...run.rounds, round],
+  score: run.score + round.score,
+});
+
+export const isRunOver = (run: QuestRun): boolean =>
+  run.lives <= 0 || (run.config.length !== null && run.rounds.length >= run.config.length);
+
+export const toRunRecord = (run: QuestRun, completedAt: number = Date.now()): RunRecord => ({
+  id: run.id,
+  config: run.config,
+  completedAt,
+  played: run.rounds.length,
+  solved: run.rounds.filter(r => r.outcome === 'solved').length,
+  livesLeft: run.lives,
+  score: run.score,
+});
+
+// Highest score first; ties go to more riddles solved, then to whoever got there first
+const compareRuns = (a: RunRecord, b: RunRecord) =>
+  b.score - a.score || b.solved - a.solved || a.completedAt - b.completedAt;
+
+export const runService = {
+  getLeaderboard: (): RunRecord[] => {
+    try {
+      const stored = localStorage.getItem(LEADERBOARD_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+      console.error("Failed to load run leaderboard", e);
+      return [];
+    }
+  },
+
+  // Returns the updated leaderboard; runs that don't place are dropped
+  saveRun: (record: RunRecord): RunRecord[] => {
+    const leaderboard = [...runService.getLeaderboard().filter(r => r.id !== record.id), record]
+      .sort(compareRuns)
+      .slice(0, LEADERBOARD_SIZE);
+    try {
+      localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(leaderboard));
+    } catch (e) {
+      console.error("Failed to save run leaderboard", e);
+    }
+    return leaderboard;
+  },
+};
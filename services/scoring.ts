@@ -0,0 +1,58 @@
+import { Difficulty, RiddleFormat, ScoreBreakdown } from '../types';
+
+// Tuning knobs for the scoring formula
+export const BASE_POINTS: Record<Difficulty, number> = {
+  easy: 100,
+  medium: 200,
+  hard: 300
+};
+// Base points are scaled by how hard the format is to guess: a coin-flip is worth less than typing the answer
+export const FORMAT_POINT_RATIO: Record<RiddleFormat, number> = {
+  multiple_choice: 1,
+  true_false: 0.5,
+  odd_one_out: 1,
+  free_text: 1.5,
+  anagram: 1.25
+};
+export const HINT_PENALTY_RATIO = 0.25;   // share of base points lost per revealed hint
+export const MAX_TIME_BONUS_RATIO = 0.5;  // share of base points awarded for an instant answer
+export const TIME_BONUS_WINDOW_MS = 60_000;
+export const STREAK_STEP = 0.1;
+export const MAX_STREAK_MULTIPLIER = 2;
+
+export interface ScoreInput {
+  isCorrect: boolean;
+  difficulty: Difficulty;
+  format?: RiddleFormat;
+  hintsRevealed: number;
+  elapsedMs: number;
+  timeLimitMs?: number; // timed rounds measure the speed bonus against their own countdown
+  streak: number; // consecutive wins before this round
+}
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  value === 'easy' || value === 'medium' || value === 'hard';
+
+export const streakMultiplier = (streak: number): number =>
+  Math.min(MAX_STREAK_MULTIPLIER, 1 + STREAK_STEP * Math.max(0, streak));
+
+/**
+ * Points for a finished round: base points by difficulty and format, minus a penalty per hint,
+ * plus a bonus that decays linearly over the time window, all scaled by the streak.
+ * Wrong answers score nothing.
+ */
+export const calculateScore = ({ isCorrect, difficulty, format, hintsRevealed, elapsedMs, timeLimitMs, streak }: ScoreInput): ScoreBreakdown => {
+  if (!isCorrect) {
+    return { base: 0, hintPenalty: 0, timeBonus: 0, multiplier: 1, total: 0 };
+  }
+
+  const base = Math.round(BASE_POINTS[difficulty] * FORMAT_POINT_RATIO[format ?? 'multiple_choice']);
+  const hintPenalty = Math.min(base, Math.round(base * HINT_PENALTY_RATIO * Math.max(0, hintsRevealed)));
+  const windowMs = timeLimitMs ?? TIME_BONUS_WINDOW_MS;
+  const remaining = Math.max(0, windowMs - Math.max(0, elapsedMs)) / windowMs;
+  const timeBonus = Math.round(base * MAX_TIME_BONUS_RATIO * remaining);
+  const multiplier = streakMultiplier(streak);
+  const total = Math.round((base - hintPenalty + timeBonus) * multiplier);
+
+  return { base, hintPenalty, timeBonus, multiplier, total };
+};
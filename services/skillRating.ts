@@ -0,0 +1,96 @@
+import { Difficulty, RiddleConstraints, SkillRating } from '../types';
+
+const RATING_KEY = 'newsquest_skill_rating';
+const HISTORY_SIZE = 50;
+
+// Elo-style tuning: riddles are "opponents" rated by how hard they were asked to be
+export const DEFAULT_RATING = 1200;
+export const K_FACTOR = 32;
+export const TIER_RATING: Record<Difficulty, number> = {
+  easy: 1000,
+  medium: 1200,
+  hard: 1400
+};
+const HINT_COST = 0.15;          // performance lost per revealed hint
+const SLOW_SOLVE_MS = 60_000;    // solves slower than this lose the full time cost
+const MAX_SLOW_COST = 0.2;
+
+// Player ratings that map onto each tier; ratings outside the range clamp to the ends
+const TIER_BANDS: { difficulty: Difficulty; min: number; max: number }[] = [
+  { difficulty: 'easy', min: 900, max: 1100 },
+  { difficulty: 'medium', min: 1100, max: 1300 },
+  { difficulty: 'hard', min: 1300, max: 1500 },
+];
+
+export interface AdaptiveTarget {
+  difficulty: Difficulty;
+  riddleRating: number;
+  constraints: RiddleConstraints;
+}
+
+export interface RoundPerformanceInput {
+  isCorrect: boolean;
+  hintsRevealed: number;
+  durationMs: number;
+}
+
+/**
+ * Scores a round between 0 and 1 for the rating update: a miss is 0, a clean fast
+ * solve is 1, and hints and slow solves pull a solve down towards 0.5.
+ */
+export const roundPerformance = ({ isCorrect, hintsRevealed, durationMs }: RoundPerformanceInput): number => {
+  if (!isCorrect) return 0;
+  const hintCost = HINT_COST * Math.max(0, hintsRevealed);
+  const slowCost = MAX_SLOW_COST * Math.min(1, Math.max(0, durationMs) / SLOW_SOLVE_MS);
+  return Math.max(0.5, 1 - hintCost - slowCost);
+};
+
+export const expectedScore = (rating: number, riddleRating: number): number =>
+  1 / (1 + 10 ** ((riddleRating - rating) / 400));
+
+export const updateRating = (rating: number, riddleRating: number, performance: number): number =>
+  Math.round(rating + K_FACTOR * (performance - expectedScore(rating, riddleRating)));
+
+// Aims the next riddle at the player's own rating: the band picks the tier, the position inside it the constraints
+export const pickAdaptiveTarget = (rating: number): AdaptiveTarget => {
+  const band = TIER_BANDS.find(b => rating < b.max) ?? TIER_BANDS[TIER_BANDS.length - 1];
+  const riddleRating = Math.min(band.max, Math.max(band.min, rating));
+  const position = (riddleRating - band.min) / (band.max - band.min);
+  const step = position < 1 / 3 ? 0 : position < 2 / 3 ? 1 : 2;
+  return {
+    difficulty: band.difficulty,
+    riddleRating,
+    constraints: {
+      distractors: (['distinct', 'plausible', 'close'] as const)[step],
+      hints: (['generous', 'balanced', 'sparing'] as const)[step],
+    },
+  };
+};
+
+export const skillService = {
+  getRating: (): SkillRating => {
+    try {
+      const stored = localStorage.getItem(RATING_KEY);
+      return stored ? JSON.parse(stored) : { rating: DEFAULT_RATING, rounds: 0, history: [] };
+    } catch (e) {
+      console.error("Failed to load skill rating", e);
+      return { rating: DEFAULT_RATING, rounds: 0, history: [] };
+    }
+  },
+
+  recordRound: (riddleRating: number, performance: number): SkillRating => {
+    const current = skillService.getRating();
+    const rating = updateRating(current.rating, riddleRating, performance);
+    const updated: SkillRating = {
+      rating,
+      rounds: current.rounds + 1,
+      history: [...current.history, { timestamp: Date.now(), rating }].slice(-HISTORY_SIZE),
+    };
+    try {
+      localStorage.setItem(RATING_KEY, JSON.stringify(updated));
+    } catch (e) {
+      console.error("Failed to save skill rating", e);
+    }
+    return updated;
+  },
+};
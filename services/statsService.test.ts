@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types';
+import { computeStats, longestWinStreak, UNCATEGORIZED } from './statsService';
+
+let nextId = 0;
+
+const round = (overrides: Partial<HistoryItem>): HistoryItem => ({
+  id: `round-${++nextId}`,
+  timestamp: 0,
+  topic: 'A story',
+  question: 'What am I?',
+  answer: 'A riddle',
+  fun_fact: '',
+  image_url: '',
+  choices: ['A riddle', 'A puzzle'],
+  answerIndex: 0,
+  hints: [],
+  outcome: 'solved',
+  selectedAnswer: 0,
+  hintsRevealed: 0,
+  durationMs: 0,
+  score: 0,
+  ...overrides,
+});
+
+describe('longestWinStreak', () => {
+  it('is zero for an empty history', () => {
+    expect(longestWinStreak([])).toBe(0);
+  });
+
+  it('follows timestamps rather than the order entries are stored in', () => {
+    // Newest first, as history is kept; in time order this reads solved x3, failed, solved x2
+    const history = [
+      round({ timestamp: 6, outcome: 'solved' }),
+      round({ timestamp: 2, outcome: 'solved' }),
+      round({ timestamp: 5, outcome: 'solved' }),
+      round({ timestamp: 4, outcome: 'failed' }),
+      round({ timestamp: 1, outcome: 'solved' }),
+      round({ timestamp: 3, outcome: 'solved' }),
+    ];
+    expect(longestWinStreak(history)).toBe(3);
+  });
+});
+
+describe('computeStats', () => {
+  it('reports empty figures for an empty history', () => {
+    const stats = computeStats([], 0);
+    expect(stats).toEqual({
+      played: 0,
+      wins: 0,
+      winRate: 0,
+      byDifficulty: {
+        easy: { played: 0, wins: 0, winRate: 0 },
+        medium: { played: 0, wins: 0, winRate: 0 },
+        hard: { played: 0, wins: 0, winRate: 0 },
+      },
+      byCategory: [],
+      hintDistribution: [],
+      averageSolveMs: null,
+      longestStreak: 0,
+      currentStreak: 0,
+    });
+  });
+
+  it('counts legacy entries without a difficulty or category overall and under the fallback category', () => {
+    const stats = computeStats([
+      round({ outcome: 'solved' }),
+      round({ outcome: 'failed', difficulty: 'legendary' }),
+      round({ outcome: 'solved', difficulty: 'hard', category: 'Science' }),
+    ], 0);
+
+    expect(stats).toMatchObject({ played: 3, wins: 2 });
+    expect(stats.winRate).toBeCloseTo(2 / 3);
+    expect(stats.byDifficulty.hard).toEqual({ played: 1, wins: 1, winRate: 1 });
+    expect(stats.byDifficulty.easy.played + stats.byDifficulty.medium.played).toBe(0);
+    expect(stats.byCategory).toEqual([
+      { category: UNCATEGORIZED, played: 2, wins: 1, winRate: 0.5 },
+      { category: 'Science', played: 1, wins: 1, winRate: 1 },
+    ]);
+  });
+
+  it('buckets rounds by hints revealed, filling the gaps with zeros', () => {
+    const stats = computeStats([
+      round({ hintsRevealed: 0 }),
+      round({ hintsRevealed: 3 }),
+      round({ hintsRevealed: 0 }),
+      round({ hintsRevealed: -1 }),
+    ], 0);
+    expect(stats.hintDistribution).toEqual([3, 0, 0, 1]);
+  });
+
+  it('averages solve time over timed wins only', () => {
+    const stats = computeStats([
+      round({ outcome: 'solved', durationMs: 4000 }),
+      round({ outcome: 'solved', durationMs: 8000 }),
+      round({ outcome: 'solved', durationMs: 0 }),
+      round({ outcome: 'failed', durationMs: 60000 }),
+    ], 0);
+    expect(stats.averageSolveMs).toBe(6000);
+  });
+
+  it('keeps the persisted streak when it outlasts what history still holds', () => {
+    const history = [
+      round({ timestamp: 3, outcome: 'solved' }),
+      round({ timestamp: 1, outcome: 'solved' }),
+      round({ timestamp: 2, outcome: 'failed' }),
+    ];
+    expect(computeStats(history, 0)).toMatchObject({ longestStreak: 1, currentStreak: 0 });
+    expect(computeStats(history, 7)).toMatchObject({ longestStreak: 7, currentStreak: 7 });
+  });
+});
@@ -0,0 +1,66 @@
+import { HistoryItem, PlayerStats, WinRate, CategoryStats, Difficulty } from '../types';
+import { isDifficulty } from './scoring';
+
+export const UNCATEGORIZED = 'Custom';
+
+const emptyRate = (): WinRate => ({ played: 0, wins: 0, winRate: 0 });
+
+const tally = (rate: WinRate, won: boolean) => {
+  rate.played += 1;
+  if (won) rate.wins += 1;
+  rate.winRate = rate.wins / rate.played;
+};
+
+// Longest run of consecutive solved rounds, oldest to newest
+export const longestWinStreak = (history: HistoryItem[]): number => {
+  let longest = 0;
+  let current = 0;
+  [...history].sort((a, b) => a.timestamp - b.timestamp).forEach(item => {
+    current = item.outcome === 'solved' ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+};
+
+/**
+ * Aggregates recorded rounds into dashboard figures. `currentStreak` comes from the
+ * persisted win streak, which also counts rounds a history size limit may have pruned.
+ */
+export const computeStats = (history: HistoryItem[], currentStreak: number): PlayerStats => {
+  const overall = emptyRate();
+  const byDifficulty: Record<Difficulty, WinRate> = { easy: emptyRate(), medium: emptyRate(), hard: emptyRate() };
+  const categories = new Map<string, CategoryStats>();
+  const hintDistribution: number[] = [];
+  let solveTimeTotal = 0;
+  let timedSolves = 0;
+
+  history.forEach(item => {
+    const won = item.outcome === 'solved';
+    tally(overall, won);
+
+    if (isDifficulty(item.difficulty)) tally(byDifficulty[item.difficulty], won);
+
+    const category = item.category || UNCATEGORIZED;
+    if (!categories.has(category)) categories.set(category, { category, ...emptyRate() });
+    tally(categories.get(category)!, won);
+
+    const hints = Math.max(0, item.hintsRevealed);
+    while (hintDistribution.length <= hints) hintDistribution.push(0);
+    hintDistribution[hints] += 1;
+
+    if (won && item.durationMs > 0) {
+      solveTimeTotal += item.durationMs;
+      timedSolves += 1;
+    }
+  });
+
+  return {
+    ...overall,
+    byDifficulty,
+    byCategory: [...categories.values()].sort((a, b) => b.played - a.played),
+    hintDistribution,
+    averageSolveMs: timedSolves > 0 ? solveTimeTotal / timedSolves : null,
+    longestStreak: Math.max(longestWinStreak(history), currentStreak),
+    currentStreak,
+  };
+};
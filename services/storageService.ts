@@ -1,65 +1,270 @@
-import { HistoryItem, RiddleData } from '../types';
+import { HistoryItem, RiddleData, RoundDetails, ScoreTotals } from '../types';
+import { openDatabase, requestToPromise, transactionDone, HISTORY_STORE, IMAGE_STORE } from './idb';
+import { t } from './i18n';
 
-const STORAGE_KEY = 'newsquest_solved_history';
-const MAX_ITEMS = 12; // Limit items to prevent localStorage quota exceeded (images are heavy)
+const LEGACY_STORAGE_KEY = 'newsquest_solved_history';
+const HISTORY_LIMIT_KEY = 'newsquest_history_limit';
+const TOTAL_SCORE_KEY = 'newsquest_total_score';
+const SESSION_SCORE_KEY = 'newsquest_session_score';
+const STREAK_KEY = 'newsquest_streak';
+
+// Metadata row in IndexedDB; the image lives in IMAGE_STORE as a Blob under the same id.
+// `image_src` keeps the original URL for images that could not be fetched into a Blob.
+type HistoryRecord = Omit<HistoryItem, 'image_url'> & { image_src?: string };
+
+// Object URLs handed out for stored Blobs, reused across reads and revoked on delete
+const objectUrls = new Map<string, string>();
+
+const toBlob = async (imageUrl: string): Promise<Blob | null> => {
+  try {
+    return await (await fetch(imageUrl)).blob();
+  } catch (e) {
+    console.warn("Could not convert image to Blob, keeping its URL", e);
+    return null;
+  }
+};
+
+const revokeUrls = (ids: string[]) => {
+  ids.forEach(id => {
+    const url = objectUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  });
+};
+
+const putRecord = async (record: HistoryRecord, imageUrl: string) => {
+  const blob = imageUrl ? await toBlob(imageUrl) : null;
+  const row: HistoryRecord = blob ? record : { ...record, image_src: imageUrl };
+  const db = await openDatabase();
+  const tx = db.transaction([HISTORY_STORE, IMAGE_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(row);
+  if (blob) tx.objectStore(IMAGE_STORE).put(blob, record.id);
+  await transactionDone(tx);
+};
+
+const deleteRecords = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([HISTORY_STORE, IMAGE_STORE], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(HISTORY_STORE).delete(id);
+    tx.objectStore(IMAGE_STORE).delete(id);
+  });
+  await transactionDone(tx);
+  revokeUrls(ids);
+};
+
+// One-time move of the old localStorage collection (base64 data URIs) into IndexedDB
+let migration: Promise<void> | null = null;
+const migrateLegacyHistory = (): Promise<void> => {
+  if (!migration) {
+    migration = (async () => {
+      const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!stored) return;
+      try {
+        const legacy: HistoryItem[] = JSON.parse(stored);
+        for (const { image_url, ...record } of legacy) {
+          await putRecord(record, image_url);
+        }
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+      } catch (e) {
+        console.error("Failed to migrate legacy history", e);
+      }
+    })();
+  }
+  return migration;
+};
+
+// Each collection belongs to one owner: the solo player (no playerId) or a party player
+const ownedBy = (playerId?: string) => (record: HistoryRecord) => (record.playerId ?? null) === (playerId ?? null);
+
+const readRecords = async (playerId?: string): Promise<HistoryRecord[]> => {
+  await migrateLegacyHistory();
+  const db = await openDatabase();
+  const records = await requestToPromise<HistoryRecord[]>(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll());
+  return records.filter(ownedBy(playerId)).map(normalizeRecord).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Drops the oldest entries beyond the user-set limit, if any
+const enforceLimit = async (records: HistoryRecord[]): Promise<HistoryRecord[]> => {
+  const limit = storageService.getHistoryLimit();
+  if (limit === null || records.length <= limit) return records;
+  await deleteRecords(records.slice(limit).map(r => r.id));
+  return records.slice(0, limit);
+};
+
+// Entries saved before full round details were tracked only ever recorded solved riddles
+const normalizeRecord = (record: HistoryRecord): HistoryRecord => ({
+  ...record,
+  outcome: record.outcome ?? 'solved',
+  choices: record.choices ?? [record.answer],
+  answerIndex: record.answerIndex ?? 0,
+  hints: record.hints ?? [],
+  selectedAnswer: record.selectedAnswer ?? null,
+  hintsRevealed: record.hintsRevealed ?? 0,
+  durationMs: record.durationMs ?? 0,
+  score: record.score ?? 0,
+});
+
+const readImageUrl = async (images: IDBObjectStore, key: string): Promise<string | undefined> => {
+  let url = objectUrls.get(key);
+  if (!url) {
+    const blob = await requestToPromise<Blob | undefined>(images.get(key));
+    if (blob) {
+      url = URL.createObjectURL(blob);
+      objectUrls.set(key, url);
+    }
+  }
+  return url;
+};
+
+const resolveImages = async (records: HistoryRecord[]): Promise<HistoryItem[]> => {
+  const db = await openDatabase();
+  const images = db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE);
+  return Promise.all(records.map(async ({ image_src, ...record }) => {
+    const url = await readImageUrl(images, record.id);
+    return { ...record, image_url: url || image_src || '' };
+  }));
+};
 
 export const storageService = {
-  getHistory: (): HistoryItem[] => {
+  getHistory: async (playerId?: string): Promise<HistoryItem[]> => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      return await resolveImages(await readRecords(playerId));
     } catch (e) {
       console.error("Failed to load history", e);
       return [];
     }
   },
 
-  saveToHistory: (riddle: RiddleData, imageUrl: string): HistoryItem[] => {
-    const newItem: HistoryItem = {
+  // Records every finished round, solved or not, in the given player's collection
+  saveToHistory: async (riddle: RiddleData, imageUrl: string, details: RoundDetails, playerId?: string): Promise<HistoryItem[]> => {
+    const record: HistoryRecord = {
       id: Date.now().toString() + Math.random().toString(36).substring(2),
       timestamp: Date.now(),
-      topic: riddle.news_topic || "Mystery Topic",
+      topic: riddle.news_topic || t('game.mysteryTopic'),
       question: riddle.riddle_question,
       answer: riddle.choices[riddle.answerIndex],
       fun_fact: riddle.fun_fact,
-      image_url: imageUrl
+      image_prompt: riddle.image_prompt,
+      choices: [...riddle.choices],
+      answerIndex: riddle.answerIndex,
+      hints: [...riddle.hints],
+      difficulty: riddle.difficulty,
+      category: riddle.category,
+      ...details
     };
+    if (riddle.format) record.format = riddle.format;
+    if (riddle.accepted_answers) record.accepted_answers = [...riddle.accepted_answers];
+    if (riddle.sources) record.sources = riddle.sources.map(source => ({ ...source }));
+    if (riddle.language) record.language = riddle.language;
+    if (riddle.image_style) record.image_style = riddle.image_style;
+    if (playerId) record.playerId = playerId;
+
+    // Each attempt is its own entry, so replays and pack rounds of a known riddle still count
+    const existing = await readRecords(playerId);
+    await putRecord(record, imageUrl);
+    return resolveImages(await enforceLimit([record, ...existing]));
+  },
+  
+  clearHistory: async (playerId?: string): Promise<HistoryItem[]> => {
+    await deleteRecords((await readRecords(playerId)).map(r => r.id));
+    return [];
+  },
+
+  // Adds entries from another collection, skipping rounds already stored. image_url may be a data URI.
+  importHistory: async (items: HistoryItem[]): Promise<HistoryItem[]> => {
+    const existing = await readRecords();
+    const known = new Set(existing.map(r => r.id));
+    for (const { image_url, ...record } of items) {
+      if (known.has(record.id)) continue;
+      known.add(record.id);
+      await putRecord(normalizeRecord(record), image_url);
+    }
+    return resolveImages(await enforceLimit(await readRecords()));
+  },
 
-    let history = storageService.getHistory();
-    // Prevent duplicates based on topic/question combo (simple check)
-    if (history.some(h => h.question === newItem.question)) {
-      return history;
+  // Pictures kept outside the collection, such as the daily puzzle's, under a key of the caller's choosing
+  saveImage: async (key: string, imageUrl: string) => {
+    const blob = await toBlob(imageUrl);
+    if (!blob) return;
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    tx.objectStore(IMAGE_STORE).put(blob, key);
+    await transactionDone(tx);
+    revokeUrls([key]);
+  },
+
+  getImage: async (key: string): Promise<string | null> => {
+    try {
+      const db = await openDatabase();
+      return (await readImageUrl(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE), key)) ?? null;
+    } catch (e) {
+      console.error("Failed to load image", e);
+      return null;
     }
+  },
+
+  deleteImage: async (key: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    tx.objectStore(IMAGE_STORE).delete(key);
+    await transactionDone(tx);
+    revokeUrls([key]);
+  },
 
-    // Add to top
-    history.unshift(newItem); 
+  // null means the collection is unbounded
+  getHistoryLimit: (): number | null => {
+    const stored = parseInt(localStorage.getItem(HISTORY_LIMIT_KEY) || '', 10);
+    return stored > 0 ? stored : null;
+  },
 
-    // Enforce soft count limit
-    if (history.length > MAX_ITEMS) {
-      history = history.slice(0, MAX_ITEMS);
+  setHistoryLimit: async (limit: number | null): Promise<HistoryItem[]> => {
+    if (limit && limit > 0) {
+      localStorage.setItem(HISTORY_LIMIT_KEY, Math.floor(limit).toString());
+    } else {
+      localStorage.removeItem(HISTORY_LIMIT_KEY);
     }
+    return resolveImages(await enforceLimit(await readRecords()));
+  },
 
-    // Attempt to save, removing old items if quota still exceeded
-    while (history.length > 0) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-        return history;
-      } catch (e) {
-        // QuotaExceededError or similar
-        console.warn("Storage quota exceeded, removing oldest item...");
-        if (history.length > 1) {
-           history.pop(); // Remove the oldest (last) item
-        } else {
-           console.error("Storage full, cannot save even one item.");
-           break;
-        }
-      }
+  getScoreTotals: (): ScoreTotals => {
+    const read = (store: Storage, key: string) => parseInt(store.getItem(key) || '0', 10) || 0;
+    try {
+      return { session: read(sessionStorage, SESSION_SCORE_KEY), allTime: read(localStorage, TOTAL_SCORE_KEY) };
+    } catch (e) {
+      console.error("Failed to load score totals", e);
+      return { session: 0, allTime: 0 };
     }
-    return history;
   },
-  
-  clearHistory: () => {
-    localStorage.removeItem(STORAGE_KEY);
-    return [];
+
+  addScore: (points: number): ScoreTotals => {
+    const totals = storageService.getScoreTotals();
+    const updated = { session: totals.session + points, allTime: totals.allTime + points };
+    try {
+      sessionStorage.setItem(SESSION_SCORE_KEY, updated.session.toString());
+      localStorage.setItem(TOTAL_SCORE_KEY, updated.allTime.toString());
+    } catch (e) {
+      console.error("Failed to save score totals", e);
+    }
+    return updated;
+  },
+
+  // Raises the all-time total to at least `allTime`, e.g. when restoring a backup
+  mergeAllTimeScore: (allTime: number): ScoreTotals => {
+    const totals = storageService.getScoreTotals();
+    if (allTime <= totals.allTime) return totals;
+    try {
+      localStorage.setItem(TOTAL_SCORE_KEY, allTime.toString());
+    } catch (e) {
+      console.error("Failed to save score totals", e);
+    }
+    return { ...totals, allTime };
+  },
+
+  getWinStreak: (): number => parseInt(localStorage.getItem(STREAK_KEY) || '0', 10) || 0,
+
+  setWinStreak: (streak: number) => {
+    localStorage.setItem(STREAK_KEY, streak.toString());
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,142 @@
+import { NewsCategory, NewsOptions, RiddleData, RiddleProvider, SeenTopic, TrendingTopic } from '../types';
+import { GenerationError } from './errors';
+import { moderationService } from './moderation';
+
+const SEEN_TOPICS_KEY = 'newsquest_seen_topics';
+const SEEN_WINDOW_KEY = 'newsquest_seen_window_days';
+
+export const DEFAULT_SEEN_WINDOW_DAYS = 7;
+export const SEEN_WINDOW_OPTIONS = [1, 3, 7, 14, 30];
+export const SIMILARITY_THRESHOLD = 0.6; // share of shared words at which two headlines count as one story
+export const MAX_AVOID_HINTS = 10;
+export const MAX_TOPIC_ATTEMPTS = 3;
+const MAX_ENTRIES = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'has', 'have', 'its', 'it', 'this', 'that', 'new', 'after', 'over'
+]);
+
+// Only the headline line identifies the story; the summary sentence varies between searches
+export const headlineOf = (topic: string): string =>
+  topic.split('\n').map(line => line.replace(/[*#_]/g, '').trim()).find(Boolean)?.split(/ - | — /)[0] ?? '';
+
+const topicWords = (topic: string): string[] =>
+  headlineOf(topic)
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+export const normalizeTopic = (topic: string): string => Array.from(new Set(topicWords(topic))).sort().join(' ');
+
+// Overlap of the two word sets relative to the smaller one, so a shortened headline still matches.
+// Very short topics carry too few words for overlap to mean much and must match exactly.
+export const topicSimilarity = (a: string, b: string): number => {
+  const left = new Set(a.split(' ').filter(Boolean));
+  const right = new Set(b.split(' ').filter(Boolean));
+  if (left.size === 0 || right.size === 0) return 0;
+  if (Math.min(left.size, right.size) < 3) return a === b ? 1 : 0;
+  let shared = 0;
+  left.forEach(word => { if (right.has(word)) shared++; });
+  return shared / Math.min(left.size, right.size);
+};
+
+export const pruneExpired = (entries: SeenTopic[], windowDays: number, now: number): SeenTopic[] =>
+  entries.filter(entry => now - entry.seenAt < windowDays * DAY_MS);
+
+export const findSeenTopic = (entries: SeenTopic[], topic: string, urls: string[] = []): SeenTopic | null => {
+  const key = normalizeTopic(topic);
+  return entries.find(entry =>
+    urls.some(url => entry.urls.includes(url)) ||
+    (key && topicSimilarity(entry.key, key) >= SIMILARITY_THRESHOLD)
+  ) ?? null;
+};
+
+const readEntries = (): SeenTopic[] => {
+  try {
+    const stored = localStorage.getItem(SEEN_TOPICS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load seen topics", e);
+    return [];
+  }
+};
+
+const writeEntries = (entries: SeenTopic[]) => {
+  try {
+    localStorage.setItem(SEEN_TOPICS_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (e) {
+    console.error("Failed to save seen topics", e);
+  }
+};
+
+export const topicIndexService = {
+  getWindowDays: (): number => {
+    const stored = parseInt(localStorage.getItem(SEEN_WINDOW_KEY) || '', 10);
+    return stored > 0 ? stored : DEFAULT_SEEN_WINDOW_DAYS;
+  },
+
+  setWindowDays: (days: number) => {
+    localStorage.setItem(SEEN_WINDOW_KEY, Math.max(1, Math.floor(days)).toString());
+    writeEntries(topicIndexService.getEntries());
+  },
+
+  // Newest first, with anything older than the window dropped
+  getEntries: (): SeenTopic[] => pruneExpired(readEntries(), topicIndexService.getWindowDays(), Date.now()),
+
+  // Headlines to steer the next search away from, most recent first
+  getAvoidList: (category?: string): string[] =>
+    topicIndexService.getEntries()
+      .filter(entry => !category || entry.category === category)
+      .slice(0, MAX_AVOID_HINTS)
+      .map(entry => headlineOf(entry.topic)),
+
+  isSeen: (topic: string, urls: string[] = []): boolean => !!findSeenTopic(topicIndexService.getEntries(), topic, urls),
+
+  record: (riddle: RiddleData) => {
+    const topic = riddle.news_topic;
+    if (!topic) return;
+    const urls = (riddle.sources ?? []).map(source => source.url);
+    const key = normalizeTopic(topic);
+    const entries = topicIndexService.getEntries();
+    const existing = findSeenTopic(entries, topic, urls);
+    const entry: SeenTopic = {
+      key,
+      topic,
+      urls: Array.from(new Set([...(existing?.urls ?? []), ...urls])),
+      category: riddle.category ?? existing?.category,
+      seenAt: Date.now(),
+    };
+    writeEntries([entry, ...entries.filter(e => e !== existing)]);
+  },
+
+  clear: () => localStorage.removeItem(SEEN_TOPICS_KEY),
+};
+
+/**
+ * Fetches a trending story the player hasn't seen within the window. Near-duplicates are
+ * fed back as things to avoid and re-searched a few times; after that the last result is
+ * used anyway, since a repeat beats no round at all. Stories the safety settings filter
+ * out, or that resemble a reported riddle, are never used.
+ */
+export const fetchFreshTopic = async (provider: RiddleProvider, category: NewsCategory | undefined, options?: NewsOptions): Promise<TrendingTopic> => {
+  const avoid = [...topicIndexService.getAvoidList(category?.name), ...(options?.avoid ?? []), ...moderationService.getReportedHeadlines().slice(0, MAX_AVOID_HINTS)];
+  const settings = moderationService.getSettings();
+  let repeat: TrendingTopic | null = null;
+  let blocked: string | null = null;
+  for (let attempt = 0; attempt < MAX_TOPIC_ATTEMPTS; attempt++) {
+    const news = await provider.fetchTrendingNews(category, { ...options, avoid });
+    avoid.unshift(headlineOf(news.headline));
+    blocked = moderationService.checkTopic(news.headline, settings);
+    if (blocked) continue;
+    if (!topicIndexService.isSeen(news.headline, news.sources.map(source => source.url))) return news;
+    repeat = news;
+  }
+  if (!repeat) throw new GenerationError('safety', blocked ?? undefined);
+  console.warn("Could not find an unseen story, repeating a recent one");
+  return repeat;
+};
@@ -7,11 +7,109 @@ export interface RiddleData {
   fun_fact: string;
   news_topic?: string;
   difficulty?: string;
+  category?: string;
+  format?: RiddleFormat; // absent on riddles made before formats existed, which are multiple choice
+  accepted_answers?: string[]; // free_text only: synonyms that also count as correct
+  sources?: NewsSource[]; // articles the trending topic was found in
+  language?: Language; // language the riddle text is written in; absent means English
+  image_style?: ImageStyle; // art style of the picture; absent means the image model's own choice
 }
 
+// UI and riddle languages with a message catalog in locales/
+export type Language = 'en' | 'es' | 'fr' | 'ar';
+
+// Art style presets composed into the image prompt; 'auto' sends the prompt as written
+export type ImageStyle = 'auto' | 'watercolor' | 'pixel_art' | 'photoreal' | 'line_art';
+
+// An article behind a trending topic, as reported by search grounding or a news backend
+export interface NewsSource {
+  title: string;
+  url: string;
+  publisher: string;
+  publishedAt?: string; // ISO date, when known
+}
+
+export type CategoryIcon = 'globe' | 'cpu' | 'trophy' | 'film' | 'rocket' | 'flask' | 'leaf' | 'music' | 'landmark' | 'heart' | 'map-pin' | 'newspaper';
+
+// A player-defined trending topic feed; `name` is what riddles and stats are filed under
+export interface NewsCategory {
+  id: string;
+  name: string;
+  icon: CategoryIcon;
+  keywords: string[];
+  region?: string;
+  language?: string;
+  exclude: string[]; // subjects the search must leave out
+}
+
+export interface NewsOptions extends RequestOptions {
+  avoid?: string[]; // recently seen headlines the search should steer clear of
+}
+
+export interface TrendingTopic {
+  headline: string; // headline plus a short summary, used as the riddle topic
+  sources: NewsSource[];
+}
+
+// How the player answers. Typed formats keep their single solution in choices[answerIndex].
+export type RiddleFormat = 'multiple_choice' | 'true_false' | 'odd_one_out' | 'free_text' | 'anagram';
+
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
-export interface HistoryItem {
+// 'adaptive' picks a tier per round from the player's skill rating
+export type DifficultySetting = Difficulty | 'adaptive';
+
+// Finer tuning within a difficulty tier
+export interface RiddleConstraints {
+  distractors: 'distinct' | 'plausible' | 'close';
+  hints: 'generous' | 'balanced' | 'sparing';
+}
+
+export type RiddleProviderKind = 'gemini' | 'mock' | 'http';
+
+export type GenerationErrorKind = 'quota' | 'safety' | 'network' | 'malformed' | 'timeout' | 'aborted' | 'unknown';
+
+// Per-call cancellation, timeout and retry budget for provider requests
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface ImageOptions extends RequestOptions {
+  style?: ImageStyle;
+}
+
+export interface RiddleOptions extends RequestOptions {
+  constraints?: RiddleConstraints;
+  format?: RiddleFormat;
+  language?: Language;
+  seed?: number; // pins sampling so every device gets the same riddle for the same prompt
+}
+
+// Backend that produces topics, riddles and images for a round.
+// Failures are reported as GenerationError (see services/errors.ts).
+export interface RiddleProvider {
+  kind: RiddleProviderKind;
+  fetchTrendingNews: (category?: NewsCategory, options?: NewsOptions) => Promise<TrendingTopic>;
+  generateRiddleFromTopic: (topic: string, difficulty: Difficulty, options?: RiddleOptions) => Promise<RiddleData>;
+  generateRiddleImage: (prompt: string, options?: ImageOptions) => Promise<string>;
+}
+
+export type RoundOutcome = 'solved' | 'failed';
+
+// How a finished round went, as recorded alongside the riddle in history
+export interface RoundDetails {
+  outcome: RoundOutcome;
+  selectedAnswer: number | null;
+  hintsRevealed: number;
+  durationMs: number;
+  score: number;
+  remainingMs?: number; // timed rounds only; 0 when the clock ran out
+  answerText?: string; // what was typed in free_text and anagram rounds
+}
+
+export interface HistoryItem extends RoundDetails {
   id: string;
   timestamp: number;
   topic: string;
@@ -19,34 +117,322 @@ export interface HistoryItem {
   answer: string;
   fun_fact: string;
   image_url: string;
+  image_prompt?: string; // absent on entries saved before prompts were kept
+  choices: string[];
+  answerIndex: number;
+  hints: string[];
   difficulty?: string;
+  category?: string;
+  format?: RiddleFormat;
+  accepted_answers?: string[];
+  sources?: NewsSource[];
+  language?: Language;
+  image_style?: ImageStyle;
+  playerId?: string; // party player who owns the entry; absent in the solo collection
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  hintPenalty: number;
+  timeBonus: number;
+  multiplier: number;
+  total: number;
+}
+
+export interface ScoreTotals {
+  session: number;
+  allTime: number;
+}
+
+export type GameMode = 'classic' | 'daily' | 'pack' | 'run' | 'party';
+
+export interface PackEntry {
+  riddle: RiddleData;
+  image_url: string; // data URI so packs stay playable offline and portable
+}
+
+// A named, ordered set of riddles that can be replayed without any model calls
+export interface RiddlePack {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+  entries: PackEntry[];
+}
+
+export interface PackProgress {
+  nextIndex: number;
+  solved: number;
+  played: number;
+}
+
+// One story from an RSS or Atom feed, normalized for use as a riddle topic
+export interface FeedItem {
+  id: string;
+  headline: string;
+  summary: string;
+  link?: string;
+  publishedAt?: string; // ISO timestamp, when the feed gives a parseable date
+}
+
+export interface NewsFeed {
+  title: string;
+  format: 'rss' | 'atom';
+  source: string; // URL or file name it was loaded from
+  items: FeedItem[];
+}
+
+// A story the player has already been shown, kept so trending rounds don't repeat it
+export interface SeenTopic {
+  key: string; // normalized topic text
+  topic: string;
+  urls: string[];
+  category?: string;
+  seenAt: number;
+}
+
+// How strict the content gate is: kids skips anything upsetting, adult only applies the player's own blocklist
+export type SensitivityProfile = 'kids' | 'general' | 'adult';
+
+export interface SafetySettings {
+  profile: SensitivityProfile;
+  blocklist: string[]; // extra words or phrases the player never wants to see
+}
+
+// A riddle the player flagged; similar stories are kept out of later rounds
+export interface RiddleReport {
+  id: string;
+  key: string; // normalized topic text
+  topic: string;
+  question: string;
+  reportedAt: number;
+}
+
+export interface RatingPoint {
+  timestamp: number;
+  rating: number;
+}
+
+export interface SkillRating {
+  rating: number;
+  rounds: number;
+  history: RatingPoint[]; // oldest first, capped
+}
+
+export interface Player {
+  id: string;
+  name: string;
+}
+
+// 'turns' gives each player their own riddle; in a 'race' everyone answers the same one in turn
+export type TurnStyle = 'turns' | 'race';
+
+export interface PlayerStanding {
+  score: number;
+  streak: number;
+  bestStreak: number;
+  hintsUsed: number;
+  played: number;
+  solved: number;
+}
+
+export interface PartyTurn {
+  playerId: string;
+  round: number;
+  outcome: RoundOutcome;
+  selectedAnswer: number | null;
+  hintsRevealed: number;
+  score: number;
+}
+
+// A pass-and-play session on one device; `round` and `turn` point at the player up next
+export interface PartyMatch {
+  id: string;
+  players: Player[];
+  turnStyle: TurnStyle;
+  rounds: number;
+  difficulty: Difficulty;
+  round: number;
+  turn: number;
+  standings: Record<string, PlayerStanding>;
+  turns: PartyTurn[];
+}
+
+// Chosen up front for a whole quest run
+export interface RunConfig {
+  category?: string; // category name; any trending topic when unset
+  categoryId?: string;
+  difficulty: DifficultySetting;
+  length: number | null; // null plays on until every life is lost
+}
+
+export interface RunRound {
+  question: string;
+  outcome: RoundOutcome;
+  score: number;
+}
+
+export interface QuestRun {
+  id: string;
+  config: RunConfig;
+  startedAt: number;
+  lives: number;
+  rounds: RunRound[];
+  score: number;
+}
+
+// A finished run as kept on the local leaderboard
+export interface RunRecord {
+  id: string;
+  config: RunConfig;
+  completedAt: number;
+  played: number;
+  solved: number;
+  livesLeft: number;
+  score: number;
+}
+
+export interface DailyResult {
+  selectedAnswer: number | null; // null when a timed attempt ran out of time
+  isCorrect: boolean;
+  completedAt: number;
+}
+
+export interface DailyPuzzle {
+  date: string; // local calendar date, YYYY-MM-DD
+  riddle: RiddleData; // the picture is kept in IndexedDB, see dailyService.getPuzzleImage
+  result?: DailyResult;
+}
+
+export interface DailyStreak {
+  current: number;
+  best: number;
+  lastPlayed: string | null;
+}
+
+export type GameStatus = 'idle' | 'searching' | 'generating_riddle' | 'playing' | 'solved' | 'failed' | 'error' | 'history' | 'stats' | 'packs' | 'run_summary' | 'party' | 'party_scoreboard';
+
+// 'none' before a riddle exists; 'failed' rounds fall back to text only
+export type ImageStatus = 'none' | 'pending' | 'ready' | 'failed';
+
+// One picture painted for the current riddle; regenerating adds another to compare against
+export interface ImageVariant {
+  url: string;
+  style: ImageStyle;
+}
+
+// Countdown for a timed round; remaining = limit - penalty - elapsed - (now - runningSince)
+export interface RoundTimer {
+  limitMs: number;
+  penaltyMs: number; // seconds charged for revealed hints
+  elapsedMs: number; // time banked from earlier running spans
+  runningSince: number | null; // null while paused or stopped
+  expired: boolean;
 }
 
 export interface GameState {
-  status: 'idle' | 'searching' | 'generating_riddle' | 'generating_image' | 'playing' | 'solved' | 'failed' | 'error' | 'history';
+  status: GameStatus;
+  mode: GameMode;
   riddle: RiddleData | null;
-  imageUrl: string | null;
+  imageUrl: string | null; // the variant on show
+  imageStatus: ImageStatus;
+  imageVariants: ImageVariant[];
+  imageRegenerationsLeft: number;
+  isRegeneratingImage: boolean;
   selectedAnswer: number | null;
+  answerText: string | null; // typed answer in free_text and anagram rounds
   hintsRevealed: number;
+  timer: RoundTimer | null;
   error?: string;
+  errorKind?: GenerationErrorKind;
   score: number;
+  lastScore: ScoreBreakdown | null;
 }
 
 export enum GameActionType {
   START_SEARCH = 'START_SEARCH',
   START_GEN_RIDDLE = 'START_GEN_RIDDLE',
-  START_GEN_IMAGE = 'START_GEN_IMAGE',
   RIDDLE_READY = 'RIDDLE_READY',
   IMAGE_READY = 'IMAGE_READY',
+  IMAGE_FAILED = 'IMAGE_FAILED',
+  IMAGE_REGENERATING = 'IMAGE_REGENERATING',
+  IMAGE_VARIANT_SELECTED = 'IMAGE_VARIANT_SELECTED',
   ANSWER_SELECTED = 'ANSWER_SELECTED',
+  ANSWER_SUBMITTED = 'ANSWER_SUBMITTED',
   REVEAL_HINT = 'REVEAL_HINT',
+  SCORE_AWARDED = 'SCORE_AWARDED',
   RESET = 'RESET',
   ERROR = 'ERROR',
   OPEN_HISTORY = 'OPEN_HISTORY',
-  CLOSE_HISTORY = 'CLOSE_HISTORY'
+  CLOSE_HISTORY = 'CLOSE_HISTORY',
+  OPEN_STATS = 'OPEN_STATS',
+  CLOSE_STATS = 'CLOSE_STATS',
+  OPEN_PACKS = 'OPEN_PACKS',
+  CLOSE_PACKS = 'CLOSE_PACKS',
+  TIMER_STARTED = 'TIMER_STARTED',
+  TIMER_PAUSED = 'TIMER_PAUSED',
+  TIMER_RESUMED = 'TIMER_RESUMED',
+  TIMER_STOPPED = 'TIMER_STOPPED',
+  TIME_EXPIRED = 'TIME_EXPIRED',
+  SHOW_RUN_SUMMARY = 'SHOW_RUN_SUMMARY',
+  CLOSE_RUN_SUMMARY = 'CLOSE_RUN_SUMMARY',
+  OPEN_PARTY = 'OPEN_PARTY',
+  CLOSE_PARTY = 'CLOSE_PARTY',
+  PASS_TURN = 'PASS_TURN',
+  SHOW_PARTY_SCOREBOARD = 'SHOW_PARTY_SCOREBOARD'
+}
+
+export type GameAction =
+  | { type: GameActionType.START_SEARCH; payload?: { mode: GameMode } }
+  | { type: GameActionType.START_GEN_RIDDLE; payload?: { mode: GameMode } }
+  | { type: GameActionType.RIDDLE_READY; payload: RiddleData }
+  // Image actions name their riddle so a late result never lands in a newer round
+  | { type: GameActionType.IMAGE_READY; payload: { riddle: RiddleData; imageUrl: string; style?: ImageStyle } }
+  | { type: GameActionType.IMAGE_FAILED; payload: { riddle: RiddleData } }
+  | { type: GameActionType.IMAGE_REGENERATING; payload: { riddle: RiddleData } }
+  | { type: GameActionType.IMAGE_VARIANT_SELECTED; payload: number }
+  | { type: GameActionType.ANSWER_SELECTED; payload: number }
+  | { type: GameActionType.ANSWER_SUBMITTED; payload: string }
+  | { type: GameActionType.REVEAL_HINT }
+  | { type: GameActionType.SCORE_AWARDED; payload: ScoreBreakdown }
+  | { type: GameActionType.RESET }
+  | { type: GameActionType.ERROR; payload: { message: string; kind: GenerationErrorKind } }
+  | { type: GameActionType.OPEN_HISTORY }
+  | { type: GameActionType.CLOSE_HISTORY }
+  | { type: GameActionType.OPEN_STATS }
+  | { type: GameActionType.CLOSE_STATS }
+  | { type: GameActionType.OPEN_PACKS }
+  | { type: GameActionType.CLOSE_PACKS }
+  // Timer actions carry the clock reading so the reducer stays pure
+  | { type: GameActionType.TIMER_STARTED; payload: { difficulty: Difficulty; now: number } }
+  | { type: GameActionType.TIMER_PAUSED; payload: { now: number } }
+  | { type: GameActionType.TIMER_RESUMED; payload: { now: number } }
+  | { type: GameActionType.TIMER_STOPPED; payload: { now: number } }
+  | { type: GameActionType.TIME_EXPIRED; payload: { now: number } }
+  | { type: GameActionType.SHOW_RUN_SUMMARY }
+  | { type: GameActionType.CLOSE_RUN_SUMMARY }
+  | { type: GameActionType.OPEN_PARTY }
+  | { type: GameActionType.CLOSE_PARTY }
+  // Replays the current riddle from a clean slate for the next player in a race
+  | { type: GameActionType.PASS_TURN }
+  | { type: GameActionType.SHOW_PARTY_SCOREBOARD };
+
+export interface WinRate {
+  played: number;
+  wins: number;
+  winRate: number; // 0..1
 }
 
-export interface GameAction {
-  type: GameActionType;
-  payload?: any;
-}
\ No newline at end of file
+export interface CategoryStats extends WinRate {
+  category: string;
+}
+
+export interface PlayerStats extends WinRate {
+  byDifficulty: Record<Difficulty, WinRate>;
+  byCategory: CategoryStats[];
+  hintDistribution: number[]; // index = hints revealed, value = rounds
+  averageSolveMs: number | null;
+  longestStreak: number;
+  currentStreak: number;
+}
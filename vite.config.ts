@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.RIDDLE_PROVIDER': JSON.stringify(env.RIDDLE_PROVIDER),
+        'process.env.RIDDLE_PROVIDER_URL': JSON.stringify(env.RIDDLE_PROVIDER_URL),
+        'process.env.NEWS_FEED_URL': JSON.stringify(env.NEWS_FEED_URL)
       },
       resolve: {
         alias: {